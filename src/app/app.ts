@@ -1,32 +1,50 @@
 import ThreeEngine from "@/engine/three-engine";
 import GUIView from "@/gui/guiView";
 import Stats from "stats.js";
+import type { UrlState } from "@/utils/url-state";
+import type { AppConfig } from "@/types/types";
+import { DEFAULT_CONFIG } from "@/utils/config";
+import { AssetStore } from "@/utils/asset-store";
+import { AssetGroups } from "@/utils/asset-groups";
+
+interface AppOptions {
+  initialState?: UrlState;
+  config?: AppConfig;
+}
 
 export default class App {
   private stats!: Stats;
   private el: HTMLElement;
   private threeEngine: ThreeEngine | null = null;
   private gui: GUIView | null = null;
-  public assets: Record<string, any> = {};
+  public assets: AssetStore = new AssetStore();
+  public assetGroups: AssetGroups = new AssetGroups(this.assets);
+  public config: AppConfig = DEFAULT_CONFIG;
   private handlerAnimate: () => void;
   private raf: number;
 
   constructor() {}
 
-  init(container: HTMLElement, assets: Record<string, any> = {}): void {
+  init(
+    container: HTMLElement,
+    assets: AssetStore = new AssetStore(),
+    options: AppOptions = {}
+  ): void {
     this.el = container;
     this.assets = assets;
+    this.assetGroups = new AssetGroups(assets);
+    this.config = options.config ?? DEFAULT_CONFIG;
     console.log(this.assets);
     this.initStats();
 
-    this.initThreeEngine();
+    this.initThreeEngine(options.initialState ?? { params: {} });
     this.addListeners();
     this.animate();
     this.resize();
   }
 
-  private initThreeEngine(): void {
-    this.threeEngine = new ThreeEngine(this);
+  private initThreeEngine(initialState: UrlState): void {
+    this.threeEngine = new ThreeEngine(this, initialState);
     this.el.appendChild(this.threeEngine.renderer.domElement);
   }
 
@@ -40,7 +58,8 @@ export default class App {
     dom.style.left = "0px";
     dom.style.zIndex = "9999999";
 
-    document.body.appendChild(this.stats.dom);
+    // Stats panel only in debug builds
+    if (this.config.debug) document.body.appendChild(this.stats.dom);
   }
 
   private addListeners(): void {
@@ -56,12 +75,17 @@ export default class App {
     this.stats.end();
   }
 
+  // While exporting, the FrameExporter advances and renders frames itself
   private update(): void {
-    if (this.threeEngine) this.threeEngine.update();
+    if (this.threeEngine && !this.threeEngine.isCapturing()) {
+      this.threeEngine.update();
+    }
   }
 
   private render(): void {
-    if (this.threeEngine) this.threeEngine.render();
+    if (this.threeEngine && !this.threeEngine.isCapturing()) {
+      this.threeEngine.render();
+    }
   }
 
   private resize(): void {
@@ -4,6 +4,13 @@ import * as THREE from "three";
 import * as TSL from "three/tsl";
 // Import WebGPU materials
 import { MeshPhysicalNodeMaterial } from "three/webgpu";
+import {
+  UniformSet,
+  UniformValues,
+  defineUniformAccessors,
+  defineUniforms,
+} from "./uniform-schema";
+import type { TimeNode } from "./engine-clock";
 
 export interface TSLPlaneParams {
   width?: number;
@@ -11,20 +18,58 @@ export interface TSLPlaneParams {
   widthSegments?: number;
   heightSegments?: number;
   position?: THREE.Vector3;
+  time?: TimeNode; // defaults to TSL.time, demos pass the engine clock's
 }
 
+export const WAVE_UNIFORMS = defineUniforms({
+  timeSpeed: {
+    type: "float",
+    default: 12.0,
+    min: 0,
+    max: 20,
+    step: 0.1,
+    description: "Multiplier applied to elapsed time",
+  },
+  amplitude: {
+    type: "float",
+    default: 0.9,
+    min: 0,
+    max: 3,
+    step: 0.01,
+    description: "Vertex displacement height",
+  },
+  colorMix: {
+    type: "float",
+    default: 1.5,
+    min: 0,
+    max: 10,
+    step: 0.01,
+    description: "Blend between base and animated colour",
+  },
+  waveFrequency: {
+    type: "float",
+    default: 3.0,
+    glsl: "uWaveFreq",
+    min: 0.1,
+    max: 10,
+    step: 0.1,
+    description: "Spatial frequency of the waves",
+  },
+  metalness: { type: "float", default: 0.9, min: 0, max: 1, step: 0.01 },
+  roughness: { type: "float", default: 0.8, min: 0, max: 1, step: 0.01 },
+});
+
+// Uniform accessors (timeSpeed, amplitude, ...) are generated from the schema
+export interface TSLPlane extends UniformValues<typeof WAVE_UNIFORMS> {}
+
 export class TSLPlane {
   private geometry: THREE.PlaneGeometry;
   private material: MeshPhysicalNodeMaterial | THREE.ShaderMaterial;
   public mesh: THREE.Mesh;
+  private time: TimeNode;
 
   // Uniforms controllabili
-  private timeSpeedUniform: any;
-  private amplitudeUniform: any;
-  private colorMixUniform: any;
-  private waveFrequencyUniform: any;
-  private metalnessUniform: any;
-  private roughnessUniform: any;
+  public readonly uniforms = new UniformSet(WAVE_UNIFORMS);
 
   constructor(params: TSLPlaneParams = {}) {
     const {
@@ -33,8 +78,10 @@ export class TSLPlane {
       widthSegments = 64,
       heightSegments = 64,
       position = new THREE.Vector3(0, 0, 0),
+      time = TSL.time,
     } = params;
 
+    this.time = time;
     this.initGeometry(width, height, widthSegments, heightSegments);
     this.initMaterial();
     this.initMesh(position);
@@ -64,14 +111,6 @@ export class TSLPlane {
     console.log("TSL time:", !!TSL.time);
 
     try {
-      // Create uniforms usando TSL
-      this.timeSpeedUniform = TSL.uniform(12.0);
-      this.amplitudeUniform = TSL.uniform(0.9);
-      this.colorMixUniform = TSL.uniform(1.5);
-      this.waveFrequencyUniform = TSL.uniform(3.0);
-      this.metalnessUniform = TSL.uniform(0.9);
-      this.roughnessUniform = TSL.uniform(0.8);
-
       // Create TSL material
       this.material = new MeshPhysicalNodeMaterial();
 
@@ -81,7 +120,7 @@ export class TSLPlane {
       console.log("Creating simple TSL material...");
 
       // Solo colore animato, no displacement per debug
-      const timeNode = TSL.mul(TSL.time, this.timeSpeedUniform);
+      const timeNode = TSL.mul(this.time, this.uniforms.node("timeSpeed"));
       const color1 = TSL.vec3(1.2, 1.8, 1.0);
       const color2 = TSL.vec3(1.0, 1.3, 1.6);
 
@@ -90,8 +129,8 @@ export class TSLPlane {
       const finalColor = TSL.mix(color1, color2, mixFactor);
 
       this.material.colorNode = finalColor;
-      // this.material.metalnessNode = this.metalnessUniform;
-      // this.material.roughnessNode = this.roughnessUniform;
+      // this.material.metalnessNode = this.uniforms.node("metalness");
+      // this.material.roughnessNode = this.uniforms.node("roughness");
 
       // Material properties
       this.material.transparent = true;
@@ -172,12 +211,7 @@ export class TSLPlane {
       `,
       uniforms: {
         uTime: { value: 0.0 },
-        uTimeSpeed: { value: 1.0 },
-        uAmplitude: { value: 2.3 },
-        uColorMix: { value: 10.5 },
-        uWaveFreq: { value: 2.0 },
-        uMetalness: { value: 0.1 },
-        uRoughness: { value: 0.8 },
+        ...this.uniforms.glsl,
       },
       side: THREE.DoubleSide,
       transparent: true,
@@ -191,109 +225,6 @@ export class TSLPlane {
     this.mesh.receiveShadow = true;
   }
 
-  // Getters and setters per i controlli GUI
-  get timeSpeed(): number {
-    if (this.timeSpeedUniform) {
-      return this.timeSpeedUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uTimeSpeed?.value ?? 1.0
-    );
-  }
-
-  set timeSpeed(value: number) {
-    if (this.timeSpeedUniform) {
-      this.timeSpeedUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uTimeSpeed) {
-      (this.material as THREE.ShaderMaterial).uniforms.uTimeSpeed.value = value;
-    }
-  }
-
-  get amplitude(): number {
-    if (this.amplitudeUniform) {
-      return this.amplitudeUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uAmplitude?.value ?? 0.3
-    );
-  }
-
-  set amplitude(value: number) {
-    if (this.amplitudeUniform) {
-      this.amplitudeUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uAmplitude) {
-      (this.material as THREE.ShaderMaterial).uniforms.uAmplitude.value = value;
-    }
-  }
-
-  get colorMix(): number {
-    if (this.colorMixUniform) {
-      return this.colorMixUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uColorMix?.value ?? 0.5
-    );
-  }
-
-  set colorMix(value: number) {
-    if (this.colorMixUniform) {
-      this.colorMixUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uColorMix) {
-      (this.material as THREE.ShaderMaterial).uniforms.uColorMix.value = value;
-    }
-  }
-
-  get waveFrequency(): number {
-    if (this.waveFrequencyUniform) {
-      return this.waveFrequencyUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uWaveFreq?.value ?? 2.0
-    );
-  }
-
-  set waveFrequency(value: number) {
-    if (this.waveFrequencyUniform) {
-      this.waveFrequencyUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uWaveFreq) {
-      (this.material as THREE.ShaderMaterial).uniforms.uWaveFreq.value = value;
-    }
-  }
-
-  get metalness(): number {
-    if (this.metalnessUniform) {
-      return this.metalnessUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uMetalness?.value ?? 0.1
-    );
-  }
-
-  set metalness(value: number) {
-    if (this.metalnessUniform) {
-      this.metalnessUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uMetalness) {
-      (this.material as THREE.ShaderMaterial).uniforms.uMetalness.value = value;
-    }
-  }
-
-  get roughness(): number {
-    if (this.roughnessUniform) {
-      return this.roughnessUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uRoughness?.value ?? 0.8
-    );
-  }
-
-  set roughness(value: number) {
-    if (this.roughnessUniform) {
-      this.roughnessUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uRoughness) {
-      (this.material as THREE.ShaderMaterial).uniforms.uRoughness.value = value;
-    }
-  }
-
   // Update method
   update(time: number): void {
     // TSL gestisce il tempo automaticamente con timerLocal()
@@ -309,3 +240,5 @@ export class TSLPlane {
     this.material.dispose();
   }
 }
+
+defineUniformAccessors(TSLPlane, WAVE_UNIFORMS);
@@ -4,6 +4,25 @@ import * as THREE from "three";
 import * as TSL from "three/tsl";
 // Import WebGPU materials
 import { MeshPhysicalNodeMaterial } from "three/webgpu";
+import {
+  UniformSet,
+  UniformValues,
+  defineUniformAccessors,
+  defineUniforms,
+} from "./uniform-schema";
+import type { TimeNode } from "./engine-clock";
+import {
+  DRONE_RADIUS,
+  DesertTankGame,
+  GROUND_Y,
+  MAX_DRONES,
+  MAX_ROCKS,
+  OFFSCREEN,
+  ROCK_SIZE,
+  TankHitbox,
+} from "./desert-tank-game";
+// SDF primitives and operators, mirrored on the CPU in ./sdf/cpu.ts
+import { Box, Circle, Ellipse, Subtraction, Union } from "./sdf/tsl";
 
 export interface TSLPlaneDesertTankParams {
   width?: number;
@@ -11,22 +30,103 @@ export interface TSLPlaneDesertTankParams {
   widthSegments?: number;
   heightSegments?: number;
   position?: THREE.Vector3;
+  time?: TimeNode; // defaults to TSL.time, demos pass the engine clock's
 }
 
+export const DESERT_TANK_UNIFORMS = defineUniforms({
+  wheelOffset: {
+    type: "vec2",
+    default: new THREE.Vector2(-10, 0),
+    description: "Tank position (x) and jump height (y)",
+    hidden: true,
+  },
+  bulletOffset: {
+    type: "float",
+    default: 20,
+    min: 0,
+    max: 20,
+    description: "Bullet travel, 20 when idle",
+    hidden: true,
+  },
+  shellOffset: {
+    type: "float",
+    default: 25,
+    min: 0,
+    max: 25,
+    description: "Ejected shell travel, 25 when idle",
+    hidden: true,
+  },
+  scroll: {
+    type: "float",
+    default: 0,
+    description: "Terrain scroll, advanced by the game",
+    hidden: true,
+  },
+  rockX: {
+    type: "vec3",
+    default: new THREE.Vector3(OFFSCREEN, OFFSCREEN, OFFSCREEN),
+    description: "Rock positions (x), offscreen when unused",
+    hidden: true,
+  },
+  droneX: {
+    type: "vec3",
+    default: new THREE.Vector3(OFFSCREEN, OFFSCREEN, OFFSCREEN),
+    description: "Drone positions (x)",
+    hidden: true,
+  },
+  droneY: {
+    type: "vec3",
+    default: new THREE.Vector3(OFFSCREEN, OFFSCREEN, OFFSCREEN),
+    description: "Drone positions (y)",
+    hidden: true,
+  },
+  blink: {
+    type: "bool",
+    default: false,
+    description: "Damage flash while recovering from a hit",
+    hidden: true,
+  },
+});
+
+const JUMP_HEIGHT = 5;
+// Long enough to clear a rock at the starting speed
+const JUMP_DURATION = 1; // seconds
+const SHOOT_DURATION = 0.5; // seconds
+const MOVE_SPEED = 4; // plane units per second
+// Horizontal travel allowed for the first wheel
+const TANK_RANGE = [-30, 25];
+// Tank extents around the first wheel on the ground line
+const TANK_HITBOX = { left: -5.5, right: 7.75, top: 6.3, wheels: [-1, 7.75] };
+// The gun muzzle relative to the first wheel on the ground line
+const GUN_OFFSET = new THREE.Vector2(-4.05, 6.3);
+
+// Literal for the fallback shader
+const glslVec2 = (x: number, y: number): string =>
+  `vec2(${x.toFixed(2)}, ${y.toFixed(2)})`;
+
+// Uniform accessors (wheelOffset, ...) are generated from the schema
+export interface TSLPlaneDesertTank
+  extends UniformValues<typeof DESERT_TANK_UNIFORMS> {}
+
 export class TSLPlaneDesertTank {
   private geometry: THREE.PlaneGeometry;
   private material: MeshPhysicalNodeMaterial | THREE.ShaderMaterial;
   public mesh: THREE.Mesh;
+  private time: TimeNode;
 
   // Game state uniforms
-  private wheelOffsetUniform: any;
-  private bulletOffsetUniform: any;
-  private shellOffsetUniform: any;
+  public readonly uniforms = new UniformSet(DESERT_TANK_UNIFORMS);
+  // Score, lives and obstacles, shown by the GUI's HUD
+  public readonly game = new DesertTankGame();
 
-  // Game state
+  // Tank state
   private canJump: boolean = true;
   private canShoot: boolean = true;
   private keyMap: { [key: string]: boolean } = {};
+  // Seconds into the running jump/shot, null when idle
+  private jumpTime: number | null = null;
+  private jumpStartY = 0;
+  private shootTime: number | null = null;
 
   constructor(params: TSLPlaneDesertTankParams = {}) {
     const {
@@ -35,8 +135,10 @@ export class TSLPlaneDesertTank {
       widthSegments = 64,
       heightSegments = 64,
       position = new THREE.Vector3(0, 0, 0),
+      time = TSL.time,
     } = params;
 
+    this.time = time;
     this.initGeometry(width, height, widthSegments, heightSegments);
     this.initMaterial();
     this.initMesh(position);
@@ -61,10 +163,14 @@ export class TSLPlaneDesertTank {
     console.log("🚀 Creating TSL Desert Tank Material");
 
     try {
-      // Create game state uniforms using TSL
-      this.wheelOffsetUniform = TSL.uniform(new THREE.Vector2(-10, 0));
-      this.bulletOffsetUniform = TSL.uniform(20);
-      this.shellOffsetUniform = TSL.uniform(25);
+      const wheelOffsetUniform = this.uniforms.node("wheelOffset");
+      const bulletOffsetUniform = this.uniforms.node("bulletOffset");
+      const shellOffsetUniform = this.uniforms.node("shellOffset");
+      const scrollUniform = this.uniforms.node("scroll");
+      const rockXUniform = this.uniforms.node("rockX");
+      const droneXUniform = this.uniforms.node("droneX");
+      const droneYUniform = this.uniforms.node("droneY");
+      const blinkUniform = this.uniforms.node("blink");
 
       // Create TSL material
       this.material = new MeshPhysicalNodeMaterial();
@@ -75,34 +181,17 @@ export class TSLPlaneDesertTank {
       });
 
       const sunRays = TSL.Fn(([position]) => {
-        const angle = TSL.atan2(position.y, position.x);
+        const angle = TSL.atan(position.y, position.x);
         const frequency = 20.0;
         const amplitude = 0.5;
 
-        const rays = TSL.sin(angle.mul(frequency).add(TSL.time))
+        const rays = TSL.sin(angle.mul(frequency).add(this.time))
           .mul(amplitude)
-          .add(TSL.sin(TSL.time.mul(2)));
+          .add(TSL.sin(this.time.mul(2)));
 
         return TSL.length(position).sub(0.5).add(rays);
       });
 
-      const Sphere = TSL.Fn(([position, offset, radius]) => {
-        const distance = TSL.length(position.sub(offset)).sub(radius);
-        return distance;
-      });
-
-      const Ellipse = TSL.Fn(([position, radius, scale]) => {
-        const scaledPosition = position.mul(scale);
-        return TSL.length(scaledPosition).sub(radius);
-      });
-
-      const Box = TSL.Fn(([position, dimensions]) => {
-        const distance = TSL.abs(position).sub(dimensions);
-        return TSL.length(TSL.max(distance, 0.0)).add(
-          TSL.min(TSL.max(distance.x, distance.y), 0.0)
-        );
-      });
-
       const Sky = TSL.Fn(([position]) => {
         const topColor = TSL.vec3(0.1, 0.2, 0.5);
         const midColor = TSL.vec3(1.0, 0.4, 0.2);
@@ -116,33 +205,19 @@ export class TSLPlaneDesertTank {
       });
 
       const Tank = TSL.Fn(([position, offset]) => {
-        const a = Ellipse(position.sub(offset), 5, TSL.vec2(1, 2));
-        const b = Box(
-          position.sub(offset).sub(TSL.vec2(0, -1.5)),
-          TSL.vec2(4.5, 1)
-        );
-        const c = Box(
-          position.sub(offset).sub(TSL.vec2(0, 2.5)),
-          TSL.vec2(2, 1)
-        ); // canopy
-        const d = Box(
-          position.sub(offset).sub(TSL.vec2(2, 2.7)),
-          TSL.vec2(4, 0.2)
-        ); // turret
-        const e = Box(
-          position.sub(offset).sub(TSL.vec2(-3.5, 2.8)),
-          TSL.vec2(0.1, 2)
-        ); // gun
-        const f = Box(
-          position.sub(offset).sub(TSL.vec2(0.5, 2.8)),
-          TSL.vec2(1, 0.5)
-        ); // window
-
-        let sdf = TSL.max(a, TSL.negate(b));
-        sdf = TSL.min(sdf, c);
-        sdf = TSL.min(sdf, d);
-        sdf = TSL.min(sdf, e);
-        sdf = TSL.max(sdf, TSL.negate(f));
+        const local = position.sub(offset);
+        const a = Ellipse(local, TSL.vec2(5, 2.5));
+        const b = Box(local.sub(TSL.vec2(0, -1.5)), TSL.vec2(4.5, 1));
+        const c = Box(local.sub(TSL.vec2(0, 2.5)), TSL.vec2(2, 1)); // canopy
+        const d = Box(local.sub(TSL.vec2(2, 2.7)), TSL.vec2(4, 0.2)); // turret
+        const e = Box(local.sub(TSL.vec2(-3.5, 2.8)), TSL.vec2(0.1, 2)); // gun
+        const f = Box(local.sub(TSL.vec2(0.5, 2.8)), TSL.vec2(1, 0.5)); // window
+
+        let sdf = Subtraction(b, a);
+        sdf = Union(sdf, c);
+        sdf = Union(sdf, d);
+        sdf = Union(sdf, e);
+        sdf = Subtraction(f, sdf);
 
         return TSL.smoothstep(0.01, 0, sdf);
       });
@@ -164,7 +239,7 @@ export class TSLPlaneDesertTank {
       // Main scene function
       const mainDesertTank = TSL.Fn(() => {
         const p = TSL.positionLocal.xy.mul(20);
-        const t = TSL.time.div(2);
+        const t = scrollUniform;
 
         let finalColour = Sky(p);
 
@@ -203,6 +278,24 @@ export class TSLPlaneDesertTank {
           TSL.smoothstep(0.01, 0.0, mounds)
         );
 
+        // Rocks, half buried in the bumps layer the tank drives on
+        for (const x of [rockXUniform.x, rockXUniform.y, rockXUniform.z]) {
+          const rock = Ellipse(
+            p.sub(
+              TSL.vec2(
+                x,
+                TSL.mx_noise_float(t.mul(2).add(x.div(4))).add(GROUND_Y)
+              )
+            ),
+            TSL.vec2(ROCK_SIZE.radius, ROCK_SIZE.height)
+          );
+          finalColour = TSL.mix(
+            finalColour,
+            TSL.vec3(0.35, 0.25, 0.15),
+            TSL.smoothstep(0.01, 0, rock)
+          );
+        }
+
         const bumps = groundLayer(
           p.add(TSL.vec2(t.mul(8), 6)).div(TSL.vec2(4, 1))
         );
@@ -221,17 +314,40 @@ export class TSLPlaneDesertTank {
           TSL.smoothstep(0.01, 0.0, foreground)
         );
 
+        // Drones, a saucer under a spinning rotor
+        const rotor = TSL.abs(TSL.sin(this.time.mul(40))).mul(DRONE_RADIUS);
+        for (const [x, y] of [
+          [droneXUniform.x, droneYUniform.x],
+          [droneXUniform.y, droneYUniform.y],
+          [droneXUniform.z, droneYUniform.z],
+        ]) {
+          const local = p.sub(TSL.vec2(x, y));
+          const drone = Union(
+            Ellipse(local, TSL.vec2(DRONE_RADIUS, DRONE_RADIUS * 0.4)),
+            Box(
+              local.sub(TSL.vec2(0, DRONE_RADIUS * 0.6)),
+              TSL.vec2(rotor, 0.08)
+            )
+          );
+          finalColour = TSL.mix(
+            finalColour,
+            TSL.vec3(0.15, 0.15, 0.18),
+            TSL.smoothstep(0.01, 0, drone)
+          );
+        }
+
         // Wheels (simplified - TSL doesn't support loops the same way)
-        const wheelOffsetX = this.wheelOffsetUniform.x;
+        const wheelOffsetX = wheelOffsetUniform.x;
         for (let i = 0; i < 4; i++) {
           const offset = wheelOffsetX.add(i * 2.25);
-          const wheel = Sphere(
-            p,
-            TSL.vec2(
-              offset,
-              TSL.mx_noise_float(t.mul(2).add(offset.div(4)))
-                .sub(4.95)
-                .add(this.wheelOffsetUniform.y)
+          const wheel = Circle(
+            p.sub(
+              TSL.vec2(
+                offset,
+                TSL.mx_noise_float(t.mul(2).add(offset.div(4)))
+                  .sub(4.95)
+                  .add(wheelOffsetUniform.y)
+              )
             ),
             1
           );
@@ -250,38 +366,44 @@ export class TSLPlaneDesertTank {
             tankOffset,
             TSL.mx_noise_float(t.mul(2).add(tankOffset.div(4)))
               .sub(4.5)
-              .add(this.wheelOffsetUniform.y)
+              .add(wheelOffsetUniform.y)
           )
         );
 
         finalColour = TSL.mix(
           finalColour,
-          Camouflage(
-            TSL.vec2(
-              p.x.sub(tankOffset),
-              p.y
-                .sub(this.wheelOffsetUniform.y)
-                .add(
-                  TSL.negate(
-                    TSL.mx_noise_float(t.mul(2).add(tankOffset.div(4)))
+          TSL.select(
+            blinkUniform,
+            TSL.vec3(1, 0.3, 0.2),
+            Camouflage(
+              TSL.vec2(
+                p.x.sub(tankOffset),
+                p.y
+                  .sub(wheelOffsetUniform.y)
+                  .add(
+                    TSL.negate(
+                      TSL.mx_noise_float(t.mul(2).add(tankOffset.div(4)))
+                    )
                   )
-                )
+              )
             )
           ),
           tank
         );
 
-        // Bullet
-        const bulletOffset = tankOffset.sub(9);
-        const bullet = Sphere(
-          p,
-          TSL.vec2(
-            bulletOffset.sub(4.05),
-            TSL.mx_noise_float(t.mul(2).add(bulletOffset.div(4))).add(
-              this.bulletOffsetUniform
+        // Bullet, fired upwards from the gun
+        const gunX = wheelOffsetX.add(GUN_OFFSET.x);
+        const bullet = Circle(
+          p.sub(
+            TSL.vec2(
+              gunX,
+              TSL.mx_noise_float(t.mul(2).add(tankOffset.div(4)))
+                .add(GROUND_Y + GUN_OFFSET.y)
+                .add(wheelOffsetUniform.y)
+                .add(bulletOffsetUniform)
             )
           ),
-          0.1
+          0.3
         );
         finalColour = TSL.mix(
           finalColour,
@@ -290,11 +412,13 @@ export class TSLPlaneDesertTank {
         );
 
         // Shell
-        const shell = Sphere(
-          p,
-          TSL.vec2(
-            bulletOffset.add(5).add(this.shellOffsetUniform),
-            TSL.mx_noise_float(t.mul(2).add(bulletOffset.div(4))).sub(1.8)
+        const bulletOffset = tankOffset.sub(9);
+        const shell = Circle(
+          p.sub(
+            TSL.vec2(
+              bulletOffset.add(5).add(shellOffsetUniform),
+              TSL.mx_noise_float(t.mul(2).add(bulletOffset.div(4))).sub(1.8)
+            )
           ),
           0.2
         );
@@ -323,6 +447,11 @@ export class TSLPlaneDesertTank {
 
   private createFallbackMaterial(): void {
     console.log("🔄 Using fallback Desert Tank ShaderMaterial");
+    // Game geometry shared with the TSL shader, as GLSL literals
+    const ground = GROUND_Y.toFixed(2);
+    const rockSize = glslVec2(ROCK_SIZE.radius, ROCK_SIZE.height);
+    const droneSize = glslVec2(DRONE_RADIUS, DRONE_RADIUS * 0.4);
+    const gun = glslVec2(GUN_OFFSET.x, GROUND_Y + GUN_OFFSET.y);
     this.material = new THREE.ShaderMaterial({
       vertexShader: `
         varying vec2 vUv;
@@ -335,10 +464,14 @@ export class TSLPlaneDesertTank {
         }
       `,
       fragmentShader: `
-        uniform float uTime;
         uniform vec2 uWheelOffset;
         uniform float uBulletOffset;
         uniform float uShellOffset;
+        uniform float uScroll;
+        uniform vec3 uRockX;
+        uniform vec3 uDroneX;
+        uniform vec3 uDroneY;
+        uniform bool uBlink;
         varying vec2 vUv;
         varying vec3 vPosition;
         
@@ -382,7 +515,7 @@ export class TSLPlaneDesertTank {
         
         void main() {
           vec2 p = vPosition.xy * 20.0;
-          float t = uTime * 0.5;
+          float t = uScroll;
           
           // Sky
           vec3 color = sky(p);
@@ -394,10 +527,22 @@ export class TSLPlaneDesertTank {
           float hills = groundLayer((p + vec2(t * 2.0, 1.0)) / vec2(5.0, 5.0));
           color = mix(color, vec3(0.2, 0.2, 0.1), smoothstep(0.01, 0.0, hills));
           
+          // Rocks and drones, on a flat ground line
+          for(int i = 0; i < 3; i++) {
+            vec2 rockPos = p - vec2(uRockX[i], ${ground});
+            float rock = max(length(rockPos / ${rockSize}) - 1.0, -rockPos.y);
+            color = mix(color, vec3(0.35, 0.25, 0.15), smoothstep(0.01, 0.0, rock));
+            
+            vec2 dronePos = p - vec2(uDroneX[i], uDroneY[i]);
+            float drone = length(dronePos / ${droneSize}) - 1.0;
+            color = mix(color, vec3(0.15, 0.15, 0.18), smoothstep(0.01, 0.0, drone));
+          }
+          
           // Tank body (simplified)
           vec2 tankPos = vec2(uWheelOffset.x - 0.55, uWheelOffset.y - 4.5);
           float tankBody = box(p - tankPos, vec2(4.0, 2.0));
-          color = mix(color, vec3(0.3, 0.5, 0.2), smoothstep(0.01, 0.0, tankBody));
+          vec3 tankColor = uBlink ? vec3(1.0, 0.3, 0.2) : vec3(0.3, 0.5, 0.2);
+          color = mix(color, tankColor, smoothstep(0.01, 0.0, tankBody));
           
           // Wheels
           for(int i = 0; i < 4; i++) {
@@ -408,19 +553,14 @@ export class TSLPlaneDesertTank {
           }
           
           // Bullet
-          vec2 bulletPos = vec2(uWheelOffset.x - 4.0, uBulletOffset);
-          float bullet = circle(p - bulletPos, 0.1);
+          vec2 bulletPos = uWheelOffset + ${gun} + vec2(0.0, uBulletOffset);
+          float bullet = circle(p - bulletPos, 0.3);
           color = mix(color, vec3(0.5, 0.0, 0.0), smoothstep(0.01, 0.0, bullet));
           
           gl_FragColor = vec4(color, 1.0);
         }
       `,
-      uniforms: {
-        uTime: { value: 0.0 },
-        uWheelOffset: { value: new THREE.Vector2(-10, 0) },
-        uBulletOffset: { value: 20 },
-        uShellOffset: { value: 25 },
-      },
+      uniforms: { ...this.uniforms.glsl },
       side: THREE.DoubleSide,
       transparent: true,
     });
@@ -432,178 +572,173 @@ export class TSLPlaneDesertTank {
   }
 
   private initControls(): void {
-    const onDocumentKey = (e: KeyboardEvent) => {
-      this.keyMap[e.code] = e.type === "keydown";
-      return false;
-    };
-    document.addEventListener("keydown", onDocumentKey);
-    document.addEventListener("keyup", onDocumentKey);
+    document.addEventListener("keydown", this.onDocumentKey);
+    document.addEventListener("keyup", this.onDocumentKey);
+  }
+
+  private onDocumentKey = (e: KeyboardEvent): void => {
+    // Leave typing in GUI fields and pressing GUI buttons alone, key
+    // releases still count so no key stays held
+    const target = e.target as HTMLElement | null;
+    const inGui = !!target?.closest("input, textarea, select, button");
+    if (e.type === "keydown" && inGui) return;
+    this.keyMap[e.code] = e.type === "keydown";
+    if (e.type !== "keydown" || e.repeat) return;
+    if (e.code === "Enter") {
+      this.start();
+    } else if (e.code === "KeyP" || e.code === "Escape") {
+      this.game.togglePause();
+    }
+  };
+
+  // Starts a game from the title or game over screen
+  public start(): void {
+    if (this.game.state !== "title" && this.game.state !== "gameover") return;
+    this.wheelOffset = DESERT_TANK_UNIFORMS.wheelOffset.default.clone();
+    this.jumpTime = null;
+    this.canJump = true;
+    this.endShot();
+    this.game.start();
   }
 
-  // Game mechanics
+  // Game mechanics, animated by fixedUpdate() so they follow the engine clock
   public jump(): void {
     if (!this.canJump) return;
     this.canJump = false;
-
-    // Simple jump animation (you'll need to implement your own tweening)
-    const startY = this.wheelOffset.y;
-    const jumpHeight = 5;
-    const jumpDuration = 500; // ms
-
-    let startTime = performance.now();
-    const animateJump = (currentTime: number) => {
-      const elapsed = currentTime - startTime;
-      const progress = Math.min(elapsed / jumpDuration, 1);
-
-      if (progress < 0.5) {
-        // Going up
-        const upProgress = progress * 2;
-        this.wheelOffset = new THREE.Vector2(
-          this.wheelOffset.x,
-          startY + jumpHeight * Math.sin(upProgress * Math.PI * 0.5)
-        );
-      } else {
-        // Going down with bounce
-        const downProgress = (progress - 0.5) * 2;
-        this.wheelOffset = new THREE.Vector2(
-          this.wheelOffset.x,
-          startY + jumpHeight * Math.cos(downProgress * Math.PI * 0.5)
-        );
-      }
-
-      if (progress < 1) {
-        requestAnimationFrame(animateJump);
-      } else {
-        this.wheelOffset = new THREE.Vector2(this.wheelOffset.x, startY);
-        this.canJump = true;
-      }
-    };
-    requestAnimationFrame(animateJump);
+    this.jumpStartY = this.wheelOffset.y;
+    this.jumpTime = 0;
   }
 
   public shoot(): void {
     if (!this.canShoot) return;
     this.canShoot = false;
-
-    // Simple shoot animation
     this.bulletOffset = 0;
     this.shellOffset = 0;
-
-    const startTime = performance.now();
-    const shootDuration = 500;
-
-    const animateShoot = (currentTime: number) => {
-      const elapsed = currentTime - startTime;
-      const progress = Math.min(elapsed / shootDuration, 1);
-
-      this.bulletOffset = 20 * progress;
-      this.shellOffset = 25 * progress;
-
-      if (progress < 1) {
-        requestAnimationFrame(animateShoot);
-      } else {
-        this.canShoot = true;
-      }
-    };
-    requestAnimationFrame(animateShoot);
+    this.shootTime = 0;
   }
 
-  // Getters and setters
-  get wheelOffset(): THREE.Vector2 {
-    if (this.wheelOffsetUniform) {
-      return this.wheelOffsetUniform.value;
+  // Input and movement at the engine's fixed timestep
+  fixedUpdate(deltaTime: number): void {
+    if (this.game.state !== "paused") {
+      this.handleInput(deltaTime);
+      this.stepJump(deltaTime);
+      this.stepShoot(deltaTime);
     }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uWheelOffset?.value ??
-      new THREE.Vector2(-10, 0)
-    );
-  }
 
-  set wheelOffset(value: THREE.Vector2) {
-    if (this.wheelOffsetUniform) {
-      this.wheelOffsetUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uWheelOffset) {
-      (this.material as THREE.ShaderMaterial).uniforms.uWheelOffset.value =
-        value;
-    }
+    const bullet =
+      this.shootTime === null
+        ? null
+        : {
+            x: this.wheelOffset.x + GUN_OFFSET.x,
+            y: GROUND_Y + GUN_OFFSET.y + this.wheelOffset.y + this.bulletOffset,
+          };
+    if (this.game.step(deltaTime, this.hitbox(), bullet)) this.endShot();
+    this.syncGame();
   }
 
-  get bulletOffset(): number {
-    if (this.bulletOffsetUniform) {
-      return this.bulletOffsetUniform.value;
+  private handleInput(deltaTime: number): void {
+    if (this.keyMap["KeyW"] || this.keyMap["ArrowUp"]) {
+      this.canJump && this.jump();
     }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uBulletOffset?.value ??
-      20
-    );
-  }
-
-  set bulletOffset(value: number) {
-    if (this.bulletOffsetUniform) {
-      this.bulletOffsetUniform.value = value;
-    } else if (
-      (this.material as THREE.ShaderMaterial).uniforms?.uBulletOffset
-    ) {
-      (this.material as THREE.ShaderMaterial).uniforms.uBulletOffset.value =
-        value;
+    let move = 0;
+    if (this.keyMap["KeyA"] || this.keyMap["ArrowLeft"]) move -= 1;
+    if (this.keyMap["KeyD"] || this.keyMap["ArrowRight"]) move += 1;
+    if (move !== 0) {
+      const currentOffset = this.wheelOffset;
+      this.wheelOffset = new THREE.Vector2(
+        THREE.MathUtils.clamp(
+          currentOffset.x + move * MOVE_SPEED * deltaTime,
+          TANK_RANGE[0],
+          TANK_RANGE[1]
+        ),
+        currentOffset.y
+      );
+    }
+    if (this.keyMap["Space"]) {
+      this.canShoot && this.shoot();
     }
   }
 
-  get shellOffset(): number {
-    if (this.shellOffsetUniform) {
-      return this.shellOffsetUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uShellOffset?.value ??
-      25
-    );
+  private hitbox(): TankHitbox {
+    const { x, y } = this.wheelOffset;
+    return {
+      left: x + TANK_HITBOX.left,
+      right: x + TANK_HITBOX.right,
+      bottom: GROUND_Y + y,
+      top: GROUND_Y + y + TANK_HITBOX.top,
+      wheels: [x + TANK_HITBOX.wheels[0], x + TANK_HITBOX.wheels[1]],
+    };
   }
 
-  set shellOffset(value: number) {
-    if (this.shellOffsetUniform) {
-      this.shellOffsetUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uShellOffset) {
-      (this.material as THREE.ShaderMaterial).uniforms.uShellOffset.value =
-        value;
-    }
+  // Copies the game's scroll, obstacles and damage flash to the uniforms
+  private syncGame(): void {
+    const drones = Array.from({ length: MAX_DRONES }, (_, i) =>
+      this.game.dronePosition(i)
+    );
+    this.scroll = this.game.scroll;
+    this.rockX = new THREE.Vector3().fromArray(
+      Array.from({ length: MAX_ROCKS }, (_, i) => this.game.rockX(i))
+    );
+    this.droneX = new THREE.Vector3().fromArray(drones.map(({ x }) => x));
+    this.droneY = new THREE.Vector3().fromArray(drones.map(({ y }) => y));
+    this.blink = this.game.blinking;
   }
 
-  // Update method with controls
-  update(deltaTime: number): void {
-    // Handle input
-    if (this.keyMap["KeyW"] || this.keyMap["ArrowUp"]) {
-      this.canJump && this.jump();
-    }
-    if (this.keyMap["KeyA"] || this.keyMap["ArrowLeft"]) {
-      const currentOffset = this.wheelOffset;
+  private stepJump(deltaTime: number): void {
+    if (this.jumpTime === null) return;
+    this.jumpTime += deltaTime;
+    const progress = Math.min(this.jumpTime / JUMP_DURATION, 1);
+    const startY = this.jumpStartY;
+
+    if (progress >= 1) {
+      this.wheelOffset = new THREE.Vector2(this.wheelOffset.x, startY);
+      this.jumpTime = null;
+      this.canJump = true;
+    } else if (progress < 0.5) {
+      // Going up
+      const upProgress = progress * 2;
       this.wheelOffset = new THREE.Vector2(
-        currentOffset.x - 4 * deltaTime,
-        currentOffset.y
+        this.wheelOffset.x,
+        startY + JUMP_HEIGHT * Math.sin(upProgress * Math.PI * 0.5)
       );
-    }
-    if (this.keyMap["KeyD"] || this.keyMap["ArrowRight"]) {
-      const currentOffset = this.wheelOffset;
+    } else {
+      // Going down with bounce
+      const downProgress = (progress - 0.5) * 2;
       this.wheelOffset = new THREE.Vector2(
-        currentOffset.x + 4 * deltaTime,
-        currentOffset.y
+        this.wheelOffset.x,
+        startY + JUMP_HEIGHT * Math.cos(downProgress * Math.PI * 0.5)
       );
     }
-    if (this.keyMap["Space"]) {
-      this.canShoot && this.shoot();
-    }
+  }
 
-    // Update fallback material time
-    if ((this.material as THREE.ShaderMaterial).uniforms?.uTime) {
-      (this.material as THREE.ShaderMaterial).uniforms.uTime.value += deltaTime;
-    }
+  private stepShoot(deltaTime: number): void {
+    if (this.shootTime === null) return;
+    this.shootTime += deltaTime;
+    const progress = Math.min(this.shootTime / SHOOT_DURATION, 1);
+
+    this.bulletOffset = 20 * progress;
+    this.shellOffset = 25 * progress;
+
+    if (progress >= 1) this.endShot();
+  }
+
+  // Parks the bullet and shell, also when the bullet hits a drone
+  private endShot(): void {
+    this.bulletOffset = 20;
+    this.shellOffset = 25;
+    this.shootTime = null;
+    this.canShoot = true;
   }
 
   // Clean up
   dispose(): void {
     this.geometry.dispose();
     this.material.dispose();
+    this.game.dispose();
     // Remove event listeners
-    document.removeEventListener("keydown", this.initControls);
-    document.removeEventListener("keyup", this.initControls);
+    document.removeEventListener("keydown", this.onDocumentKey);
+    document.removeEventListener("keyup", this.onDocumentKey);
   }
 }
+
+defineUniformAccessors(TSLPlaneDesertTank, DESERT_TANK_UNIFORMS);
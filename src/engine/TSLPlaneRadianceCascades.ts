@@ -0,0 +1,805 @@
+// File: @/engine/tsl-plane-radiance-cascades.ts
+import * as THREE from "three";
+// Import TSL nodes
+import * as TSL from "three/tsl";
+// Import WebGPU materials
+import { MeshBasicNodeMaterial, Node, TextureNode } from "three/webgpu";
+import {
+  UniformSet,
+  UniformValues,
+  defineUniformAccessors,
+  defineUniforms,
+} from "./uniform-schema";
+import type { TimeNode } from "./engine-clock";
+import type { EngineRenderer } from "./renderer-factory";
+import { SDF_GLSL } from "./sdf/glsl";
+import {
+  Box,
+  Circle,
+  Heart,
+  Moon,
+  Rotate,
+  Round,
+  Segment,
+  Star,
+  Triangle,
+} from "./sdf/tsl";
+
+export interface TSLPlaneRadianceCascadesParams {
+  renderer: EngineRenderer; // runs the cascade passes every update
+  width?: number;
+  height?: number;
+  position?: THREE.Vector3;
+  time?: TimeNode; // defaults to TSL.time, demos pass the engine clock's
+}
+
+export const RADIANCE_CASCADES_UNIFORMS = defineUniforms({
+  cascadeCount: {
+    type: "int",
+    default: 5,
+    min: 1,
+    max: 6,
+    step: 1,
+    description: "Cascades, each doubles the probe spacing and ray length",
+  },
+  rayLength: {
+    type: "float",
+    default: 0.02,
+    min: 0.002,
+    max: 0.2,
+    step: 0.001,
+    description: "Ray interval of the first cascade, 4× longer per cascade",
+  },
+  resolutionScale: {
+    type: "float",
+    default: 0.5,
+    min: 0.125,
+    max: 1,
+    step: 0.125,
+    description: "Size of the cascade render targets relative to 1024 px",
+  },
+  maxSteps: {
+    type: "int",
+    default: 24,
+    min: 1,
+    max: 64,
+    step: 1,
+    description: "Sphere tracing iterations per ray interval",
+  },
+  emission: {
+    type: "float",
+    default: 1.5,
+    min: 0,
+    max: 5,
+    step: 0.05,
+    description: "Brightness of the emissive shapes",
+  },
+  bounce: {
+    type: "float",
+    default: 0.5,
+    min: 0,
+    max: 0.95,
+    step: 0.05,
+    description: "Light reflected by occluders, fed back from the last frame",
+  },
+  timeMultiplier: {
+    type: "float",
+    default: 0.5,
+    min: 0,
+    max: 5,
+    step: 0.05,
+    description: "Animation speed of the shapes",
+  },
+});
+
+// Per pass state of the cascade passes, kept out of the parameter panel
+const PASS_UNIFORMS = defineUniforms({
+  size: {
+    type: "float",
+    default: 512,
+    description: "Cascade render target size in texels",
+    hidden: true,
+  },
+  side: {
+    type: "float",
+    default: 2,
+    description: "Texels per probe side, the probe holds side² directions",
+    hidden: true,
+  },
+  intervalStart: {
+    type: "float",
+    default: 0,
+    description: "Distance where this cascade's rays start",
+    hidden: true,
+  },
+  intervalEnd: {
+    type: "float",
+    default: 1,
+    description: "Distance where this cascade's rays end",
+    hidden: true,
+  },
+  merge: {
+    type: "float",
+    default: 0,
+    description: "1 when an upper cascade is merged in",
+    hidden: true,
+  },
+});
+
+const BASE_RESOLUTION = 1024;
+// The scene spans -HALF_EXTENT..HALF_EXTENT on both axes
+const HALF_EXTENT = 1.5;
+// Lifts bounce lookups off the surface that was hit, in texels
+const BOUNCE_OFFSET = 2;
+
+// Material id 0 is an occluder, emitters follow
+const OCCLUDER_ALBEDO: THREE.Vector3Tuple = [0.8, 0.8, 0.8];
+const EMITTER_COLOURS: THREE.Vector3Tuple[] = [
+  [1.0, 0.7, 0.35],
+  [0.3, 0.8, 1.0],
+  [1.0, 0.3, 0.6],
+];
+
+// Any TSL node, as passed between the shader helpers below
+type TSLNode = TSL.ShaderNodeObject<Node>;
+
+// Uniform accessors (cascadeCount, rayLength, ...) are generated from the schema
+export interface TSLPlaneRadianceCascades
+  extends UniformValues<typeof RADIANCE_CASCADES_UNIFORMS> {}
+
+/**
+ * 2D global illumination with radiance cascades. Every cascade is a grid of
+ * probes casting rays over a distance interval; higher cascades space the
+ * probes twice as far apart, cast four times as many rays and trace four
+ * times further. They are merged top down into the first cascade, averaged
+ * into fluence and shown on the plane. Occluders reflect the previous
+ * frame's fluence, which adds a bounce per frame.
+ */
+export class TSLPlaneRadianceCascades {
+  private geometry: THREE.PlaneGeometry;
+  private material: MeshBasicNodeMaterial | THREE.ShaderMaterial;
+  public mesh: THREE.Mesh;
+  private time: TimeNode;
+  private renderer: EngineRenderer;
+
+  public readonly uniforms = new UniformSet(RADIANCE_CASCADES_UNIFORMS);
+  private pass = new UniformSet(PASS_UNIFORMS);
+
+  // Cascades ping-pong between two targets, fluence is kept for the bounce
+  private cascades: [THREE.WebGLRenderTarget, THREE.WebGLRenderTarget];
+  private fluence: THREE.WebGLRenderTarget;
+  private passScene = new THREE.Scene();
+  private passCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  private passQuad: THREE.Mesh;
+  private passGeometry = new THREE.PlaneGeometry(2, 2);
+  private cascadeMaterial: MeshBasicNodeMaterial | THREE.ShaderMaterial;
+  private fluenceMaterial: MeshBasicNodeMaterial | THREE.ShaderMaterial;
+
+  // Swapped between passes, the GLSL path uses the sampler uniforms
+  private upperTexture: TextureNode | null = null;
+  private cascadeTexture: TextureNode | null = null;
+  private fluenceTexture: TextureNode | null = null;
+
+  constructor(params: TSLPlaneRadianceCascadesParams) {
+    const {
+      renderer,
+      width = 8,
+      height = 8,
+      position = new THREE.Vector3(0, 0, 0),
+      time = TSL.time,
+    } = params;
+
+    this.time = time;
+    this.renderer = renderer;
+    this.geometry = new THREE.PlaneGeometry(width, height);
+    this.initTargets();
+    this.initMaterials();
+    this.initMesh(position);
+  }
+
+  private initTargets(): void {
+    const options = {
+      type: THREE.HalfFloatType,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      depthBuffer: false,
+    };
+    this.cascades = [
+      new THREE.WebGLRenderTarget(1, 1, options),
+      new THREE.WebGLRenderTarget(1, 1, options),
+    ];
+    // Sampled with filtering by the bounce and the plane
+    this.fluence = new THREE.WebGLRenderTarget(1, 1, {
+      ...options,
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+    });
+    this.resizeTargets();
+  }
+
+  // Target size, a multiple of the top cascade's probe size
+  private targetSize(): number {
+    const probe = 2 ** this.cascadeCount;
+    const size = BASE_RESOLUTION * this.resolutionScale;
+    return Math.max(probe, Math.round(size / probe) * probe);
+  }
+
+  private resizeTargets(): void {
+    const size = this.targetSize();
+    if (this.pass.get("size") === size && this.fluence.width === size) return;
+    console.log(`🔦 Radiance cascades at ${size}×${size}`);
+    this.pass.set("size", size);
+    for (const target of [...this.cascades, this.fluence]) {
+      target.setSize(size, size);
+    }
+  }
+
+  private initMaterials(): void {
+    console.log("🚀 Creating TSL Radiance Cascades Materials");
+
+    try {
+      const maxStepsUniform = this.uniforms.node("maxSteps");
+      const emissionUniform = this.uniforms.node("emission");
+      const bounceUniform = this.uniforms.node("bounce");
+      const timeMultiplierUniform = this.uniforms.node("timeMultiplier");
+      const sizeUniform = this.pass.node("size");
+      const sideUniform = this.pass.node("side");
+      const intervalStartUniform = this.pass.node("intervalStart");
+      const intervalEndUniform = this.pass.node("intervalEnd");
+      const mergeUniform = this.pass.node("merge");
+
+      const upperTexture = TSL.texture(this.cascades[0].texture);
+      const cascadeTexture = TSL.texture(this.cascades[0].texture);
+      const fluenceTexture = TSL.texture(this.fluence.texture);
+      this.upperTexture = upperTexture;
+      this.cascadeTexture = cascadeTexture;
+      this.fluenceTexture = fluenceTexture;
+
+      // Scene as (distance, material id), shared by the passes and the plane
+      const sceneMap = TSL.Fn(([p]) => {
+        const t = this.time.mul(timeMultiplierUniform);
+
+        const sun = TSL.vec2(
+          Circle(
+            p.sub(TSL.vec2(TSL.cos(t).mul(1.0), TSL.sin(t).mul(0.6))),
+            0.12
+          ),
+          1
+        );
+        const star = TSL.vec2(
+          Star(Rotate(p.sub(TSL.vec2(-1.0, 0.9)), t), 0.2, 5, 2.5),
+          2
+        );
+        const heart = TSL.vec2(Heart(p.sub(TSL.vec2(0.95, -1.2)), 0.35), 3);
+
+        let occluder = Box(Rotate(p, t.mul(0.5)), TSL.vec2(0.35, 0.06));
+        occluder = TSL.min(
+          occluder,
+          Moon(Rotate(p.sub(TSL.vec2(0.7, 0.6)), t.negate()), 0.2)
+        );
+        occluder = TSL.min(
+          occluder,
+          Round(Segment(p, TSL.vec2(-1.1, -0.3), TSL.vec2(-0.3, -0.9)), 0.04)
+        );
+        occluder = TSL.min(
+          occluder,
+          Triangle(p.sub(TSL.vec2(-0.5, 0.3)), 0.15)
+        );
+        occluder = TSL.min(occluder, Circle(p.sub(TSL.vec2(0.4, -0.5)), 0.12));
+
+        return [sun, star, heart].reduce<TSLNode>(
+          (scene, emitter) =>
+            TSL.select(emitter.x.lessThan(scene.x), emitter, scene),
+          TSL.vec2(occluder, 0)
+        );
+      });
+
+      const emitterColour = (material: TSLNode) =>
+        EMITTER_COLOURS.slice(1).reduce<TSLNode>(
+          (colour, rgb, i) =>
+            TSL.select(material.greaterThan(i + 1.5), TSL.vec3(...rgb), colour),
+          TSL.vec3(...EMITTER_COLOURS[0])
+        );
+
+      // Render target textures are sampled with a top left origin, y down
+      const toScene = (uv: TSLNode) =>
+        uv.mul(2).sub(1).mul(TSL.vec2(HALF_EXTENT, -HALF_EXTENT));
+      const toUv = (p: TSLNode) =>
+        p.div(TSL.vec2(HALF_EXTENT, -HALF_EXTENT)).add(1).mul(0.5);
+      const texelUv = (texel: TSLNode) => texel.add(0.5).div(sizeUniform);
+      // Loops need an explicit level, sample() returns a TextureNode at
+      // runtime although typed as a plain node
+      const sampleLevel0 = (
+        textureNode: TSL.ShaderNodeObject<TextureNode>,
+        uv: TSLNode
+      ): TSLNode =>
+        (
+          textureNode.sample(uv) as unknown as TSL.ShaderNodeObject<TextureNode>
+        ).level(TSL.float(0));
+
+      // Sphere traces one interval to (radiance, transmittance)
+      const traceInterval = TSL.Fn(([origin, direction, start, end]) => {
+        const texelSize = TSL.float(HALF_EXTENT * 2).div(sizeUniform);
+        const result = TSL.vec4(0, 0, 0, 1).toVar();
+        const travelled = TSL.float(start).toVar();
+        TSL.Loop(maxStepsUniform, () => {
+          const p = origin.add(direction.mul(travelled));
+          const hit = sceneMap(p);
+          TSL.If(hit.x.lessThan(texelSize.mul(0.5)), () => {
+            // Occluders reflect last frame's light from just before the hit
+            const before = p.sub(direction.mul(texelSize.mul(BOUNCE_OFFSET)));
+            const reflected = sampleLevel0(fluenceTexture, toUv(before))
+              .rgb.mul(TSL.vec3(...OCCLUDER_ALBEDO))
+              .mul(bounceUniform);
+            const radiance = TSL.select(
+              hit.y.greaterThan(0.5),
+              emitterColour(hit.y).mul(emissionUniform),
+              reflected
+            );
+            result.assign(TSL.vec4(radiance, 0));
+            TSL.Break();
+          });
+          travelled.addAssign(TSL.max(hit.x, texelSize.mul(0.5)));
+          TSL.If(travelled.greaterThan(end), () => {
+            TSL.Break();
+          });
+        });
+        return result;
+      });
+
+      // Mean radiance of `count` consecutive directions of the probe at
+      // `probe` in a cascade with probes of `side` texels
+      const probeAverage = (
+        textureNode: TSL.ShaderNodeObject<TextureNode>,
+        probe: TSLNode,
+        side: TSLNode,
+        first: TSLNode,
+        count: number
+      ) => {
+        let sum: TSLNode = TSL.vec4(0);
+        for (let k = 0; k < count; k++) {
+          const index = first.add(k);
+          const local = TSL.vec2(
+            TSL.mod(index, side),
+            TSL.floor(index.div(side))
+          );
+          const texel = probe.mul(side).add(local);
+          sum = sum.add(sampleLevel0(textureNode, texelUv(texel)));
+        }
+        return sum.div(count);
+      };
+
+      // Bilinear blend of the four probes around `position` (in probe units)
+      const probeBilinear = (
+        textureNode: TSL.ShaderNodeObject<TextureNode>,
+        position: TSLNode,
+        side: TSLNode,
+        first: TSLNode,
+        count: number
+      ) => {
+        const base = TSL.floor(position);
+        const f = TSL.fract(position);
+        const last = sizeUniform.div(side).sub(1);
+        const corner = (x: number, y: number) =>
+          probeAverage(
+            textureNode,
+            TSL.clamp(base.add(TSL.vec2(x, y)), 0, last),
+            side,
+            first,
+            count
+          );
+        return TSL.mix(
+          TSL.mix(corner(0, 0), corner(1, 0), f.x),
+          TSL.mix(corner(0, 1), corner(1, 1), f.x),
+          f.y
+        );
+      };
+
+      const cascadePass = TSL.Fn(() => {
+        const texel = TSL.floor(TSL.screenCoordinate.xy);
+        const probe = TSL.floor(texel.div(sideUniform));
+        const local = texel.sub(probe.mul(sideUniform));
+        const index = local.x.add(local.y.mul(sideUniform));
+        const angle = index
+          .add(0.5)
+          .div(sideUniform.mul(sideUniform))
+          .mul(Math.PI * 2);
+        const direction = TSL.vec2(TSL.cos(angle), TSL.sin(angle));
+        const origin = toScene(
+          probe.add(0.5).mul(sideUniform).div(sizeUniform)
+        );
+
+        const near = traceInterval(
+          origin,
+          direction,
+          intervalStartUniform,
+          intervalEndUniform
+        ).toVar();
+
+        // Light the upper cascade sees beyond this interval, through the
+        // four upper directions that split this one
+        TSL.If(mergeUniform.greaterThan(0.5).and(near.a.greaterThan(0)), () => {
+          const upperSide = sideUniform.mul(2);
+          const upper = probeBilinear(
+            upperTexture,
+            probe.add(0.5).mul(sideUniform).div(upperSide).sub(0.5),
+            upperSide,
+            index.mul(4),
+            4
+          );
+          near.assign(
+            TSL.vec4(near.rgb.add(upper.rgb.mul(near.a)), near.a.mul(upper.a))
+          );
+        });
+        return near;
+      });
+
+      // First cascade probes are 2×2 texels holding 4 directions
+      const fluencePass = TSL.Fn(() => {
+        const texel = TSL.floor(TSL.screenCoordinate.xy);
+        const fluence = probeBilinear(
+          cascadeTexture,
+          texel.add(0.5).div(2).sub(0.5),
+          TSL.float(2),
+          TSL.float(0),
+          4
+        );
+        return TSL.vec4(fluence.rgb, 1);
+      });
+
+      const passMaterial = (colorNode: TSLNode) => {
+        const material = new MeshBasicNodeMaterial();
+        material.vertexNode = TSL.vec4(TSL.positionGeometry.xy, 0, 1);
+        material.colorNode = colorNode;
+        material.depthTest = false;
+        material.depthWrite = false;
+        // Alpha carries the transmittance, opaque materials would force 1
+        material.blending = THREE.NoBlending;
+        return material;
+      };
+      this.cascadeMaterial = passMaterial(cascadePass());
+      this.fluenceMaterial = passMaterial(fluencePass());
+
+      // The plane draws the shapes sharply over the light they receive
+      const display = TSL.Fn(() => {
+        const uv = TSL.vec2(TSL.uv().x, TSL.uv().y.oneMinus());
+        const p = toScene(uv);
+        const hit = sceneMap(p);
+        const light = fluenceTexture.sample(uv).rgb;
+        const colour = light.toVar();
+        TSL.If(hit.x.lessThan(0), () => {
+          colour.assign(
+            TSL.select(
+              hit.y.greaterThan(0.5),
+              emitterColour(hit.y).mul(emissionUniform),
+              TSL.vec3(0.03)
+            )
+          );
+        });
+        const edge = TSL.smoothstep(0, 0.01, TSL.abs(hit.x)).oneMinus();
+        colour.assign(TSL.mix(colour, TSL.vec3(0.5), edge.mul(0.5)));
+        return colour;
+      });
+
+      this.material = new MeshBasicNodeMaterial();
+      this.material.colorNode = display();
+      this.material.side = THREE.DoubleSide;
+
+      console.log("✅ TSL Radiance Cascades Materials created successfully!");
+    } catch (error) {
+      console.error("❌ TSL Radiance Cascades failed, using fallback:", error);
+      this.createFallbackMaterials();
+    }
+  }
+
+  private createFallbackMaterials(): void {
+    console.log("🔄 Using fallback Radiance Cascades ShaderMaterials");
+    this.upperTexture = null;
+    this.cascadeTexture = null;
+    this.fluenceTexture = null;
+
+    const vec3 = (rgb: THREE.Vector3Tuple) =>
+      `vec3(${rgb.map((c) => c.toFixed(2)).join(", ")})`;
+    const emitterColours = EMITTER_COLOURS.slice(1)
+      .map((rgb, i) => `if (material > ${i + 1.5}) colour = ${vec3(rgb)};`)
+      .join("\n          ");
+
+    // Same scene and layout as the TSL version, with the GL bottom left
+    // origin for render targets
+    const common = `
+        uniform float uTime;
+        uniform int uMaxSteps;
+        uniform float uEmission;
+        uniform float uBounce;
+        uniform float uTimeMultiplier;
+        uniform float uSize;
+        uniform sampler2D uFluence;
+
+        ${SDF_GLSL}
+
+        vec2 closest(vec2 a, vec2 b) {
+          return a.x < b.x ? a : b;
+        }
+
+        vec2 sceneMap(vec2 p) {
+          float t = uTime * uTimeMultiplier;
+          vec2 sun = vec2(sdCircle(p - vec2(cos(t), sin(t) * 0.6), 0.12), 1.0);
+          vec2 star = vec2(sdStar(opRotate(p - vec2(-1.0, 0.9), t), 0.2, 5.0, 2.5), 2.0);
+          vec2 heart = vec2(sdHeart(p - vec2(0.95, -1.2), 0.35), 3.0);
+
+          float occluder = sdBox(opRotate(p, t * 0.5), vec2(0.35, 0.06));
+          occluder = min(occluder, sdMoon(opRotate(p - vec2(0.7, 0.6), -t), 0.2));
+          occluder = min(occluder, sdSegment(p, vec2(-1.1, -0.3), vec2(-0.3, -0.9)) - 0.04);
+          occluder = min(occluder, sdTriangle(p - vec2(-0.5, 0.3), 0.15));
+          occluder = min(occluder, sdCircle(p - vec2(0.4, -0.5), 0.12));
+
+          return closest(closest(closest(vec2(occluder, 0.0), sun), star), heart);
+        }
+
+        vec3 emitterColour(float material) {
+          vec3 colour = ${vec3(EMITTER_COLOURS[0])};
+          ${emitterColours}
+          return colour;
+        }
+
+        vec2 toScene(vec2 uv) {
+          return (uv * 2.0 - 1.0) * ${HALF_EXTENT.toFixed(1)};
+        }
+
+        vec2 toUv(vec2 p) {
+          return (p / ${HALF_EXTENT.toFixed(1)} + 1.0) * 0.5;
+        }
+
+        vec2 texelUv(vec2 texel) {
+          return (texel + 0.5) / uSize;
+        }
+
+        vec4 probeAverage(sampler2D map, vec2 probe, float side, float first) {
+          vec4 sum = vec4(0.0);
+          for (int k = 0; k < 4; k++) {
+            float index = first + float(k);
+            vec2 local = vec2(mod(index, side), floor(index / side));
+            sum += texture2D(map, texelUv(probe * side + local));
+          }
+          return sum * 0.25;
+        }
+
+        vec4 probeBilinear(sampler2D map, vec2 position, float side, float first) {
+          vec2 base = floor(position);
+          vec2 f = fract(position);
+          float last = uSize / side - 1.0;
+          return mix(
+            mix(
+              probeAverage(map, clamp(base, 0.0, last), side, first),
+              probeAverage(map, clamp(base + vec2(1.0, 0.0), 0.0, last), side, first),
+              f.x
+            ),
+            mix(
+              probeAverage(map, clamp(base + vec2(0.0, 1.0), 0.0, last), side, first),
+              probeAverage(map, clamp(base + vec2(1.0), 0.0, last), side, first),
+              f.x
+            ),
+            f.y
+          );
+        }
+    `;
+    const vertexShader = `
+        varying vec2 vUv;
+
+        void main() {
+          vUv = uv;
+          gl_Position = vec4(position.xy, 0.0, 1.0);
+        }
+      `;
+
+    const sharedUniforms = () => ({
+      uTime: { value: 0.0 },
+      uFluence: { value: this.fluence.texture },
+      ...this.uniforms.glsl,
+      ...this.pass.glsl,
+    });
+
+    this.cascadeMaterial = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: `
+        uniform float uSide;
+        uniform float uIntervalStart;
+        uniform float uIntervalEnd;
+        uniform float uMerge;
+        uniform sampler2D uUpper;
+        ${common}
+
+        vec4 traceInterval(vec2 origin, vec2 direction, float start, float end) {
+          float texelSize = ${(HALF_EXTENT * 2).toFixed(1)} / uSize;
+          float travelled = start;
+          for (int i = 0; i < ${RADIANCE_CASCADES_UNIFORMS.maxSteps.max}; i++) {
+            if (i >= uMaxSteps) break;
+            vec2 p = origin + direction * travelled;
+            vec2 hit = sceneMap(p);
+            if (hit.x < texelSize * 0.5) {
+              if (hit.y > 0.5) return vec4(emitterColour(hit.y) * uEmission, 0.0);
+              vec2 before = p - direction * texelSize * ${BOUNCE_OFFSET.toFixed(
+                1
+              )};
+              vec3 reflected = texture2D(uFluence, toUv(before)).rgb
+                * ${vec3(OCCLUDER_ALBEDO)} * uBounce;
+              return vec4(reflected, 0.0);
+            }
+            travelled += max(hit.x, texelSize * 0.5);
+            if (travelled > end) break;
+          }
+          return vec4(0.0, 0.0, 0.0, 1.0);
+        }
+
+        void main() {
+          vec2 texel = floor(gl_FragCoord.xy);
+          vec2 probe = floor(texel / uSide);
+          vec2 local = texel - probe * uSide;
+          float index = local.x + local.y * uSide;
+          float angle = (index + 0.5) / (uSide * uSide) * ${(
+            Math.PI * 2
+          ).toFixed(6)};
+          vec2 direction = vec2(cos(angle), sin(angle));
+          vec2 origin = toScene((probe + 0.5) * uSide / uSize);
+
+          vec4 near = traceInterval(origin, direction, uIntervalStart, uIntervalEnd);
+          if (uMerge > 0.5 && near.a > 0.0) {
+            float upperSide = uSide * 2.0;
+            vec4 upper = probeBilinear(
+              uUpper,
+              (probe + 0.5) * uSide / upperSide - 0.5,
+              upperSide,
+              index * 4.0
+            );
+            near = vec4(near.rgb + upper.rgb * near.a, near.a * upper.a);
+          }
+          gl_FragColor = near;
+        }
+      `,
+      uniforms: {
+        ...sharedUniforms(),
+        uUpper: { value: this.cascades[0].texture },
+      },
+      depthTest: false,
+      depthWrite: false,
+      blending: THREE.NoBlending,
+    });
+
+    this.fluenceMaterial = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: `
+        uniform sampler2D uCascade;
+        ${common}
+
+        void main() {
+          vec2 texel = floor(gl_FragCoord.xy);
+          vec4 fluence = probeBilinear(uCascade, (texel + 0.5) / 2.0 - 0.5, 2.0, 0.0);
+          gl_FragColor = vec4(fluence.rgb, 1.0);
+        }
+      `,
+      uniforms: {
+        ...sharedUniforms(),
+        uCascade: { value: this.cascades[0].texture },
+      },
+      depthTest: false,
+      depthWrite: false,
+      blending: THREE.NoBlending,
+    });
+
+    this.material = new THREE.ShaderMaterial({
+      vertexShader: `
+        varying vec2 vUv;
+
+        void main() {
+          vUv = uv;
+          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+      `,
+      fragmentShader: `
+        varying vec2 vUv;
+        ${common}
+
+        void main() {
+          vec2 hit = sceneMap(toScene(vUv));
+          vec3 colour = texture2D(uFluence, vUv).rgb;
+          if (hit.x < 0.0) {
+            colour = hit.y > 0.5 ? emitterColour(hit.y) * uEmission : vec3(0.03);
+          }
+          float edge = 1.0 - smoothstep(0.0, 0.01, abs(hit.x));
+          colour = mix(colour, vec3(0.5), edge * 0.5);
+          gl_FragColor = vec4(colour, 1.0);
+          #include <colorspace_fragment>
+        }
+      `,
+      uniforms: sharedUniforms(),
+      side: THREE.DoubleSide,
+    });
+  }
+
+  private initMesh(position: THREE.Vector3): void {
+    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    this.mesh.position.copy(position);
+
+    this.passQuad = new THREE.Mesh(this.passGeometry, this.cascadeMaterial);
+    this.passQuad.frustumCulled = false;
+    this.passScene.add(this.passQuad);
+  }
+
+  private renderPass(
+    material: MeshBasicNodeMaterial | THREE.ShaderMaterial,
+    target: THREE.WebGLRenderTarget
+  ): void {
+    this.passQuad.material = material;
+    this.renderer.setRenderTarget(target);
+    this.renderer.render(this.passScene, this.passCamera);
+  }
+
+  // Passes reading `texture` as the upper cascade or the merged first one
+  private setInput(name: "upper" | "cascade", texture: THREE.Texture): void {
+    const node = name === "upper" ? this.upperTexture : this.cascadeTexture;
+    if (node) {
+      node.value = texture;
+      return;
+    }
+    const material = (
+      name === "upper" ? this.cascadeMaterial : this.fluenceMaterial
+    ) as THREE.ShaderMaterial;
+    material.uniforms[name === "upper" ? "uUpper" : "uCascade"].value = texture;
+  }
+
+  // Traces the cascades top down and averages the first into fluence
+  private renderCascades(): void {
+    this.resizeTargets();
+    const previousTarget =
+      this.renderer.getRenderTarget() as THREE.WebGLRenderTarget | null;
+    const count = this.cascadeCount;
+    const length = this.rayLength;
+
+    let upper: THREE.WebGLRenderTarget | null = null;
+    for (let i = count - 1; i >= 0; i--) {
+      const target = this.cascades[i % 2];
+      this.pass.set("side", 2 ** (i + 1));
+      // Intervals are 4× longer per cascade and start where the last ended
+      this.pass.set("intervalStart", (length * (4 ** i - 1)) / 3);
+      this.pass.set("intervalEnd", (length * (4 ** (i + 1) - 1)) / 3);
+      this.pass.set("merge", upper ? 1 : 0);
+      if (upper) this.setInput("upper", upper.texture);
+      this.renderPass(this.cascadeMaterial, target);
+      upper = target;
+    }
+
+    this.setInput("cascade", this.cascades[0].texture);
+    this.renderPass(this.fluenceMaterial, this.fluence);
+    this.renderer.setRenderTarget(previousTarget);
+  }
+
+  // Update method
+  update(time: number): void {
+    // TSL reads the time node (engine clock) directly
+    // For fallback ShaderMaterials, update manually
+    for (const material of [
+      this.material,
+      this.cascadeMaterial,
+      this.fluenceMaterial,
+    ]) {
+      if ((material as THREE.ShaderMaterial).uniforms?.uTime) {
+        (material as THREE.ShaderMaterial).uniforms.uTime.value = time;
+      }
+    }
+    this.renderCascades();
+  }
+
+  // Clean up
+  dispose(): void {
+    this.geometry.dispose();
+    this.material.dispose();
+    this.passGeometry.dispose();
+    this.cascadeMaterial.dispose();
+    this.fluenceMaterial.dispose();
+    for (const target of [...this.cascades, this.fluence]) {
+      target.dispose();
+    }
+  }
+}
+
+defineUniformAccessors(TSLPlaneRadianceCascades, RADIANCE_CASCADES_UNIFORMS);
@@ -4,6 +4,25 @@ import * as THREE from "three";
 import * as TSL from "three/tsl";
 // Import WebGPU materials
 import { MeshPhysicalNodeMaterial } from "three/webgpu";
+import {
+  UniformSet,
+  UniformValues,
+  defineUniformAccessors,
+  defineUniforms,
+} from "./uniform-schema";
+import type { TimeNode } from "./engine-clock";
+import { SDF_GLSL } from "./sdf/glsl";
+// SDF primitives and operators, mirrored on the CPU in ./sdf/cpu.ts
+import {
+  Box,
+  Circle,
+  Intersection,
+  Moon,
+  Rotate,
+  Segment,
+  Subtraction,
+  Union,
+} from "./sdf/tsl";
 
 export interface TSLPlaneRaymarchingParams {
   width?: number;
@@ -11,27 +30,181 @@ export interface TSLPlaneRaymarchingParams {
   widthSegments?: number;
   heightSegments?: number;
   position?: THREE.Vector3;
+  time?: TimeNode; // defaults to TSL.time, demos pass the engine clock's
 }
 
+export const RAYMARCHING_UNIFORMS = defineUniforms({
+  radius: {
+    type: "float",
+    default: 0.15,
+    min: 0.01,
+    max: 0.5,
+    step: 0.01,
+    description: "Base radius shared by every shape",
+  },
+  fade: {
+    type: "float",
+    default: 1.0,
+    min: 0,
+    max: 10,
+    step: 0.1,
+    description: "How quickly the distance bands fade outside shapes",
+  },
+  rayFrom: {
+    type: "vec2",
+    default: new THREE.Vector2(0.5, 0.5),
+    min: 0,
+    max: 1,
+    description: "Ray origin in plane UV space",
+  },
+  rayTo: {
+    type: "vec2",
+    default: new THREE.Vector2(1, 1),
+    min: 0,
+    max: 1,
+    description: "Ray target in plane UV space",
+  },
+  maxSteps: {
+    type: "int",
+    default: 20,
+    min: 1,
+    max: 100,
+    step: 1,
+    description: "Sphere tracing iteration limit",
+  },
+  surfaceDistance: {
+    type: "float",
+    default: 0.0001,
+    min: 0.00001,
+    max: 0.01,
+    step: 0.00001,
+    description: "Distance below which the ray counts as a hit",
+  },
+  maxDistance: {
+    type: "float",
+    default: 5.0,
+    min: 0.1,
+    max: 10,
+    step: 0.1,
+    description: "Distance after which the ray counts as a miss",
+  },
+  timeMultiplier: {
+    type: "float",
+    default: 1.0,
+    min: 0,
+    max: 5,
+    step: 0.05,
+    description: "Animation speed of the shapes",
+  },
+  lighting: {
+    type: "bool",
+    default: false,
+    description:
+      "2D lighting mode, clicks place point lights that cast soft shadows",
+  },
+  lightCount: {
+    type: "int",
+    default: 3,
+    min: 1,
+    max: 3,
+    step: 1,
+    description: "Number of active point lights",
+  },
+  penumbra: {
+    type: "float",
+    default: 0.1,
+    min: 0.005,
+    max: 1,
+    step: 0.005,
+    description: "Penumbra size, bigger lights cast softer shadows",
+  },
+  falloff: {
+    type: "float",
+    default: 2,
+    min: 0,
+    max: 20,
+    step: 0.1,
+    description: "How quickly light fades with distance",
+  },
+  light1Position: {
+    type: "vec2",
+    default: new THREE.Vector2(0.25, 0.75),
+    min: 0,
+    max: 1,
+    description: "Point light 1 in plane UV space",
+    hidden: true,
+  },
+  light1Colour: {
+    type: "color",
+    default: new THREE.Color(1.0, 0.6, 0.25),
+    description: "Colour of point light 1",
+  },
+  light2Position: {
+    type: "vec2",
+    default: new THREE.Vector2(0.75, 0.2),
+    min: 0,
+    max: 1,
+    description: "Point light 2 in plane UV space",
+    hidden: true,
+  },
+  light2Colour: {
+    type: "color",
+    default: new THREE.Color(0.25, 0.6, 1.0),
+    description: "Colour of point light 2",
+  },
+  light3Position: {
+    type: "vec2",
+    default: new THREE.Vector2(0.5, 0.5),
+    min: 0,
+    max: 1,
+    description: "Point light 3 in plane UV space",
+    hidden: true,
+  },
+  light3Colour: {
+    type: "color",
+    default: new THREE.Color(0.9, 0.3, 0.8),
+    description: "Colour of point light 3",
+  },
+});
+
+// Point light uniforms, clicks in lighting mode move them round robin
+const LIGHT_SLOTS = [
+  { position: "light1Position", colour: "light1Colour" },
+  { position: "light2Position", colour: "light2Colour" },
+  { position: "light3Position", colour: "light3Colour" },
+] as const;
+
+// Drawing of the march, in scene units
+const LINE_WIDTH = 0.01;
+const NORMAL_EPSILON = 0.001;
+const NORMAL_LENGTH = 0.2;
+// Lighting mode
+const AMBIENT = 0.02;
+const LIGHT_RADIUS = 0.03;
+// Pointer travel in pixels still counted as a click rather than an orbit
+const CLICK_TOLERANCE = 4;
+
+// Uniform accessors (radius, rayFrom, ...) are generated from the schema
+export interface TSLPlaneRaymarching
+  extends UniformValues<typeof RAYMARCHING_UNIFORMS> {}
+
 export class TSLPlaneRaymarching {
   private geometry: THREE.PlaneGeometry;
   private material: MeshPhysicalNodeMaterial | THREE.ShaderMaterial;
   public mesh: THREE.Mesh;
+  private time: TimeNode;
 
   // Raymarching uniforms
-  private radiusUniform: any;
-  private fadeUniform: any;
-  private rayFromUniform: any;
-  private rayToUniform: any;
-  private maxStepsUniform: any;
-  private surfaceDistanceUniform: any;
-  private maxDistanceUniform: any;
-  private timeMultiplierUniform: any;
+  public readonly uniforms = new UniformSet(RAYMARCHING_UNIFORMS);
 
   // Mouse interaction
   private raycaster: THREE.Raycaster;
   private pointer: THREE.Vector2;
   private camera: THREE.Camera | null = null;
+  private domElement: HTMLElement | null = null;
+  // Client position of the pressed pointer, to tell clicks from drags
+  private pressed: THREE.Vector2 | null = null;
+  private nextLight = 0;
 
   constructor(params: TSLPlaneRaymarchingParams = {}) {
     const {
@@ -40,8 +213,10 @@ export class TSLPlaneRaymarching {
       widthSegments = 64,
       heightSegments = 64,
       position = new THREE.Vector3(0, 0, 0),
+      time = TSL.time,
     } = params;
 
+    this.time = time;
     this.initGeometry(width, height, widthSegments, heightSegments);
     this.initMaterial();
     this.initMesh(position);
@@ -66,191 +241,262 @@ export class TSLPlaneRaymarching {
     console.log("🚀 Creating TSL Raymarching Material");
 
     try {
-      // Create raymarching uniforms using TSL
-      this.radiusUniform = TSL.uniform(0.15);
-      this.fadeUniform = TSL.uniform(1);
-      this.rayFromUniform = TSL.uniform(new THREE.Vector2(0.5, 0.5));
-      this.rayToUniform = TSL.uniform(new THREE.Vector2(1, 1));
-      this.maxStepsUniform = TSL.uniform(20);
-      this.surfaceDistanceUniform = TSL.uniform(0.0001);
-      this.maxDistanceUniform = TSL.uniform(5.0);
-      this.timeMultiplierUniform = TSL.uniform(1);
+      const radiusUniform = this.uniforms.node("radius");
+      const fadeUniform = this.uniforms.node("fade");
+      const rayFromUniform = this.uniforms.node("rayFrom");
+      const rayToUniform = this.uniforms.node("rayTo");
+      const timeMultiplierUniform = this.uniforms.node("timeMultiplier");
+      const maxStepsUniform = this.uniforms.node("maxSteps");
+      const surfaceDistanceUniform = this.uniforms.node("surfaceDistance");
+      const maxDistanceUniform = this.uniforms.node("maxDistance");
+      const lightingUniform = this.uniforms.node("lighting");
+      const lightCountUniform = this.uniforms.node("lightCount");
+      const penumbraUniform = this.uniforms.node("penumbra");
+      const falloffUniform = this.uniforms.node("falloff");
+      const lights = LIGHT_SLOTS.map(({ position, colour }) => ({
+        position: this.uniforms.node(position).mul(3).sub(1.5),
+        colour: this.uniforms.node(colour),
+      }));
 
       // Create TSL material
       this.material = new MeshPhysicalNodeMaterial();
 
-      // Define SDF functions using TSL.Fn
-      const Circle = TSL.Fn(([position, radius]) => {
-        return TSL.length(position).sub(radius);
+      // Rotating box slightly inside the circle of the same radius
+      const InsetBox = TSL.Fn(([position, angle]) => {
+        const inset = radiusUniform.sub(0.025);
+        return Box(Rotate(position, angle), TSL.vec2(inset, inset));
       });
 
-      const Ellipse = TSL.Fn(([position, scale, angle]) => {
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const scaledPosition = angledPosition.div(scale);
-        return TSL.length(scaledPosition).sub(1).mul(TSL.min(scale.x, scale.y));
-      });
+      // Main SDF scene function
+      const sdfScene = TSL.Fn(([p]) => {
+        const t = this.time.mul(timeMultiplierUniform);
+
+        const circle = Circle(p.sub(TSL.vec2(-0.66, 0.33)), radiusUniform);
 
-      const Box = TSL.Fn(([position, dimensions, angle]) => {
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const distance = TSL.abs(angledPosition).sub(dimensions);
-        return TSL.length(TSL.max(distance, 0.0)).add(
-          TSL.min(TSL.max(distance.x, distance.y), 0.0)
+        const intersectedCircleBox = Intersection(
+          Circle(p.sub(TSL.vec2(0, 0.66)), radiusUniform),
+          InsetBox(p.sub(TSL.vec2(0, 0.66)), t)
         );
-      });
 
-      const Moon = TSL.Fn(([position, radius, angle]) => {
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const innerCircle = TSL.length(
-          angledPosition.div(0.8).sub(TSL.vec2(0.15, 0.0))
-        ).sub(radius);
-        const outerCircle = TSL.length(position).sub(radius);
-        return TSL.max(TSL.negate(innerCircle), outerCircle);
-      });
+        // Box with the circle cut out of it
+        const subtractedCircleBox = Subtraction(
+          Circle(p.sub(TSL.vec2(0.66, 0.33)), radiusUniform),
+          InsetBox(p.sub(TSL.vec2(0.66, 0.33)), t)
+        );
 
-      const IntersectedCircleBox = TSL.Fn(([position, radius, angle]) => {
-        const circle = TSL.length(position).sub(radius);
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const box = Box(
-          angledPosition,
-          TSL.vec2(radius.sub(0.025), radius.sub(0.025)),
-          0
+        const moon = Moon(
+          Rotate(p.sub(TSL.vec2(0.66, -0.33)), t),
+          radiusUniform
         );
-        return TSL.max(circle, box);
-      });
 
-      const SubtractedCircleBox = TSL.Fn(([position, radius, angle]) => {
-        const circle = TSL.length(position).sub(radius);
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
         const box = Box(
-          angledPosition,
-          TSL.vec2(radius.sub(0.025), radius.sub(0.025)),
-          0
+          Rotate(p.sub(TSL.vec2(-0.66, -0.33)), TSL.negate(t)),
+          TSL.vec2(radiusUniform, 0.25)
         );
-        return TSL.max(TSL.negate(circle), box);
-      });
 
-      const UnionedCircleBox = TSL.Fn(([position, radius, angle]) => {
-        const circle = TSL.length(position).sub(radius);
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const box = Box(
-          angledPosition,
-          TSL.vec2(radius.sub(0.025), radius.sub(0.025)),
-          0
+        const unionedCircleBox = Union(
+          Circle(p.sub(TSL.vec2(0, -0.66)), radiusUniform),
+          InsetBox(p.sub(TSL.vec2(0, -0.66)), t)
         );
-        return TSL.min(circle, box);
+
+        let distance = Union(circle, intersectedCircleBox);
+        distance = Union(distance, subtractedCircleBox);
+        distance = Union(distance, moon);
+        distance = Union(distance, box);
+        distance = Union(distance, unionedCircleBox);
+
+        return distance;
       });
 
-      const Line = TSL.Fn(([position, start, end]) => {
-        const lineDirection = end.sub(start);
-        const positionDirection = position.sub(start);
-        const projection = TSL.dot(positionDirection, lineDirection).div(
-          TSL.dot(lineDirection, lineDirection)
+      // Surface normal from the central difference gradient of the field
+      const getNormal = TSL.Fn(([p]) => {
+        const ex = TSL.vec2(NORMAL_EPSILON, 0);
+        const ey = TSL.vec2(0, NORMAL_EPSILON);
+        return TSL.normalize(
+          TSL.vec2(
+            sdfScene(p.add(ex)).sub(sdfScene(p.sub(ex))),
+            sdfScene(p.add(ey)).sub(sdfScene(p.sub(ey)))
+          )
         );
-        const clampedProjection = TSL.clamp(projection, 0.0, 1.0);
-        const closestPoint = start.add(clampedProjection.mul(lineDirection));
-        return TSL.length(position.sub(closestPoint));
       });
 
-      const DirectionLine = TSL.Fn(([position, direction, len, thickness]) => {
-        const projection = TSL.dot(position, direction);
-        const closestPoint = TSL.clamp(projection, 0, len).mul(direction);
-        const distanceToClosestPoint = TSL.length(position.sub(closestPoint));
-        return distanceToClosestPoint;
+      const stepColour = TSL.vec3(0.2, 1.0, 0.2);
+      const hitColour = TSL.vec3(1.0, 0.85, 0.1);
+      const normalColour = TSL.vec3(0.2, 0.8, 1.0);
+
+      // Antialiased mask of a distance below `width`
+      const stroke = (distance: any, width: number) =>
+        TSL.smoothstep(0.0, LINE_WIDTH, distance.sub(width)).oneMinus();
+
+      // Sphere traced visibility of the light, the closest miss relative to
+      // the distance travelled gives the penumbra (Quilez soft shadows)
+      const softShadow = TSL.Fn(([p, lightPosition]) => {
+        const toLight = lightPosition.sub(p);
+        const lightDistance = TSL.length(toLight);
+        const direction = toLight.div(lightDistance);
+        const visibility = TSL.float(1).toVar();
+        const travelled = TSL.float(0).toVar();
+        TSL.Loop(maxStepsUniform, () => {
+          const distance = sdfScene(p.add(direction.mul(travelled)));
+          TSL.If(distance.lessThan(surfaceDistanceUniform), () => {
+            visibility.assign(0);
+            TSL.Break();
+          });
+          visibility.assign(
+            TSL.min(
+              visibility,
+              distance.div(
+                penumbraUniform.mul(TSL.max(travelled, NORMAL_EPSILON))
+              )
+            )
+          );
+          travelled.addAssign(distance);
+          TSL.If(travelled.greaterThan(lightDistance), () => {
+            TSL.Break();
+          });
+        });
+        return TSL.smoothstep(0, 1, visibility);
       });
 
-      // Main SDF scene function
-      const sdfScene = TSL.Fn(([p]) => {
-        const t = TSL.time.mul(this.timeMultiplierUniform);
+      // Point lights over the scene, shapes are solid occluders
+      const lightView = TSL.Fn(([p, sceneDistance]) => {
+        const colour = TSL.vec3(AMBIENT).toVar();
+        lights.forEach((light, i) => {
+          TSL.If(lightCountUniform.greaterThan(i), () => {
+            const distance = TSL.length(p.sub(light.position));
+            const attenuation = TSL.float(1).div(
+              falloffUniform.mul(distance).mul(distance).add(1)
+            );
+            colour.addAssign(
+              light.colour.mul(softShadow(p, light.position)).mul(attenuation)
+            );
+          });
+        });
+
+        colour.assign(
+          TSL.select(sceneDistance.lessThan(0), TSL.vec3(0.08), colour)
+        );
+        colour.assign(
+          TSL.mix(colour, TSL.vec3(0.4), stroke(TSL.abs(sceneDistance), 0))
+        );
 
-        const circle = Circle(p.sub(TSL.vec2(-0.66, 0.33)), this.radiusUniform);
+        lights.forEach((light, i) => {
+          const marker = stroke(
+            TSL.length(p.sub(light.position)),
+            LIGHT_RADIUS
+          );
+          colour.assign(
+            TSL.mix(
+              colour,
+              light.colour,
+              marker.mul(TSL.select(lightCountUniform.greaterThan(i), 1, 0.2))
+            )
+          );
+        });
+        return colour;
+      });
 
-        const intersectedCircleBox = IntersectedCircleBox(
-          p.sub(TSL.vec2(0, 0.66)),
-          this.radiusUniform,
-          t
+      // The single ray from rayFrom towards rayTo
+      const rayView = TSL.Fn(([p, sceneDistance]) => {
+        // Basic SDF visualization
+        const sdfColour = TSL.select(
+          sceneDistance.lessThan(0),
+          TSL.sin(sceneDistance.mul(250)).mul(0.75).oneMinus(),
+          TSL.sin(sceneDistance.mul(150))
+            .mul(0.025)
+            .mul(TSL.min(sceneDistance.mul(fadeUniform), 1).oneMinus())
         );
 
-        const subtractedCircleBox = SubtractedCircleBox(
-          p.sub(TSL.vec2(0.66, 0.33)),
-          this.radiusUniform,
-          t
-        );
+        const colour = TSL.min(TSL.vec3(1), sdfColour).toVar();
 
-        const moon = Moon(p.sub(TSL.vec2(0.66, -0.33)), this.radiusUniform, t);
+        const rayOrigin = rayFromUniform.mul(3).sub(1.5);
+        const lookAt = rayToUniform.mul(3).sub(1.5);
+        const rayDirection = TSL.normalize(lookAt.sub(rayOrigin));
 
-        const box = Box(
-          p.sub(TSL.vec2(-0.66, -0.33)),
-          TSL.vec2(this.radiusUniform, 0.25),
-          TSL.negate(t)
+        // Full ray towards the target, faint
+        const rayLine = stroke(Segment(p, rayOrigin, lookAt), 0);
+        colour.assign(
+          TSL.mix(colour, TSL.vec3(1.0, 0.05, 0.3), rayLine.mul(0.3))
         );
 
-        const unionedCircleBox = UnionedCircleBox(
-          p.sub(TSL.vec2(0, -0.66)),
-          this.radiusUniform,
-          t
+        // Sphere tracing: every step is safe to advance by the scene
+        // distance, the circle of that radius touches the nearest surface
+        const travelled = TSL.float(0).toVar();
+        const hit = TSL.bool(false).toVar();
+        TSL.Loop(maxStepsUniform, () => {
+          const position = rayOrigin.add(rayDirection.mul(travelled));
+          const distance = sdfScene(position);
+
+          const toStep = TSL.length(p.sub(position));
+          const safeCircle = stroke(TSL.abs(toStep.sub(TSL.abs(distance))), 0);
+          colour.assign(TSL.mix(colour, stepColour, safeCircle.mul(0.6)));
+          colour.assign(TSL.mix(colour, stepColour, stroke(toStep, 0.012)));
+
+          TSL.If(distance.lessThan(surfaceDistanceUniform), () => {
+            hit.assign(TSL.bool(true));
+            TSL.Break();
+          });
+          travelled.addAssign(distance);
+          TSL.If(travelled.greaterThan(maxDistanceUniform), () => {
+            TSL.Break();
+          });
+        });
+
+        // Marched part of the ray
+        const rayEnd = rayOrigin.add(
+          rayDirection.mul(TSL.min(travelled, maxDistanceUniform))
+        );
+        colour.assign(
+          TSL.mix(
+            colour,
+            TSL.vec3(1.0, 0.05, 0.3),
+            stroke(Segment(p, rayOrigin, rayEnd), 0)
+          )
         );
 
-        let distance = TSL.min(circle, intersectedCircleBox);
-        distance = TSL.min(distance, subtractedCircleBox);
-        distance = TSL.min(distance, moon);
-        distance = TSL.min(distance, box);
-        distance = TSL.min(distance, unionedCircleBox);
-
-        return distance;
-      });
+        // Hit point and surface normal
+        TSL.If(hit, () => {
+          const normal = getNormal(rayEnd);
+          const normalLine = stroke(
+            Segment(p, rayEnd, rayEnd.add(normal.mul(NORMAL_LENGTH))),
+            0.004
+          );
+          colour.assign(TSL.mix(colour, normalColour, normalLine));
+          colour.assign(
+            TSL.mix(colour, hitColour, stroke(TSL.length(p.sub(rayEnd)), 0.025))
+          );
+        });
+
+        // Ray origin and look at target markers
+        colour.assign(
+          TSL.mix(
+            colour,
+            TSL.vec3(1, 0, 0),
+            stroke(TSL.length(p.sub(rayOrigin)), 0.025)
+          )
+        );
+        colour.assign(
+          TSL.mix(
+            colour,
+            TSL.vec3(1, 0, 0),
+            stroke(TSL.length(p.sub(lookAt)), 0.025)
+          )
+        );
 
-      // Get normal function (simplified)
-      const getNormal = TSL.Fn(([p]) => {
-        // Simplified normal calculation to avoid infinite recursion
-        const eps = 0.01;
-        return TSL.normalize(TSL.vec2(eps, eps)); // Placeholder
+        return colour;
       });
 
-      // Simplified main function without complex raymarching
       const mainRaymarching = TSL.Fn(() => {
         const p = TSL.positionLocal.xy.mul(1.5);
-
         const sceneDistance = sdfScene(p);
 
-        // Basic SDF visualization
-        const sdfColour = TSL.select(
-          sceneDistance.lessThan(0),
-          TSL.sin(sceneDistance.mul(250)).mul(0.75).oneMinus(),
-          TSL.sin(sceneDistance.mul(150))
-            .mul(0.025)
-            .mul(TSL.min(sceneDistance.mul(this.fadeUniform), 1).oneMinus())
-        );
-
-        let finalColour = TSL.min(TSL.vec3(1), sdfColour);
-
-        const rayOrigin = this.rayFromUniform.mul(3).sub(1.5);
-        const lookAt = this.rayToUniform.mul(3).sub(1.5);
-
-        // Ray origin marker
-        const rayOriginCircle = TSL.length(p.sub(rayOrigin))
-          .sub(0.025)
-          .smoothstep(0.0, 0.01)
-          .oneMinus();
-        finalColour = TSL.mix(finalColour, TSL.vec3(1, 0, 0), rayOriginCircle);
-
-        // Look at target marker
-        const lookAtCircle = TSL.length(p.sub(lookAt))
-          .sub(0.025)
-          .smoothstep(0.0, 0.01)
-          .oneMinus();
-        finalColour = TSL.mix(finalColour, TSL.vec3(1, 0, 0), lookAtCircle);
-
-        // Simple ray line visualization
-        const rayLine = Line(p, rayOrigin, lookAt)
-          .smoothstep(0.0, 0.01)
-          .oneMinus();
-        finalColour = TSL.mix(
-          finalColour,
-          TSL.vec3(1.0, 0.05, 0.3),
-          rayLine.mul(0.3)
-        );
-
-        return finalColour;
+        const colour = TSL.vec3(0).toVar();
+        TSL.If(lightingUniform, () => {
+          colour.assign(lightView(p, sceneDistance));
+        }).Else(() => {
+          colour.assign(rayView(p, sceneDistance));
+        });
+        return colour;
       });
 
       // Apply the raymarching fragment shader
@@ -290,87 +536,161 @@ export class TSLPlaneRaymarching {
         uniform float uSurfaceDistance;
         uniform float uMaxDistance;
         uniform float uTimeMultiplier;
+        uniform bool uLighting;
+        uniform int uLightCount;
+        uniform float uPenumbra;
+        uniform float uFalloff;
+        uniform vec2 uLight1Position;
+        uniform vec3 uLight1Colour;
+        uniform vec2 uLight2Position;
+        uniform vec3 uLight2Colour;
+        uniform vec2 uLight3Position;
+        uniform vec3 uLight3Colour;
         varying vec2 vUv;
         varying vec3 vPosition;
-        
-        // Simple SDF functions
-        float circle(vec2 p, float r) {
-          return length(p) - r;
-        }
-        
-        float box(vec2 p, vec2 b) {
-          vec2 d = abs(p) - b;
-          return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
+
+        ${SDF_GLSL}
+
+        float insetBox(vec2 p, float angle) {
+          float inset = uRadius - 0.025;
+          return sdBox(opRotate(p, angle), vec2(inset));
         }
-        
-        // Simple scene
+
+        // Same scene as the TSL version
         float sdfScene(vec2 p) {
           float t = uTime * uTimeMultiplier;
-          float c1 = circle(p - vec2(-0.66, 0.33), uRadius);
-          float c2 = circle(p - vec2(0.66, 0.33), uRadius);
-          float b1 = box(p - vec2(0.0, -0.33), vec2(uRadius));
-          return min(min(c1, c2), b1);
+          vec2 top = p - vec2(0.0, 0.66);
+          vec2 right = p - vec2(0.66, 0.33);
+          vec2 bottom = p - vec2(0.0, -0.66);
+          float d = sdCircle(p - vec2(-0.66, 0.33), uRadius);
+          d = min(d, max(sdCircle(top, uRadius), insetBox(top, t)));
+          d = min(d, max(-sdCircle(right, uRadius), insetBox(right, t)));
+          d = min(d, sdMoon(opRotate(p - vec2(0.66, -0.33), t), uRadius));
+          d = min(d, sdBox(opRotate(p - vec2(-0.66, -0.33), -t), vec2(uRadius, 0.25)));
+          d = min(d, min(sdCircle(bottom, uRadius), insetBox(bottom, t)));
+          return d;
         }
-        
-        vec3 raymarch(vec2 rayOrigin, vec2 rayDir, vec2 fragCoord) {
-          float totalDist = 0.0;
-          vec3 color = vec3(0.0);
-          
-          for(int i = 0; i < 10; i++) {
-            vec2 pos = rayOrigin + rayDir * totalDist;
-            float dist = sdfScene(pos);
-            
-            if(dist < uSurfaceDistance || totalDist > uMaxDistance) break;
-            
-            totalDist += dist;
-            
-            // Visualize march steps
-            float checkpoint = 1.0 - smoothstep(0.0, 0.02, length(fragCoord - pos));
-            color += vec3(0.2, 1.0, 0.2) * checkpoint * 0.3;
+
+        vec2 getNormal(vec2 p) {
+          vec2 ex = vec2(${NORMAL_EPSILON}, 0.0);
+          vec2 ey = vec2(0.0, ${NORMAL_EPSILON});
+          return normalize(vec2(
+            sdfScene(p + ex) - sdfScene(p - ex),
+            sdfScene(p + ey) - sdfScene(p - ey)
+          ));
+        }
+
+        float stroke(float d, float width) {
+          return 1.0 - smoothstep(0.0, ${LINE_WIDTH}, d - width);
+        }
+
+        float softShadow(vec2 p, vec2 lightPosition) {
+          vec2 toLight = lightPosition - p;
+          float lightDistance = length(toLight);
+          vec2 direction = toLight / lightDistance;
+          float visibility = 1.0;
+          float travelled = 0.0;
+          for (int i = 0; i < ${RAYMARCHING_UNIFORMS.maxSteps.max}; i++) {
+            if (i >= uMaxSteps) break;
+            float d = sdfScene(p + direction * travelled);
+            if (d < uSurfaceDistance) {
+              visibility = 0.0;
+              break;
+            }
+            visibility = min(visibility, d / (uPenumbra * max(travelled, ${NORMAL_EPSILON})));
+            travelled += d;
+            if (travelled > lightDistance) break;
+          }
+          return smoothstep(0.0, 1.0, visibility);
+        }
+
+        vec3 lightView(vec2 p, float dist) {
+          vec2 positions[${LIGHT_SLOTS.length}] = vec2[](uLight1Position, uLight2Position, uLight3Position);
+          vec3 colours[${LIGHT_SLOTS.length}] = vec3[](uLight1Colour, uLight2Colour, uLight3Colour);
+
+          vec3 color = vec3(${AMBIENT});
+          for (int i = 0; i < ${LIGHT_SLOTS.length}; i++) {
+            if (i >= uLightCount) break;
+            vec2 lightPosition = positions[i] * 3.0 - 1.5;
+            float d = length(p - lightPosition);
+            float attenuation = 1.0 / (uFalloff * d * d + 1.0);
+            color += colours[i] * softShadow(p, lightPosition) * attenuation;
+          }
+
+          color = dist < 0.0 ? vec3(0.08) : color;
+          color = mix(color, vec3(0.4), stroke(abs(dist), 0.0));
+
+          for (int i = 0; i < ${LIGHT_SLOTS.length}; i++) {
+            float marker = stroke(length(p - (positions[i] * 3.0 - 1.5)), ${LIGHT_RADIUS});
+            color = mix(color, colours[i], marker * (i < uLightCount ? 1.0 : 0.2));
           }
-          
           return color;
         }
-        
+
         void main() {
           vec2 p = vPosition.xy * 1.5;
-          
+
           // Basic SDF visualization
           float dist = sdfScene(p);
-          vec3 sdfColor = dist < 0.0 
+          vec3 sdfColor = dist < 0.0
             ? vec3(1.0 - sin(dist * 250.0) * 0.75)
             : vec3(sin(dist * 150.0) * 0.025 * (1.0 - min(dist * uFade, 1.0)));
-          
+
           vec3 color = min(vec3(1.0), sdfColor);
-          
-          // Ray visualization
+
+          if (uLighting) {
+            gl_FragColor = vec4(lightView(p, dist), 1.0);
+            return;
+          }
+
           vec2 rayOrigin = uRayFrom * 3.0 - 1.5;
           vec2 lookAt = uRayTo * 3.0 - 1.5;
           vec2 rayDir = normalize(lookAt - rayOrigin);
-          
-          // Add raymarching visualization
-          color += raymarch(rayOrigin, rayDir, p);
-          
+          vec3 rayColor = vec3(1.0, 0.05, 0.3);
+          vec3 stepColor = vec3(0.2, 1.0, 0.2);
+
+          color = mix(color, rayColor, stroke(sdSegment(p, rayOrigin, lookAt), 0.0) * 0.3);
+
+          // Sphere tracing, the loop bound must be constant in GLSL ES
+          float travelled = 0.0;
+          bool hit = false;
+          for (int i = 0; i < ${RAYMARCHING_UNIFORMS.maxSteps.max}; i++) {
+            if (i >= uMaxSteps) break;
+            vec2 pos = rayOrigin + rayDir * travelled;
+            float stepDist = sdfScene(pos);
+
+            float toStep = length(p - pos);
+            color = mix(color, stepColor, stroke(abs(toStep - abs(stepDist)), 0.0) * 0.6);
+            color = mix(color, stepColor, stroke(toStep, 0.012));
+
+            if (stepDist < uSurfaceDistance) {
+              hit = true;
+              break;
+            }
+            travelled += stepDist;
+            if (travelled > uMaxDistance) break;
+          }
+
+          vec2 rayEnd = rayOrigin + rayDir * min(travelled, uMaxDistance);
+          color = mix(color, rayColor, stroke(sdSegment(p, rayOrigin, rayEnd), 0.0));
+
+          if (hit) {
+            vec2 normal = getNormal(rayEnd);
+            float normalLine = stroke(sdSegment(p, rayEnd, rayEnd + normal * ${NORMAL_LENGTH}), 0.004);
+            color = mix(color, vec3(0.2, 0.8, 1.0), normalLine);
+            color = mix(color, vec3(1.0, 0.85, 0.1), stroke(length(p - rayEnd), 0.025));
+          }
+
           // Ray origin and target markers
-          float rayOriginMarker = 1.0 - smoothstep(0.0, 0.02, length(p - rayOrigin) - 0.025);
-          color = mix(color, vec3(1.0, 0.0, 0.0), rayOriginMarker);
-          
-          float targetMarker = 1.0 - smoothstep(0.0, 0.02, length(p - lookAt) - 0.025);
-          color = mix(color, vec3(1.0, 0.0, 0.0), targetMarker);
-          
+          color = mix(color, vec3(1.0, 0.0, 0.0), stroke(length(p - rayOrigin), 0.025));
+          color = mix(color, vec3(1.0, 0.0, 0.0), stroke(length(p - lookAt), 0.025));
+
           gl_FragColor = vec4(color, 1.0);
         }
       `,
       uniforms: {
         uTime: { value: 0.0 },
-        uRadius: { value: 0.15 },
-        uFade: { value: 1.0 },
-        uRayFrom: { value: new THREE.Vector2(0.5, 0.5) },
-        uRayTo: { value: new THREE.Vector2(1, 1) },
-        uMaxSteps: { value: 20 },
-        uSurfaceDistance: { value: 0.0001 },
-        uMaxDistance: { value: 5.0 },
-        uTimeMultiplier: { value: 1.0 },
+        ...this.uniforms.glsl,
       },
       side: THREE.DoubleSide,
       transparent: true,
@@ -393,183 +713,63 @@ export class TSLPlaneRaymarching {
     domElement: HTMLElement
   ): void {
     this.camera = camera;
-
-    const onPointerMove = (event: PointerEvent) => {
-      this.pointer.set(
-        (event.clientX / window.innerWidth) * 2 - 1,
-        -(event.clientY / window.innerHeight) * 2 + 1
-      );
-
-      this.raycaster.setFromCamera(this.pointer, camera);
-      const intersects = this.raycaster.intersectObject(this.mesh);
-
-      if (intersects.length > 0) {
-        this.rayTo = intersects[0].uv || new THREE.Vector2(1, 1);
-      }
-    };
-
-    const onPointerDown = (event: PointerEvent) => {
-      this.rayFrom = new THREE.Vector2().copy(this.rayTo);
-    };
-
-    domElement.addEventListener("pointermove", onPointerMove);
-    domElement.addEventListener("pointerdown", onPointerDown);
-  }
-
-  // Getters and setters for raymarching controls
-  get radius(): number {
-    if (this.radiusUniform) {
-      return this.radiusUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uRadius?.value ?? 0.15
-    );
-  }
-
-  set radius(value: number) {
-    if (this.radiusUniform) {
-      this.radiusUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uRadius) {
-      (this.material as THREE.ShaderMaterial).uniforms.uRadius.value = value;
-    }
-  }
-
-  get fade(): number {
-    if (this.fadeUniform) {
-      return this.fadeUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uFade?.value ?? 1.0
-    );
-  }
-
-  set fade(value: number) {
-    if (this.fadeUniform) {
-      this.fadeUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uFade) {
-      (this.material as THREE.ShaderMaterial).uniforms.uFade.value = value;
-    }
-  }
-
-  get maxSteps(): number {
-    if (this.maxStepsUniform) {
-      return this.maxStepsUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uMaxSteps?.value ?? 20
-    );
+    this.domElement = domElement;
+    domElement.addEventListener("pointermove", this.onPointerMove);
+    domElement.addEventListener("pointerdown", this.onPointerDown);
+    domElement.addEventListener("pointerup", this.onPointerUp);
   }
 
-  set maxSteps(value: number) {
-    if (this.maxStepsUniform) {
-      this.maxStepsUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uMaxSteps) {
-      (this.material as THREE.ShaderMaterial).uniforms.uMaxSteps.value = value;
-    }
-  }
-
-  get surfaceDistance(): number {
-    if (this.surfaceDistanceUniform) {
-      return this.surfaceDistanceUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uSurfaceDistance
-        ?.value ?? 0.0001
-    );
-  }
-
-  set surfaceDistance(value: number) {
-    if (this.surfaceDistanceUniform) {
-      this.surfaceDistanceUniform.value = value;
-    } else if (
-      (this.material as THREE.ShaderMaterial).uniforms?.uSurfaceDistance
-    ) {
-      (this.material as THREE.ShaderMaterial).uniforms.uSurfaceDistance.value =
-        value;
-    }
-  }
-
-  get maxDistance(): number {
-    if (this.maxDistanceUniform) {
-      return this.maxDistanceUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uMaxDistance?.value ??
-      5.0
-    );
-  }
-
-  set maxDistance(value: number) {
-    if (this.maxDistanceUniform) {
-      this.maxDistanceUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uMaxDistance) {
-      (this.material as THREE.ShaderMaterial).uniforms.uMaxDistance.value =
-        value;
-    }
-  }
-
-  get timeMultiplier(): number {
-    if (this.timeMultiplierUniform) {
-      return this.timeMultiplierUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uTimeMultiplier
-        ?.value ?? 1.0
+  // Pointer position in the plane's uv space, null off the plane
+  private planeUv(event: PointerEvent): THREE.Vector2 | null {
+    if (!this.camera || !this.domElement) return null;
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
     );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const hit = this.raycaster.intersectObject(this.mesh)[0];
+    return hit?.uv ? hit.uv.clone() : null;
   }
 
-  set timeMultiplier(value: number) {
-    if (this.timeMultiplierUniform) {
-      this.timeMultiplierUniform.value = value;
-    } else if (
-      (this.material as THREE.ShaderMaterial).uniforms?.uTimeMultiplier
+  // rayTo follows the pointer over the plane
+  private onPointerMove = (event: PointerEvent): void => {
+    const uv = this.planeUv(event);
+    if (uv) this.rayTo = uv;
+  };
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (event.button !== 0) return;
+    this.pressed = new THREE.Vector2(event.clientX, event.clientY);
+  };
+
+  // A click (no drag, so not an orbit) places a light or the ray origin
+  private onPointerUp = (event: PointerEvent): void => {
+    const pressed = this.pressed;
+    this.pressed = null;
+    if (
+      !pressed ||
+      pressed.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) >
+        CLICK_TOLERANCE
     ) {
-      (this.material as THREE.ShaderMaterial).uniforms.uTimeMultiplier.value =
-        value;
-    }
-  }
-
-  get rayFrom(): THREE.Vector2 {
-    if (this.rayFromUniform) {
-      return this.rayFromUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uRayFrom?.value ??
-      new THREE.Vector2(0.5, 0.5)
-    );
-  }
-
-  set rayFrom(value: THREE.Vector2) {
-    if (this.rayFromUniform) {
-      this.rayFromUniform.value.copy(value);
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uRayFrom) {
-      (this.material as THREE.ShaderMaterial).uniforms.uRayFrom.value.copy(
-        value
-      );
-    }
-  }
-
-  get rayTo(): THREE.Vector2 {
-    if (this.rayToUniform) {
-      return this.rayToUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uRayTo?.value ??
-      new THREE.Vector2(1, 1)
-    );
-  }
-
-  set rayTo(value: THREE.Vector2) {
-    if (this.rayToUniform) {
-      this.rayToUniform.value.copy(value);
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uRayTo) {
-      (this.material as THREE.ShaderMaterial).uniforms.uRayTo.value.copy(value);
+      return;
     }
+    const uv = this.planeUv(event);
+    if (!uv) return;
+    if (this.lighting) this.placeLight(uv);
+    else this.rayFrom = uv;
+  };
+
+  // Moves the next active light to `uv`, cycling through them
+  public placeLight(uv: THREE.Vector2): void {
+    const slot = this.nextLight % this.lightCount;
+    this.uniforms.set(LIGHT_SLOTS[slot].position, uv.clone());
+    this.nextLight = slot + 1;
   }
 
   // Update method
   update(time: number): void {
-    // TSL handles time automatically with TSL.time
+    // TSL reads the time node (engine clock) directly
     // For fallback ShaderMaterial, update manually
     if ((this.material as THREE.ShaderMaterial).uniforms?.uTime) {
       (this.material as THREE.ShaderMaterial).uniforms.uTime.value = time;
@@ -580,5 +780,12 @@ export class TSLPlaneRaymarching {
   dispose(): void {
     this.geometry.dispose();
     this.material.dispose();
+    // Remove event listeners
+    this.domElement?.removeEventListener("pointermove", this.onPointerMove);
+    this.domElement?.removeEventListener("pointerdown", this.onPointerDown);
+    this.domElement?.removeEventListener("pointerup", this.onPointerUp);
+    this.domElement = null;
   }
 }
+
+defineUniformAccessors(TSLPlaneRaymarching, RAYMARCHING_UNIFORMS);
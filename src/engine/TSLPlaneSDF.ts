@@ -4,33 +4,82 @@ import * as THREE from "three";
 import * as TSL from "three/tsl";
 // Import WebGPU materials
 import { MeshPhysicalNodeMaterial } from "three/webgpu";
+import {
+  UniformSet,
+  UniformValues,
+  defineUniformAccessors,
+  defineUniforms,
+} from "./uniform-schema";
+import type { TimeNode } from "./engine-clock";
+import type { SdfNode, SdfScene } from "./sdf/scene";
+import { compileSdfSceneGLSL, compileSdfSceneTSL } from "./sdf/compile";
+import { SdfEditor } from "./sdf/editor";
 
 export interface TSLPlaneSDFParams {
+  scene: SdfScene; // shapes and coloring, see public/data/sdf
   width?: number;
   height?: number;
   widthSegments?: number;
   heightSegments?: number;
   position?: THREE.Vector3;
+  time?: TimeNode; // defaults to TSL.time, demos pass the engine clock's
 }
 
+export const SDF_UNIFORMS = defineUniforms({
+  radius: {
+    type: "float",
+    default: 0.25,
+    min: 0.01,
+    max: 0.5,
+    step: 0.01,
+    description: "Base radius shared by every shape",
+  },
+  fade: {
+    type: "float",
+    default: 1.5,
+    min: 0,
+    max: 10,
+    step: 0.1,
+    description: "How quickly colour fades with distance",
+  },
+});
+
+// Uniform accessors (radius, fade) are generated from the schema
+export interface TSLPlaneSDF extends UniformValues<typeof SDF_UNIFORMS> {}
+
 export class TSLPlaneSDF {
   private geometry: THREE.PlaneGeometry;
   private material: MeshPhysicalNodeMaterial | THREE.ShaderMaterial;
   public mesh: THREE.Mesh;
+  private time: TimeNode;
+  private scene: SdfScene;
+  private edited: SdfNode | null = null;
+  public elapsed = 0;
+  public editor: SdfEditor | null = null;
+
+  // Live transform of the edited node, see SdfEdit
+  private edit = {
+    offset: TSL.uniform(new THREE.Vector2()),
+    rotation: TSL.uniform(0),
+    scale: TSL.uniform(1),
+  };
 
   // SDF Uniforms
-  private radiusUniform: any;
-  private fadeUniform: any;
+  public readonly uniforms = new UniformSet(SDF_UNIFORMS);
 
-  constructor(params: TSLPlaneSDFParams = {}) {
+  constructor(params: TSLPlaneSDFParams) {
     const {
+      scene,
       width = 4,
       height = 2,
       widthSegments = 64,
       heightSegments = 32,
       position = new THREE.Vector3(0, 0, 0),
+      time = TSL.time,
     } = params;
 
+    this.time = time;
+    this.scene = scene;
     this.initGeometry(width, height, widthSegments, heightSegments);
     this.initMaterial();
     this.initMesh(position);
@@ -54,173 +103,11 @@ export class TSLPlaneSDF {
     console.log("🚀 Creating TSL SDF Material");
 
     try {
-      // Create SDF uniforms using TSL
-      this.radiusUniform = TSL.uniform(0.25);
-      this.fadeUniform = TSL.uniform(1.5);
-
       // Create TSL material
       this.material = new MeshPhysicalNodeMaterial();
 
-      // Define SDF functions using TSL.Fn
-      const Circle = TSL.Fn(([position, radius]) => {
-        return TSL.length(position).sub(radius);
-      });
-
-      const Ellipse = TSL.Fn(([position, radius, scale, angle]) => {
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const scaledPosition = angledPosition.mul(scale);
-        return TSL.length(scaledPosition).sub(radius);
-      });
-
-      const Box = TSL.Fn(([position, dimensions, angle]) => {
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const distance = TSL.abs(angledPosition).sub(dimensions);
-        return TSL.length(TSL.max(distance, 0.0)).add(
-          TSL.min(TSL.max(distance.x, distance.y), 0.0)
-        );
-      });
-
-      const Flower = TSL.Fn(
-        ([position, radius, frequency, amplitude, angle]) => {
-          const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-          const circleAngle = TSL.atan2(angledPosition.y, angledPosition.x);
-          const bumps = TSL.cos(circleAngle.mul(frequency)).mul(amplitude);
-          return TSL.length(position).sub(radius).add(bumps);
-        }
-      );
-
-      const Butterfly = TSL.Fn(([position, radius, frequency, amplitude]) => {
-        const circleAngle = TSL.atan2(position.y, position.x);
-        const bumps = TSL.cos(circleAngle.mul(frequency)).mul(
-          amplitude.mul(TSL.negate(position.y).mul(1.5).oneMinus())
-        );
-        return TSL.length(position).sub(radius).add(bumps);
-      });
-
-      const Moon = TSL.Fn(([position, radius, angle]) => {
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const innerCircle = TSL.length(
-          angledPosition.div(0.8).sub(TSL.vec2(0.15, 0.0))
-        ).sub(radius);
-        const outerCircle = TSL.length(position).sub(radius);
-        return TSL.max(TSL.negate(innerCircle), outerCircle);
-      });
-
-      const IntersectedCircleBox = TSL.Fn(([position, radius, angle]) => {
-        const circle = TSL.length(position).sub(radius);
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const box = Box(
-          angledPosition,
-          TSL.vec2(radius.sub(0.025), radius.sub(0.025)),
-          0
-        );
-        return TSL.max(circle, box);
-      });
-
-      const UnionedCircleBox = TSL.Fn(([position, radius, angle]) => {
-        const circle = TSL.length(position).sub(radius);
-        const angledPosition = TSL.rotateUV(position, angle, TSL.vec2(0, 0));
-        const box = Box(
-          angledPosition,
-          TSL.vec2(radius.sub(0.025), radius.sub(0.025)),
-          0
-        );
-        return TSL.min(circle, box);
-      });
-
-      // Main SDF scene function
-      const mainSDF = TSL.Fn(() => {
-        const p = TSL.positionLocal.xy;
-        const t = TSL.time.div(2);
-
-        // Create all SDF shapes
-        const circle = Circle(p.sub(TSL.vec2(-0.66, 0.66)), this.radiusUniform);
-
-        const intersectedCircleBox = IntersectedCircleBox(
-          p.sub(TSL.vec2(0, 0.66)),
-          this.radiusUniform,
-          t
-        );
-
-        const ellipse = Ellipse(
-          p.sub(TSL.vec2(0.66, 0.66)),
-          this.radiusUniform,
-          TSL.vec2(1, 2),
-          t
-        );
-
-        const flower = Flower(
-          p.sub(TSL.vec2(-0.66, 0)),
-          this.radiusUniform,
-          8,
-          0.1,
-          t
-        );
-
-        const butterfly = Butterfly(
-          TSL.vec2(p.x.div(TSL.sin(TSL.time.mul(2))), p.y),
-          this.radiusUniform,
-          4,
-          0.1
-        );
-
-        const moon = Moon(p.sub(TSL.vec2(0.66, 0)), this.radiusUniform, t);
-
-        const box = Box(
-          p.sub(TSL.vec2(-0.66, -0.66)),
-          TSL.vec2(this.radiusUniform, 0.25),
-          TSL.negate(t)
-        );
-
-        const unionedCircleBox = UnionedCircleBox(
-          p.sub(TSL.vec2(0, -0.66)),
-          this.radiusUniform,
-          t
-        );
-
-        const torus = Circle(p.sub(TSL.vec2(0.66, -0.66)), this.radiusUniform)
-          .abs()
-          .sub(0.05);
-
-        // Combine all SDFs using min operations
-        let sdfScene = TSL.min(circle, intersectedCircleBox);
-        sdfScene = TSL.min(sdfScene, ellipse);
-        sdfScene = TSL.min(sdfScene, flower);
-        sdfScene = TSL.min(sdfScene, butterfly);
-        sdfScene = TSL.min(sdfScene, moon);
-        sdfScene = TSL.min(sdfScene, box);
-        sdfScene = TSL.min(sdfScene, unionedCircleBox);
-        sdfScene = TSL.min(sdfScene, torus);
-
-        // Color based on SDF
-        const colour = TSL.select(
-          sdfScene.lessThan(0),
-          TSL.vec3(
-            TSL.add(
-              0.5,
-              TSL.mul(0.5, TSL.cos(TSL.time.add(p).add(TSL.vec3(0, 2, 4))))
-            )
-          ).mul(sdfScene.mul(this.fadeUniform).oneMinus()),
-          TSL.vec3(
-            TSL.add(
-              0.5,
-              TSL.mul(0.5, TSL.cos(TSL.time.add(p).add(TSL.vec3(4, 2, 0))))
-            )
-          ).mul(TSL.abs(sdfScene.mul(this.fadeUniform)).oneMinus())
-        );
-
-        // Final color with wave effect
-        const finalColour = TSL.mix(
-          TSL.vec3(0),
-          colour,
-          TSL.abs(TSL.sin(sdfScene.mul(100).add(TSL.time)))
-        );
-
-        return finalColour;
-      });
-
       // Apply the SDF fragment shader
-      this.material.colorNode = mainSDF();
+      this.material.colorNode = this.compileColorNode();
 
       // Material properties
       this.material.transparent = true;
@@ -233,6 +120,20 @@ export class TSLPlaneSDF {
     }
   }
 
+  // Compile the scene description to a node graph
+  private compileColorNode() {
+    const mainSDF = TSL.Fn(
+      () =>
+        compileSdfSceneTSL(this.scene, {
+          position: TSL.positionLocal.xy,
+          time: this.time,
+          uniforms: this.uniforms,
+          edit: this.edited ? { node: this.edited, ...this.edit } : undefined,
+        }).colour
+    );
+    return mainSDF();
+  }
+
   private createFallbackMaterial(): void {
     console.log("🔄 Using fallback SDF ShaderMaterial");
     this.material = new THREE.ShaderMaterial({
@@ -246,59 +147,17 @@ export class TSLPlaneSDF {
           gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
         }
       `,
-      fragmentShader: `
-        uniform float uTime;
-        uniform float uRadius;
-        uniform float uFade;
-        varying vec2 vUv;
-        varying vec3 vPosition;
-        
-        // SDF Functions
-        float circle(vec2 p, float r) {
-          return length(p) - r;
-        }
-        
-        float box(vec2 p, vec2 b) {
-          vec2 d = abs(p) - b;
-          return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
-        }
-        
-        mat2 rot(float a) {
-          float c = cos(a), s = sin(a);
-          return mat2(c, -s, s, c);
-        }
-        
-        void main() {
-          vec2 p = vPosition.xy;
-          float t = uTime * 0.5;
-          
-          // Create some basic SDFs
-          float c1 = circle(p - vec2(-0.66, 0.66), uRadius);
-          float c2 = circle(p - vec2(0.66, 0.66), uRadius);
-          float b1 = box((p - vec2(-0.66, -0.66)) * rot(t), vec2(uRadius, 0.25));
-          float b2 = box(p - vec2(0.66, -0.66), vec2(uRadius));
-          
-          // Combine SDFs
-          float sdf = min(min(c1, c2), min(b1, b2));
-          
-          // Color based on SDF
-          vec3 color1 = 0.5 + 0.5 * cos(uTime + p.xyx + vec3(0, 2, 4));
-          vec3 color2 = 0.5 + 0.5 * cos(uTime + p.xyx + vec3(4, 2, 0));
-          
-          vec3 color = sdf < 0.0 
-            ? color1 * (1.0 - sdf * uFade)
-            : color2 * (1.0 - abs(sdf * uFade));
-          
-          // Add wave effect
-          vec3 finalColor = mix(vec3(0.0), color, abs(sin(sdf * 100.0 + uTime)));
-          
-          gl_FragColor = vec4(finalColor, 1.0);
-        }
-      `,
+      fragmentShader: compileSdfSceneGLSL(
+        this.scene,
+        this.uniforms,
+        this.edited
+      ),
       uniforms: {
         uTime: { value: 0.0 },
-        uRadius: { value: 0.25 },
-        uFade: { value: 1.5 },
+        uEditOffset: { value: this.edit.offset.value },
+        uEditRotation: { value: 0 },
+        uEditScale: { value: 1 },
+        ...this.uniforms.glsl,
       },
       side: THREE.DoubleSide,
       transparent: true,
@@ -312,44 +171,51 @@ export class TSLPlaneSDF {
     this.mesh.receiveShadow = true;
   }
 
-  // Getters and setters for SDF controls
-  get radius(): number {
-    if (this.radiusUniform) {
-      return this.radiusUniform.value;
-    }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uRadius?.value ?? 0.25
-    );
-  }
-
-  set radius(value: number) {
-    if (this.radiusUniform) {
-      this.radiusUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uRadius) {
-      (this.material as THREE.ShaderMaterial).uniforms.uRadius.value = value;
-    }
+  /**
+   * Editing mode, see SdfEditor. Clicks and wheel events on `domElement`
+   * grab shapes before the orbit controls see them.
+   */
+  public setupEditor(camera: THREE.Camera, domElement: HTMLElement): SdfEditor {
+    this.editor?.dispose();
+    this.editor = new SdfEditor(this, this.scene, camera, domElement);
+    return this.editor;
   }
 
-  get fade(): number {
-    if (this.fadeUniform) {
-      return this.fadeUniform.value;
+  // Swaps the scene and recompiles, `edited` is outlined and follows
+  // setEditTransform
+  public setScene(scene: SdfScene, edited: SdfNode | null = null): void {
+    this.scene = scene;
+    this.edited = edited;
+    if (this.material instanceof THREE.ShaderMaterial) {
+      this.material.fragmentShader = compileSdfSceneGLSL(
+        scene,
+        this.uniforms,
+        edited
+      );
+    } else {
+      this.material.colorNode = this.compileColorNode();
     }
-    return (
-      (this.material as THREE.ShaderMaterial).uniforms?.uFade?.value ?? 1.5
-    );
+    this.material.needsUpdate = true;
   }
 
-  set fade(value: number) {
-    if (this.fadeUniform) {
-      this.fadeUniform.value = value;
-    } else if ((this.material as THREE.ShaderMaterial).uniforms?.uFade) {
-      (this.material as THREE.ShaderMaterial).uniforms.uFade.value = value;
+  public setEditTransform(
+    offset: THREE.Vector2,
+    rotation: number,
+    scale: number
+  ): void {
+    this.edit.offset.value.copy(offset);
+    this.edit.rotation.value = rotation;
+    this.edit.scale.value = scale;
+    if (this.material instanceof THREE.ShaderMaterial) {
+      this.material.uniforms.uEditRotation.value = rotation;
+      this.material.uniforms.uEditScale.value = scale;
     }
   }
 
   // Update method
   update(time: number): void {
-    // TSL handles time automatically with TSL.time
+    this.elapsed = time;
+    // TSL reads the time node (engine clock) directly
     // For fallback ShaderMaterial, update manually
     if ((this.material as THREE.ShaderMaterial).uniforms?.uTime) {
       (this.material as THREE.ShaderMaterial).uniforms.uTime.value = time;
@@ -358,7 +224,10 @@ export class TSLPlaneSDF {
 
   // Clean up
   dispose(): void {
+    this.editor?.dispose();
     this.geometry.dispose();
     this.material.dispose();
   }
 }
+
+defineUniformAccessors(TSLPlaneSDF, SDF_UNIFORMS);
@@ -0,0 +1,622 @@
+// File: @/engine/tsl-raymarch-3d.ts
+import * as THREE from "three";
+// Import TSL nodes
+import * as TSL from "three/tsl";
+// Import WebGPU materials
+import { MeshBasicNodeMaterial, ShadowNode } from "three/webgpu";
+import {
+  UniformSet,
+  UniformValues,
+  defineUniformAccessors,
+  defineUniforms,
+} from "./uniform-schema";
+import type { TimeNode } from "./engine-clock";
+import type { LightManager } from "./light-manager";
+import { SmoothUnion } from "./sdf/tsl";
+import { Capsule, Plane, RoundBox3D, Sphere, Torus } from "./sdf/tsl3d";
+import { SDF3D_GLSL, SDF_GLSL } from "./sdf/glsl";
+
+export interface TSLRaymarch3DParams {
+  lights: LightManager; // shading follows the key light
+  time?: TimeNode; // defaults to TSL.time, demos pass the engine clock's
+  // Cast into and receive from the key light's shadow map (TSL only), needs
+  // renderer.shadowMap.enabled before the first render
+  shadows?: boolean;
+}
+
+export const RAYMARCH_3D_UNIFORMS = defineUniforms({
+  maxSteps: {
+    type: "int",
+    default: 128,
+    min: 1,
+    max: 256,
+    step: 1,
+    description: "Sphere tracing iteration limit per pixel",
+  },
+  surfaceDistance: {
+    type: "float",
+    default: 0.001,
+    min: 0.0001,
+    max: 0.01,
+    step: 0.0001,
+    description: "Distance below which the ray counts as a hit",
+  },
+  maxDistance: {
+    type: "float",
+    default: 40,
+    min: 1,
+    max: 100,
+    step: 1,
+    description: "Distance after which the ray counts as a miss",
+  },
+  shadowSoftness: {
+    type: "float",
+    default: 8,
+    min: 1,
+    max: 64,
+    step: 1,
+    description: "Penumbra sharpness of the soft shadows, higher is harder",
+  },
+  aoStrength: {
+    type: "float",
+    default: 1,
+    min: 0,
+    max: 3,
+    step: 0.05,
+    description: "Ambient occlusion amount in creases",
+  },
+  timeMultiplier: {
+    type: "float",
+    default: 1.0,
+    min: 0,
+    max: 5,
+    step: 0.05,
+    description: "Animation speed of the shapes",
+  },
+});
+
+// Uniform accessors (maxSteps, aoStrength, ...) are generated from the schema
+export interface TSLRaymarch3D
+  extends UniformValues<typeof RAYMARCH_3D_UNIFORMS> {}
+
+const GROUND_HEIGHT = -1;
+const NORMAL_EPSILON = 0.001;
+const SHADOW_STEPS = 48;
+const SHADOW_DISTANCE = 10;
+const AO_SAMPLES = 5;
+// Lifts shadow map lookups off the surface, the SDF shadows itself already
+const SHADOW_MAP_OFFSET = 0.05;
+
+// Albedo per material id, the ground (id 0) is a checkerboard
+const MATERIAL_COLOURS: THREE.Vector3Tuple[] = [
+  [0.3, 0.3, 0.3],
+  [0.8, 0.15, 0.1],
+  [0.1, 0.55, 0.7],
+  [0.9, 0.6, 0.1],
+  [0.5, 0.25, 0.75],
+];
+
+/**
+ * Raymarched 3D SDF scene on a full-screen quad. Rays are rebuilt per pixel
+ * from the rendering camera's inverse projection and world matrices, so
+ * OrbitControls, resizes and tiled screenshots all move through the scene.
+ * The hit distance is written as depth, so rasterized meshes and the SDF
+ * occlude each other, and misses sit on the far plane.
+ */
+export class TSLRaymarch3D {
+  private geometry: THREE.PlaneGeometry;
+  private material: MeshBasicNodeMaterial | THREE.ShaderMaterial;
+  public mesh: THREE.Mesh;
+  private time: TimeNode;
+  private lights: LightManager;
+  private shadows: boolean;
+  private keyShadow: ShadowNode | null = null;
+
+  public readonly uniforms = new UniformSet(RAYMARCH_3D_UNIFORMS);
+
+  // Key light in world space, refreshed from the LightManager every frame
+  private lightDirection = TSL.uniform(new THREE.Vector3(0, 1, 0));
+  private lightColour = TSL.uniform(new THREE.Color(1, 1, 1));
+  private ambientColour = TSL.uniform(new THREE.Color(0.5, 0.5, 0.5));
+  private lightTarget = new THREE.Vector3();
+
+  constructor(params: TSLRaymarch3DParams) {
+    const { lights, time = TSL.time, shadows = false } = params;
+
+    this.time = time;
+    this.lights = lights;
+    this.shadows = shadows;
+    // Clip space quad, see the vertex stage below
+    this.geometry = new THREE.PlaneGeometry(2, 2);
+    this.initMaterial();
+    this.initMesh();
+    this.updateLight();
+  }
+
+  private initMaterial(): void {
+    console.log("🚀 Creating TSL 3D Raymarching Material");
+
+    try {
+      const maxStepsUniform = this.uniforms.node("maxSteps");
+      const surfaceDistanceUniform = this.uniforms.node("surfaceDistance");
+      const maxDistanceUniform = this.uniforms.node("maxDistance");
+      const shadowSoftnessUniform = this.uniforms.node("shadowSoftness");
+      const aoStrengthUniform = this.uniforms.node("aoStrength");
+      const timeMultiplierUniform = this.uniforms.node("timeMultiplier");
+
+      this.material = new MeshBasicNodeMaterial();
+      if (this.shadows) {
+        const { keyLight } = this.lights;
+        this.keyShadow = TSL.shadow(keyLight, keyLight.shadow);
+      }
+
+      // (distance, material id) of the closer hit
+      const Closest = TSL.Fn(([a, b]) => TSL.select(a.x.lessThan(b.x), a, b));
+
+      // Scene as (distance, material id)
+      const sceneMap = TSL.Fn(([p]) => {
+        const t = this.time.mul(timeMultiplierUniform);
+
+        const ground = TSL.vec2(Plane(p, TSL.vec3(0, 1, 0), GROUND_HEIGHT), 0);
+
+        const sphere = TSL.vec2(Sphere(p.sub(TSL.vec3(-2.2, 0, 0)), 1), 1);
+
+        // Rounded box spinning around y, a sphere orbits through it
+        const spun = TSL.rotate(p.xz, t);
+        const box = RoundBox3D(
+          TSL.vec3(spun.x, p.y, spun.y),
+          TSL.vec3(0.75),
+          0.1
+        );
+        const orbit = TSL.vec3(
+          TSL.cos(t).mul(1.1),
+          TSL.sin(t.mul(2)).mul(0.4),
+          TSL.sin(t).mul(1.1)
+        );
+        const blob = TSL.vec2(
+          SmoothUnion(box, Sphere(p.sub(orbit), 0.4), 0.3),
+          2
+        );
+
+        // Torus tumbling around x
+        const torusP = p.sub(TSL.vec3(2.2, 0, 0));
+        const tilt = TSL.rotate(torusP.yz, t.mul(0.5));
+        const torus = TSL.vec2(
+          Torus(TSL.vec3(torusP.x, tilt.x, tilt.y), TSL.vec2(0.8, 0.25)),
+          3
+        );
+
+        const capsule = TSL.vec2(
+          Capsule(p, TSL.vec3(-1.5, -0.75, -2), TSL.vec3(1.5, 0.5, -2), 0.25),
+          4
+        );
+
+        let scene = Closest(ground, sphere);
+        scene = Closest(scene, blob);
+        scene = Closest(scene, torus);
+        scene = Closest(scene, capsule);
+        return scene;
+      });
+
+      // Central differences of the field
+      const getNormal = TSL.Fn(([p]) => {
+        const e = TSL.vec2(NORMAL_EPSILON, 0);
+        return TSL.normalize(
+          TSL.vec3(
+            sceneMap(p.add(e.xyy)).x.sub(sceneMap(p.sub(e.xyy)).x),
+            sceneMap(p.add(e.yxy)).x.sub(sceneMap(p.sub(e.yxy)).x),
+            sceneMap(p.add(e.yyx)).x.sub(sceneMap(p.sub(e.yyx)).x)
+          )
+        );
+      });
+
+      // Penumbra from the closest miss along the shadow ray (Quilez)
+      const softShadow = TSL.Fn(([origin, direction]) => {
+        const result = TSL.float(1).toVar();
+        const t = TSL.float(0.02).toVar();
+        TSL.Loop(SHADOW_STEPS, () => {
+          const h = sceneMap(origin.add(direction.mul(t))).x;
+          result.assign(TSL.min(result, shadowSoftnessUniform.mul(h).div(t)));
+          t.addAssign(TSL.clamp(h, 0.01, 0.25));
+          TSL.If(
+            result.lessThan(0.001).or(t.greaterThan(SHADOW_DISTANCE)),
+            () => {
+              TSL.Break();
+            }
+          );
+        });
+        return TSL.clamp(result, 0, 1);
+      });
+
+      // Compares the field with the distance walked along the normal
+      const ambientOcclusion = TSL.Fn(([p, n]) => {
+        const occlusion = TSL.float(0).toVar();
+        const weight = TSL.float(1).toVar();
+        TSL.Loop(AO_SAMPLES, ({ i }) => {
+          const h = TSL.float(i)
+            .div(AO_SAMPLES - 1)
+            .mul(0.12)
+            .add(0.01);
+          occlusion.addAssign(h.sub(sceneMap(p.add(n.mul(h))).x).mul(weight));
+          weight.mulAssign(0.95);
+        });
+        return TSL.clamp(
+          occlusion.mul(aoStrengthUniform).mul(3).oneMinus(),
+          0,
+          1
+        );
+      });
+
+      const albedo = TSL.Fn(([material, p]) => {
+        const checker = TSL.mod(TSL.floor(p.x).add(TSL.floor(p.z)), 2);
+        const ground = TSL.vec3(...MATERIAL_COLOURS[0]).add(checker.mul(0.15));
+        return MATERIAL_COLOURS.slice(1).reduce<any>(
+          (colour, rgb, i) =>
+            TSL.select(material.greaterThan(i + 0.5), TSL.vec3(...rgb), colour),
+          ground
+        );
+      });
+
+      const sky = (direction: any) =>
+        TSL.mix(
+          TSL.vec3(0.02),
+          TSL.vec3(0.1, 0.14, 0.2),
+          TSL.clamp(direction.y.mul(0.5).add(0.5), 0, 1)
+        );
+
+      // The quad covers clip space, its geometry xy are the NDC. Rays start
+      // on the near plane so the orthographic shadow camera works as well
+      const ndc = TSL.positionGeometry.xy;
+      const viewPoint = (z: number) => {
+        const point = TSL.cameraProjectionMatrixInverse.mul(
+          TSL.vec4(ndc, z, 1)
+        );
+        return point.xyz.div(point.w);
+      };
+      const inside = viewPoint(0);
+      const viewDirection = TSL.normalize(viewPoint(1).sub(inside));
+      const viewOrigin = inside.add(
+        viewDirection.mul(
+          TSL.cameraNear.negate().sub(inside.z).div(viewDirection.z)
+        )
+      );
+      const rayOrigin = TSL.cameraWorldMatrix.mul(TSL.vec4(viewOrigin, 1)).xyz;
+      const rayDirection = TSL.normalize(
+        TSL.cameraWorldMatrix.mul(TSL.vec4(viewDirection, 0)).xyz
+      );
+
+      // Sphere tracing to (distance travelled, material id), -1 on a miss
+      const traceRay = TSL.Fn(([origin, direction]) => {
+        const travelled = TSL.float(0).toVar();
+        const material = TSL.float(-1).toVar();
+        TSL.Loop(maxStepsUniform, () => {
+          const hit = sceneMap(origin.add(direction.mul(travelled)));
+          TSL.If(hit.x.lessThan(surfaceDistanceUniform), () => {
+            material.assign(hit.y);
+            TSL.Break();
+          });
+          travelled.addAssign(hit.x);
+          TSL.If(travelled.greaterThan(maxDistanceUniform), () => {
+            TSL.Break();
+          });
+        });
+        return TSL.vec2(travelled, material);
+      });
+      // Shared by the depth and colour outputs so the ray is marched once
+      const march = traceRay(rayOrigin, rayDirection).toVar("march");
+      const travelled = march.x;
+      const material = march.y;
+      const hitPoint = rayOrigin.add(rayDirection.mul(travelled));
+
+      const hitDepth = TSL.Fn(() => {
+        const depth = TSL.float(1).toVar();
+        TSL.If(material.greaterThanEqual(0), () => {
+          const viewZ = TSL.cameraViewMatrix.mul(TSL.vec4(hitPoint, 1)).z;
+          // projectionMatrix[3][3] is 1 for orthographic cameras, 0 otherwise
+          const orthographic = TSL.cameraProjectionMatrix
+            .element(TSL.int(3))
+            .w.greaterThan(0.5);
+          depth.assign(
+            TSL.select(
+              orthographic,
+              TSL.viewZToOrthographicDepth(
+                viewZ,
+                TSL.cameraNear,
+                TSL.cameraFar
+              ),
+              TSL.viewZToPerspectiveDepth(viewZ, TSL.cameraNear, TSL.cameraFar)
+            )
+          );
+        });
+        return TSL.clamp(depth, 0, 1);
+      });
+
+      const mainRaymarch = TSL.Fn(() => {
+        const colour = sky(rayDirection).toVar();
+        TSL.If(material.greaterThanEqual(0), () => {
+          const p = hitPoint;
+          const n = getNormal(p);
+          const l = this.lightDirection;
+
+          let shadow = softShadow(p.add(n.mul(0.002)), l);
+          if (this.keyShadow) {
+            // Shadows of rasterized meshes from the key light's shadow map
+            const mapShadow = TSL.context(this.keyShadow, {
+              shadowPositionWorld: p.add(n.mul(SHADOW_MAP_OFFSET)),
+            });
+            shadow = TSL.min(shadow, mapShadow.x);
+          }
+          const occlusion = ambientOcclusion(p, n);
+          const diffuse = TSL.clamp(TSL.dot(n, l), 0, 1).mul(shadow);
+          const specular = TSL.pow(
+            TSL.clamp(TSL.dot(TSL.reflect(rayDirection, n), l), 0, 1),
+            32
+          )
+            .mul(shadow)
+            .mul(0.3);
+          // Sky light from above, darkened in creases
+          const ambient = this.ambientColour
+            .mul(n.y.mul(0.5).add(0.5))
+            .mul(occlusion);
+
+          const lit = albedo(material, p)
+            .mul(this.lightColour.mul(diffuse).add(ambient))
+            .add(this.lightColour.mul(specular));
+          const fog = TSL.exp(travelled.mul(travelled).mul(-0.002)).oneMinus();
+          colour.assign(TSL.mix(lit, colour, fog));
+        });
+
+        return colour;
+      });
+
+      this.material.vertexNode = TSL.vec4(TSL.positionGeometry.xy, 0, 1);
+      this.material.colorNode = mainRaymarch();
+      this.material.depthNode = hitDepth();
+      if (this.shadows) {
+        // The shadow pass keeps the quad on the shadow camera's clip space
+        // and marches from there, the depth node is shared
+        const clipPoint = TSL.cameraProjectionMatrixInverse.mul(
+          TSL.vec4(TSL.positionGeometry.xy, 0.5, 1)
+        );
+        this.material.castShadowPositionNode = TSL.modelWorldMatrixInverse.mul(
+          TSL.cameraWorldMatrix.mul(TSL.vec4(clipPoint.xyz.div(clipPoint.w), 1))
+        ).xyz;
+      }
+
+      console.log("✅ TSL 3D Raymarching Material created successfully!");
+    } catch (error) {
+      console.error("❌ TSL 3D Raymarching failed, using fallback:", error);
+      this.keyShadow?.dispose();
+      this.keyShadow = null;
+      this.createFallbackMaterial();
+    }
+  }
+
+  private createFallbackMaterial(): void {
+    console.log("🔄 Using fallback 3D Raymarching ShaderMaterial");
+    const materialColours = MATERIAL_COLOURS.slice(1)
+      .map(
+        (rgb, i) =>
+          `if (material > ${i + 0.5}) colour = vec3(${rgb
+            .map((c) => c.toFixed(2))
+            .join(", ")});`
+      )
+      .join("\n          ");
+
+    this.material = new THREE.ShaderMaterial({
+      vertexShader: `
+        varying vec2 vNdc;
+
+        void main() {
+          vNdc = position.xy;
+          gl_Position = vec4(position.xy, 0.0, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform float uTime;
+        uniform int uMaxSteps;
+        uniform float uSurfaceDistance;
+        uniform float uMaxDistance;
+        uniform float uShadowSoftness;
+        uniform float uAoStrength;
+        uniform float uTimeMultiplier;
+        uniform vec3 uLightDirection;
+        uniform vec3 uLightColour;
+        uniform vec3 uAmbientColour;
+        uniform mat4 uProjection;
+        uniform mat4 uProjectionInverse;
+        uniform mat4 uCameraWorld;
+        varying vec2 vNdc;
+
+        ${SDF_GLSL}
+        ${SDF3D_GLSL}
+
+        vec2 closest(vec2 a, vec2 b) {
+          return a.x < b.x ? a : b;
+        }
+
+        // Same scene as the TSL version
+        vec2 sceneMap(vec3 p) {
+          float t = uTime * uTimeMultiplier;
+          vec2 ground = vec2(sdPlane(p, vec3(0.0, 1.0, 0.0), ${GROUND_HEIGHT.toFixed(
+            1
+          )}), 0.0);
+          vec2 sphere = vec2(sdSphere(p - vec3(-2.2, 0.0, 0.0), 1.0), 1.0);
+
+          vec2 spun = opRotate(p.xz, t);
+          float box = sdRoundBox3D(vec3(spun.x, p.y, spun.y), vec3(0.75), 0.1);
+          vec3 orbit = vec3(cos(t) * 1.1, sin(t * 2.0) * 0.4, sin(t) * 1.1);
+          vec2 blob = vec2(opSmoothUnion(box, sdSphere(p - orbit, 0.4), 0.3), 2.0);
+
+          vec3 torusP = p - vec3(2.2, 0.0, 0.0);
+          vec2 tilt = opRotate(torusP.yz, t * 0.5);
+          vec2 torus = vec2(sdTorus(vec3(torusP.x, tilt), vec2(0.8, 0.25)), 3.0);
+
+          vec2 capsule = vec2(sdCapsule(p, vec3(-1.5, -0.75, -2.0), vec3(1.5, 0.5, -2.0), 0.25), 4.0);
+
+          return closest(closest(closest(closest(ground, sphere), blob), torus), capsule);
+        }
+
+        vec3 getNormal(vec3 p) {
+          vec2 e = vec2(${NORMAL_EPSILON}, 0.0);
+          return normalize(vec3(
+            sceneMap(p + e.xyy).x - sceneMap(p - e.xyy).x,
+            sceneMap(p + e.yxy).x - sceneMap(p - e.yxy).x,
+            sceneMap(p + e.yyx).x - sceneMap(p - e.yyx).x
+          ));
+        }
+
+        float softShadow(vec3 origin, vec3 direction) {
+          float result = 1.0;
+          float t = 0.02;
+          for (int i = 0; i < ${SHADOW_STEPS}; i++) {
+            float h = sceneMap(origin + direction * t).x;
+            result = min(result, uShadowSoftness * h / t);
+            t += clamp(h, 0.01, 0.25);
+            if (result < 0.001 || t > ${SHADOW_DISTANCE.toFixed(1)}) break;
+          }
+          return clamp(result, 0.0, 1.0);
+        }
+
+        float ambientOcclusion(vec3 p, vec3 n) {
+          float occlusion = 0.0;
+          float weight = 1.0;
+          for (int i = 0; i < ${AO_SAMPLES}; i++) {
+            float h = float(i) / ${(AO_SAMPLES - 1).toFixed(1)} * 0.12 + 0.01;
+            occlusion += (h - sceneMap(p + n * h).x) * weight;
+            weight *= 0.95;
+          }
+          return clamp(1.0 - occlusion * uAoStrength * 3.0, 0.0, 1.0);
+        }
+
+        vec3 albedo(float material, vec3 p) {
+          float checker = mod(floor(p.x) + floor(p.z), 2.0);
+          vec3 colour = vec3(${MATERIAL_COLOURS[0]
+            .map((c) => c.toFixed(2))
+            .join(", ")}) + checker * 0.15;
+          ${materialColours}
+          return colour;
+        }
+
+        void main() {
+          vec4 farPoint = uProjectionInverse * vec4(vNdc, 1.0, 1.0);
+          vec3 rayDirection = normalize(
+            (uCameraWorld * vec4(farPoint.xyz / farPoint.w, 0.0)).xyz
+          );
+          vec3 rayOrigin = cameraPosition;
+
+          // Sphere tracing, the loop bound must be constant in GLSL ES
+          float travelled = 0.0;
+          float material = -1.0;
+          for (int i = 0; i < ${RAYMARCH_3D_UNIFORMS.maxSteps.max}; i++) {
+            if (i >= uMaxSteps) break;
+            vec2 hit = sceneMap(rayOrigin + rayDirection * travelled);
+            if (hit.x < uSurfaceDistance) {
+              material = hit.y;
+              break;
+            }
+            travelled += hit.x;
+            if (travelled > uMaxDistance) break;
+          }
+
+          vec3 colour = mix(
+            vec3(0.02),
+            vec3(0.1, 0.14, 0.2),
+            clamp(rayDirection.y * 0.5 + 0.5, 0.0, 1.0)
+          );
+          // Misses sit on the far plane
+          float depth = 1.0;
+          if (material >= 0.0) {
+            vec3 p = rayOrigin + rayDirection * travelled;
+            vec4 clip = uProjection * viewMatrix * vec4(p, 1.0);
+            depth = clamp(clip.z / clip.w * 0.5 + 0.5, 0.0, 1.0);
+            vec3 n = getNormal(p);
+            vec3 l = uLightDirection;
+
+            float shadow = softShadow(p + n * 0.002, l);
+            float occlusion = ambientOcclusion(p, n);
+            float diffuse = clamp(dot(n, l), 0.0, 1.0) * shadow;
+            float specular = pow(clamp(dot(reflect(rayDirection, n), l), 0.0, 1.0), 32.0)
+              * shadow * 0.3;
+            vec3 ambient = uAmbientColour * (n.y * 0.5 + 0.5) * occlusion;
+
+            vec3 lit = albedo(material, p) * (uLightColour * diffuse + ambient)
+              + uLightColour * specular;
+            float fog = 1.0 - exp(-0.002 * travelled * travelled);
+            colour = mix(lit, colour, fog);
+          }
+
+          gl_FragDepth = depth;
+          gl_FragColor = vec4(colour, 1.0);
+          #include <colorspace_fragment>
+        }
+      `,
+      uniforms: {
+        uTime: { value: 0.0 },
+        uLightDirection: { value: this.lightDirection.value },
+        uLightColour: { value: this.lightColour.value },
+        uAmbientColour: { value: this.ambientColour.value },
+        uProjection: { value: new THREE.Matrix4() },
+        uProjectionInverse: { value: new THREE.Matrix4() },
+        uCameraWorld: { value: new THREE.Matrix4() },
+        ...this.uniforms.glsl,
+      },
+    });
+  }
+
+  private initMesh(): void {
+    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    // Always on screen, drawn first so meshes depth test against the SDF
+    this.mesh.frustumCulled = false;
+    this.mesh.renderOrder = -1;
+    this.mesh.castShadow = this.keyShadow !== null;
+
+    // The fallback reads the camera of the current render, tiles included
+    this.mesh.onBeforeRender = (_renderer, _scene, camera) => {
+      const material = this.material;
+      if (!(material instanceof THREE.ShaderMaterial)) return;
+      material.uniforms.uProjection.value.copy(camera.projectionMatrix);
+      material.uniforms.uProjectionInverse.value.copy(
+        camera.projectionMatrixInverse
+      );
+      material.uniforms.uCameraWorld.value.copy(camera.matrixWorld);
+    };
+  }
+
+  // Direction towards the key light and its colour times intensity
+  private updateLight(): void {
+    const { keyLight, ambient } = this.lights;
+    keyLight.updateMatrixWorld();
+    keyLight.target.updateMatrixWorld();
+    this.lightTarget.setFromMatrixPosition(keyLight.target.matrixWorld);
+    this.lightDirection.value
+      .setFromMatrixPosition(keyLight.matrixWorld)
+      .sub(this.lightTarget)
+      .normalize();
+    this.lightColour.value
+      .copy(keyLight.color)
+      .multiplyScalar(keyLight.intensity);
+    this.ambientColour.value
+      .copy(ambient.color)
+      .multiplyScalar(ambient.intensity);
+  }
+
+  // Update method
+  update(time: number): void {
+    this.updateLight();
+    // TSL reads the time node (engine clock) directly
+    // For fallback ShaderMaterial, update manually
+    if ((this.material as THREE.ShaderMaterial).uniforms?.uTime) {
+      (this.material as THREE.ShaderMaterial).uniforms.uTime.value = time;
+    }
+  }
+
+  // Clean up
+  dispose(): void {
+    this.geometry.dispose();
+    this.material.dispose();
+    this.keyShadow?.dispose();
+  }
+}
+
+defineUniformAccessors(TSLRaymarch3D, RAYMARCH_3D_UNIFORMS);
@@ -0,0 +1,159 @@
+import * as THREE from "three";
+import type * as WEBGPU from "three/webgpu";
+import type App from "@/app/app";
+import type { UniformSchema, UniformSet } from "./uniform-schema";
+import type { EngineClock } from "./engine-clock";
+import type { LightManager } from "./light-manager";
+import type { SdfNode, SdfOperation, SdfShapeName } from "./sdf/scene";
+
+export type DemoId = string;
+
+// Id used by the GUI to clear the scene without activating a demo
+export const NO_DEMO: DemoId = "none";
+
+export interface DemoContext {
+  app: App;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  renderer: THREE.WebGLRenderer | WEBGPU.WebGPURenderer;
+  // Use clock.timeNode instead of TSL.time so pausing freezes the shader
+  clock: EngineClock;
+  lights: LightManager;
+}
+
+export interface DemoFrame {
+  time: number; // elapsed clock seconds, frozen while paused
+  delta: number; // clock seconds since last frame (fixed step in fixedUpdate)
+  frame: number;
+}
+
+// What the GUI's SDF editor panel drives, implemented by SdfEditor
+export interface DemoEditor {
+  enabled: boolean;
+  readonly rootOperation: SdfOperation;
+  readonly children: readonly SdfNode[];
+  readonly selection: SdfNode | null;
+  readonly selectedIndex: number;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  onChange(listener: () => void): () => void;
+  select(index: number): void;
+  addShape(shape: SdfShapeName): void;
+  deleteSelected(): void;
+  // selected: apply to the selected group instead of the root
+  setOperation(op: SdfOperation, selected?: boolean): void;
+  undo(): void;
+  redo(): void;
+  serialize(): string;
+}
+
+export type DemoGameState = "title" | "playing" | "paused" | "gameover";
+
+// What the GUI's HUD shows, implemented by DesertTankGame
+export interface DemoGame {
+  readonly state: DemoGameState;
+  readonly score: number;
+  readonly lives: number;
+  readonly level: number;
+  // Best first, date is an ISO timestamp
+  readonly highScores: readonly { score: number; date: string }[];
+  // Index of the last game's entry in highScores, -1 when it did not place
+  readonly rank: number;
+  onChange(listener: () => void): () => void;
+}
+
+export interface DemoInstance {
+  mesh: THREE.Object3D;
+  // Tunable parameters, enumerated by the parameter panel
+  uniforms?: UniformSet<UniformSchema>;
+  // Scene editor, shown by the GUI when present
+  editor?: DemoEditor | null;
+  // Mini game state, shown by the GUI's HUD when present
+  game?: DemoGame | null;
+  dispose(): void;
+}
+
+// Whether a demo's asset groups are available
+export type DemoLoadState = "unloaded" | "loading" | "ready" | "failed";
+
+export interface DemoDefinition<T extends DemoInstance = DemoInstance> {
+  id: DemoId;
+  label: string;
+  // Manifest groups loaded before create(), released after dispose
+  assets?: string[];
+  create: (context: DemoContext) => T;
+  update?: (demo: T, frame: DemoFrame) => void;
+  // Game logic, called zero or more times per frame at clock.fixedDelta
+  fixedUpdate?: (demo: T, frame: DemoFrame) => void;
+  // Defaults to removing the mesh from the scene and calling demo.dispose()
+  dispose?: (demo: T, context: DemoContext) => void;
+}
+
+export interface ActiveDemo<T extends DemoInstance = DemoInstance> {
+  definition: DemoDefinition<T>;
+  instance: T;
+}
+
+// Keeps the generic instance type when declaring a demo inline
+export function defineDemo<T extends DemoInstance>(
+  definition: DemoDefinition<T>
+): DemoDefinition<T> {
+  return definition;
+}
+
+export class DemoRegistry {
+  private demos = new Map<DemoId, DemoDefinition<any>>();
+  private defaultDemoId: DemoId | null = null;
+
+  register<T extends DemoInstance>(
+    definition: DemoDefinition<T>,
+    options: { default?: boolean } = {}
+  ): this {
+    if (definition.id === NO_DEMO) {
+      throw new Error(`Demo id "${NO_DEMO}" is reserved`);
+    }
+    if (this.demos.has(definition.id)) {
+      throw new Error(`Demo "${definition.id}" is already registered`);
+    }
+    this.demos.set(definition.id, definition);
+    if (options.default || this.defaultDemoId === null) {
+      this.defaultDemoId = definition.id;
+    }
+    return this;
+  }
+
+  get(id: DemoId): DemoDefinition | undefined {
+    return this.demos.get(id);
+  }
+
+  has(id: DemoId): boolean {
+    return this.demos.has(id);
+  }
+
+  list(): DemoDefinition[] {
+    return Array.from(this.demos.values());
+  }
+
+  get defaultId(): DemoId {
+    return this.defaultDemoId ?? NO_DEMO;
+  }
+
+  activate(id: DemoId, context: DemoContext): ActiveDemo | null {
+    const definition = this.demos.get(id);
+    if (!definition) return null;
+
+    const instance = definition.create(context);
+    context.scene.add(instance.mesh);
+    return { definition, instance };
+  }
+
+  deactivate(active: ActiveDemo, context: DemoContext): void {
+    const { definition, instance } = active;
+    if (definition.dispose) {
+      definition.dispose(instance, context);
+      return;
+    }
+    context.scene.remove(instance.mesh);
+    instance.dispose();
+  }
+}
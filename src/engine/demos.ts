@@ -0,0 +1,134 @@
+import * as THREE from "three";
+import { DemoRegistry, defineDemo } from "./demo-registry";
+import { TSLPlane } from "./TSLPlane";
+import { TSLPlaneSDF } from "./TSLPlaneSDF";
+import { TSLPlaneDesertTank } from "./TSLPlaneDesertTank";
+import { TSLPlaneRaymarching } from "./TSLPlaneRaymarching";
+import { TSLRaymarch3D } from "./TSLRaymarch3D";
+import { TSLPlaneRadianceCascades } from "./TSLPlaneRadianceCascades";
+
+// Register new demos here - the engine and GUI enumerate this registry
+export const demoRegistry = new DemoRegistry();
+
+demoRegistry.register(
+  defineDemo({
+    id: "wave",
+    label: "Wave Plane",
+    create: ({ clock }) =>
+      new TSLPlane({
+        width: 8,
+        height: 8,
+        widthSegments: 128,
+        heightSegments: 128,
+        position: new THREE.Vector3(0, 0, 0),
+        time: clock.timeNode,
+      }),
+    update: (plane, { time }) => plane.update(time),
+  }),
+  { default: true }
+);
+
+demoRegistry.register(
+  defineDemo({
+    id: "sdf",
+    label: "SDF Shapes",
+    assets: ["sdf"],
+    create: ({ app, camera, renderer, clock }) => {
+      const plane = new TSLPlaneSDF({
+        scene: app.assets.require("sdf-shapes"),
+        width: 8,
+        height: 4,
+        position: new THREE.Vector3(0, 0, 0),
+        time: clock.timeNode,
+      });
+
+      // Configure SDF parameters
+      plane.radius = 0.3;
+      plane.fade = 2.0;
+
+      // Shape editing, toggled from the GUI
+      plane.setupEditor(camera, renderer.domElement);
+      return plane;
+    },
+    update: (plane, { time }) => plane.update(time),
+  })
+);
+
+demoRegistry.register(
+  defineDemo({
+    id: "desert-tank",
+    label: "Desert Tank",
+    create: ({ clock }) =>
+      new TSLPlaneDesertTank({
+        width: 4,
+        height: 3,
+        position: new THREE.Vector3(0, 0, 0),
+        time: clock.timeNode,
+      }),
+    fixedUpdate: (tank, { delta }) => tank.fixedUpdate(delta),
+  })
+);
+
+demoRegistry.register(
+  defineDemo({
+    id: "raymarching",
+    label: "Raymarching",
+    create: ({ camera, renderer, clock }) => {
+      const plane = new TSLPlaneRaymarching({
+        width: 8,
+        height: 8,
+        position: new THREE.Vector3(0, 0, 0),
+        time: clock.timeNode,
+      });
+
+      // Setup mouse interaction (important!)
+      plane.setupMouseInteraction(camera, renderer.domElement);
+
+      // Control raymarching parameters
+      plane.radius = 0.2;
+      plane.maxSteps = 25;
+      plane.surfaceDistance = 0.0001;
+      plane.timeMultiplier = 0.5;
+      return plane;
+    },
+    update: (plane, { time }) => plane.update(time),
+  })
+);
+
+demoRegistry.register(
+  defineDemo({
+    id: "raymarch-3d",
+    label: "Raymarching 3D",
+    create: ({ clock, lights, renderer }) => {
+      // SDF and meshes shadow each other through the key light's shadow map
+      renderer.shadowMap.enabled = true;
+      return new TSLRaymarch3D({
+        lights,
+        time: clock.timeNode,
+        shadows: true,
+      });
+    },
+    update: (demo, { time }) => demo.update(time),
+    dispose: (demo, { scene, renderer }) => {
+      scene.remove(demo.mesh);
+      demo.dispose();
+      renderer.shadowMap.enabled = false;
+    },
+  })
+);
+
+demoRegistry.register(
+  defineDemo({
+    id: "radiance-cascades",
+    label: "Radiance Cascades GI",
+    create: ({ renderer, clock }) =>
+      new TSLPlaneRadianceCascades({
+        renderer,
+        width: 8,
+        height: 8,
+        position: new THREE.Vector3(0, 0, 0),
+        time: clock.timeNode,
+      }),
+    update: (plane, { time }) => plane.update(time),
+  })
+);
@@ -0,0 +1,338 @@
+// Rules of the Desert Tank mini game: title, playing, paused and game over
+// states, score, lives, a difficulty ramp and the rocks and drones the tank
+// meets. Positions are in the demo's plane units (plane xy * 20), drawing is
+// left to TSLPlaneDesertTank.
+import type { DemoGame, DemoGameState } from "./demo-registry";
+
+export interface HighScore {
+  score: number;
+  date: string; // ISO timestamp
+}
+
+// Axis aligned tank extents, y includes the jump
+export interface TankHitbox {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+  // Span of the wheels, the only part low enough to touch rocks
+  wheels: [number, number];
+}
+
+interface Rock {
+  x: number;
+  cleared: boolean; // scored or already hit the tank
+}
+
+interface Drone {
+  x: number;
+  y: number;
+  baseY: number;
+  speed: number;
+  phase: number;
+}
+
+export const MAX_ROCKS = 3;
+export const MAX_DRONES = 3;
+// Unused rock and drone slots are parked outside the plane
+export const OFFSCREEN = 1000;
+// Ground line of the "bumps" layer the tank drives on, noise ignored
+export const GROUND_Y = -6;
+// The bumps layer moves 8 plane units per unit of terrain scroll
+export const GROUND_PARALLAX = 8;
+export const ROCK_SIZE = { radius: 1, height: 1.2 };
+export const DRONE_RADIUS = 1.2;
+
+const STORAGE_KEY = "tsl-lab:desert-tank-scores";
+const HIGH_SCORE_COUNT = 5;
+const START_LIVES = 3;
+const INVULNERABLE_TIME = 1.5; // seconds after a hit
+
+// Terrain scroll per second: idle on the title screen, then ramping up
+const IDLE_SPEED = 0.5;
+const START_SPEED = 2;
+const MAX_SPEED = 3.5;
+const RAMP_TIME = 120; // seconds of play to reach full difficulty
+
+// Seconds between spawns at no and full difficulty
+const ROCK_INTERVAL = [3, 1.4];
+const DRONE_INTERVAL = [5, 1.8];
+const DRONE_SPEED = [8, 18]; // plane units per second
+const DRONE_HEIGHT = [-3, 12];
+
+const SPAWN_X = 45;
+const DESPAWN_X = -45;
+const BULLET_RADIUS = 0.3;
+
+const DISTANCE_POINTS = 0.5; // per plane unit driven
+const ROCK_POINTS = 50;
+const DRONE_POINTS = 100;
+
+const lerp = (range: number[], t: number) =>
+  range[0] + (range[1] - range[0]) * t;
+
+const random = (range: number[]) => lerp(range, Math.random());
+
+export class DesertTankGame implements DemoGame {
+  private _state: DemoGameState = "title";
+  private _score = 0;
+  private _lives = START_LIVES;
+  private _scroll = 0;
+  private elapsed = 0; // seconds of play, drives the difficulty
+  private invulnerable = 0;
+  private rockTimer = 0;
+  private droneTimer = 0;
+  private rocks: Rock[] = [];
+  private drones: Drone[] = [];
+  private scores: HighScore[] = this.load();
+  // Index of the last game's entry in highScores, -1 when it did not place
+  private _rank = -1;
+  private listeners = new Set<() => void>();
+
+  get state(): DemoGameState {
+    return this._state;
+  }
+
+  get score(): number {
+    return Math.floor(this._score);
+  }
+
+  get lives(): number {
+    return this._lives;
+  }
+
+  // Terrain scroll in shader time units, replaces time / 2 in the shader
+  get scroll(): number {
+    return this._scroll;
+  }
+
+  // 0 at the start of a game, 1 after RAMP_TIME seconds
+  get difficulty(): number {
+    return Math.min(this.elapsed / RAMP_TIME, 1);
+  }
+
+  get level(): number {
+    return 1 + Math.floor(this.difficulty * 9);
+  }
+
+  // True on alternate tenths of a second while recovering from a hit
+  get blinking(): boolean {
+    return (
+      this.invulnerable > 0 && Math.floor(this.invulnerable * 10) % 2 === 0
+    );
+  }
+
+  get highScores(): readonly HighScore[] {
+    return this.scores;
+  }
+
+  get rank(): number {
+    return this._rank;
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Screen x of rock slot i, OFFSCREEN when empty
+  rockX(i: number): number {
+    return this.rocks[i]?.x ?? OFFSCREEN;
+  }
+
+  dronePosition(i: number): Readonly<{ x: number; y: number }> {
+    return this.drones[i] ?? { x: OFFSCREEN, y: OFFSCREEN };
+  }
+
+  start(): void {
+    if (this._state !== "title" && this._state !== "gameover") return;
+    this._score = 0;
+    this._lives = START_LIVES;
+    this.elapsed = 0;
+    this.invulnerable = 0;
+    this.rockTimer = ROCK_INTERVAL[0];
+    this.droneTimer = DRONE_INTERVAL[0];
+    this.rocks = [];
+    this.drones = [];
+    this._rank = -1;
+    this._state = "playing";
+    console.log("🎮 Desert Tank: game started");
+    this.emit();
+  }
+
+  togglePause(): void {
+    if (this._state === "playing") this._state = "paused";
+    else if (this._state === "paused") this._state = "playing";
+    else return;
+    this.emit();
+  }
+
+  /**
+   * Advances the game by one fixed step. `bullet` is the flying bullet's
+   * position, if any. Returns true when the bullet hit a drone.
+   */
+  step(
+    delta: number,
+    tank: TankHitbox,
+    bullet: { x: number; y: number } | null
+  ): boolean {
+    if (this._state === "paused") return false;
+    if (this._state !== "playing") {
+      this._scroll += IDLE_SPEED * delta;
+      return false;
+    }
+
+    const shown = this.shown();
+    this.elapsed += delta;
+    const d = this.difficulty;
+    const speed = lerp([START_SPEED, MAX_SPEED], d);
+    const groundDelta = speed * GROUND_PARALLAX * delta;
+    this._scroll += speed * delta;
+    this._score += groundDelta * DISTANCE_POINTS;
+    this.invulnerable = Math.max(this.invulnerable - delta, 0);
+
+    this.spawn(delta, d);
+
+    // Rocks ride the ground, drones fly on their own
+    this.rocks.forEach((rock) => (rock.x -= groundDelta));
+    this.drones.forEach((drone) => {
+      drone.x -= (drone.speed + speed * GROUND_PARALLAX * 0.25) * delta;
+      drone.phase += delta * 3;
+      drone.y = drone.baseY + Math.sin(drone.phase);
+    });
+
+    let bulletHit = false;
+    if (bullet) {
+      const index = this.drones.findIndex(
+        (drone) =>
+          Math.hypot(drone.x - bullet.x, drone.y - bullet.y) <
+          DRONE_RADIUS + BULLET_RADIUS
+      );
+      if (index >= 0) {
+        this.drones.splice(index, 1);
+        this._score += DRONE_POINTS;
+        bulletHit = true;
+      }
+    }
+
+    // Rocks only hurt wheels still below their top
+    this.rocks.forEach((rock) => {
+      if (rock.cleared) return;
+      if (rock.x + ROCK_SIZE.radius < tank.wheels[0]) {
+        rock.cleared = true;
+        this._score += ROCK_POINTS;
+      } else if (
+        rock.x - ROCK_SIZE.radius < tank.wheels[1] &&
+        tank.bottom < GROUND_Y + ROCK_SIZE.height
+      ) {
+        rock.cleared = true;
+        this.hit();
+      }
+    });
+    this.drones = this.drones.filter((drone) => {
+      const touching =
+        drone.x + DRONE_RADIUS > tank.left &&
+        drone.x - DRONE_RADIUS < tank.right &&
+        drone.y + DRONE_RADIUS > tank.bottom &&
+        drone.y - DRONE_RADIUS < tank.top;
+      if (touching) this.hit();
+      return !touching && drone.x > DESPAWN_X;
+    });
+    this.rocks = this.rocks.filter((rock) => rock.x > DESPAWN_X);
+    // Game over clears the field
+    if (this._lives <= 0) {
+      this.rocks = [];
+      this.drones = [];
+    }
+
+    // Listeners redraw the HUD, skip steps that change nothing it shows
+    if (this.shown() !== shown) this.emit();
+    return bulletHit;
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+
+  private spawn(delta: number, d: number): void {
+    this.rockTimer -= delta;
+    if (this.rockTimer <= 0 && this.rocks.length < MAX_ROCKS) {
+      this.rocks.push({ x: SPAWN_X, cleared: false });
+      this.rockTimer = lerp(ROCK_INTERVAL, d) * random([0.8, 1.3]);
+    }
+
+    this.droneTimer -= delta;
+    if (this.droneTimer <= 0 && this.drones.length < MAX_DRONES) {
+      const baseY = random(DRONE_HEIGHT);
+      this.drones.push({
+        x: SPAWN_X,
+        y: baseY,
+        baseY,
+        speed: lerp(DRONE_SPEED, d * Math.random()),
+        phase: random([0, Math.PI * 2]),
+      });
+      this.droneTimer = lerp(DRONE_INTERVAL, d) * random([0.7, 1.3]);
+    }
+  }
+
+  private hit(): void {
+    if (this.invulnerable > 0) return;
+    this._lives -= 1;
+    this.invulnerable = INVULNERABLE_TIME;
+    if (this._lives <= 0) this.gameOver();
+  }
+
+  private gameOver(): void {
+    this._state = "gameover";
+    const entry: HighScore = {
+      score: this.score,
+      date: new Date().toISOString(),
+    };
+    const scores = [...this.scores, entry]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, HIGH_SCORE_COUNT);
+    this._rank = scores.indexOf(entry);
+    if (this._rank >= 0) {
+      this.scores = scores;
+      this.persist();
+    }
+    console.log(`💥 Desert Tank: game over with ${entry.score} points`);
+  }
+
+  private shown(): string {
+    return `${this._state} ${this.score} ${this._lives} ${this.level}`;
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private load(): HighScore[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+      const data: unknown = JSON.parse(raw);
+      if (!Array.isArray(data)) return [];
+      return data
+        .filter(
+          (entry): entry is HighScore =>
+            !!entry &&
+            typeof entry.score === "number" &&
+            typeof entry.date === "string"
+        )
+        .sort((a, b) => b.score - a.score)
+        .slice(0, HIGH_SCORE_COUNT);
+    } catch (e) {
+      console.warn("Stored high scores unreadable, starting empty", e);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.scores));
+    } catch (e) {
+      console.warn("Could not store high scores", e);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import * as TSL from "three/tsl";
+
+// TSL.time or an EngineClock's timeNode, what demos animate with
+export type TimeNode = typeof TSL.time | EngineClock["timeNode"];
+
+export interface ClockTick {
+  time: number; // scaled seconds since start, frozen while paused
+  delta: number; // scaled seconds since the previous tick
+  frame: number; // ticks that advanced time
+  steps: number; // fixed steps due this tick
+}
+
+/**
+ * Single source of time for the lab. Owns elapsed time, delta, pause, time
+ * scale and single-stepping, feeds the TSL time node used by the demos and
+ * splits time into fixed steps for game logic.
+ */
+export class EngineClock {
+  // Fixed timestep for game logic, in seconds
+  readonly fixedDelta: number;
+  // Caps catch-up after a stalled tab so logic never runs hundreds of steps
+  maxDelta = 0.25;
+  maxStepsPerTick = 8;
+
+  // Replaces TSL.time, which keeps running while the lab is paused
+  readonly timeNode = TSL.uniform(0);
+
+  private elapsed = 0;
+  private lastDelta = 0;
+  private frameCount = 0;
+  private accumulator = 0;
+  private scale = 1;
+  private paused = false;
+  private pendingSteps = 0;
+  private lastNow: number | null = null;
+  // Set while exporting: every tick advances exactly this much
+  private frameDelta: number | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(fixedDelta = 1 / 60) {
+    this.fixedDelta = fixedDelta;
+  }
+
+  get time(): number {
+    return this.elapsed;
+  }
+
+  get delta(): number {
+    return this.lastDelta;
+  }
+
+  get frame(): number {
+    return this.frameCount;
+  }
+
+  get timeScale(): number {
+    return this.scale;
+  }
+
+  set timeScale(value: number) {
+    this.scale = Math.max(0, value);
+    this.notify();
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.notify();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.notify();
+  }
+
+  toggle(): void {
+    if (this.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  // Advances exactly `frames` fixed steps on the next ticks, pausing first
+  step(frames = 1): void {
+    this.paused = true;
+    this.pendingSteps += frames;
+    this.notify();
+  }
+
+  /**
+   * Decouples the clock from real time: while set, every tick advances by
+   * `seconds` (times the time scale), paused or not. Used by frame export.
+   */
+  useFrameDelta(seconds: number | null): void {
+    this.frameDelta = seconds;
+    // No catch-up jump when real time takes over again
+    this.lastNow = null;
+  }
+
+  // Called once per animation frame by the engine
+  tick(now: number = performance.now()): ClockTick {
+    const real =
+      this.lastNow === null
+        ? 0
+        : Math.min((now - this.lastNow) / 1000, this.maxDelta);
+    this.lastNow = now;
+
+    let delta = 0;
+    if (this.frameDelta !== null) {
+      delta = this.frameDelta * this.scale;
+    } else if (this.pendingSteps > 0) {
+      this.pendingSteps--;
+      delta = this.fixedDelta;
+    } else if (!this.paused) {
+      delta = real * this.scale;
+    }
+
+    this.lastDelta = delta;
+    this.elapsed += delta;
+    this.accumulator += delta;
+    if (delta > 0) this.frameCount++;
+
+    let steps = Math.floor(this.accumulator / this.fixedDelta + 1e-9);
+    this.accumulator -= steps * this.fixedDelta;
+    if (steps > this.maxStepsPerTick) {
+      steps = this.maxStepsPerTick;
+      this.accumulator = 0;
+    }
+
+    this.timeNode.value = this.elapsed;
+    return { time: this.elapsed, delta, frame: this.frameCount, steps };
+  }
+
+  reset(): void {
+    this.elapsed = 0;
+    this.lastDelta = 0;
+    this.frameCount = 0;
+    this.accumulator = 0;
+    this.timeNode.value = 0;
+  }
+
+  // Fires on pause, resume, step and time scale changes
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,216 @@
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+import { createZip, ZipEntry } from "@/utils/zip";
+
+export type ExportFormat = "png-zip" | "webm";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // seconds of clock time
+}
+
+export interface ExportProgress {
+  frame: number;
+  total: number;
+}
+
+export interface ExportCallbacks {
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+// What the exporter drives, implemented by ThreeEngine
+export interface CaptureSource {
+  readonly canvas: HTMLCanvasElement;
+  beginCapture(width: number, height: number, fps: number): void;
+  // Advances the clock by exactly one frame and renders it
+  captureFrame(): void;
+  endCapture(): void;
+}
+
+const VP9_CODEC = "vp09.00.10.08";
+
+// Lets progress repaint and cancel clicks through between frames
+function nextTask(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("toBlob failed"))),
+      "image/png"
+    )
+  );
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError");
+}
+
+/**
+ * Renders a fixed number of frames with deterministic time steps, however
+ * long each frame takes, and packs them as a zipped PNG sequence or a WebM.
+ */
+export class FrameExporter {
+  private source: CaptureSource;
+
+  constructor(source: CaptureSource) {
+    this.source = source;
+  }
+
+  async export(
+    options: ExportOptions,
+    callbacks: ExportCallbacks = {}
+  ): Promise<Blob> {
+    // 4:2:0 video needs even dimensions
+    const width = Math.max(2, Math.round(options.width / 2) * 2);
+    const height = Math.max(2, Math.round(options.height / 2) * 2);
+    const total = Math.max(1, Math.round(options.duration * options.fps));
+    const settings = { ...options, width, height };
+
+    console.log(`🎬 Exporting ${total} frames`, settings);
+    this.source.beginCapture(width, height, options.fps);
+    try {
+      if (options.format === "png-zip") {
+        return await this.exportPngSequence(total, callbacks);
+      }
+      return typeof VideoEncoder !== "undefined"
+        ? await this.exportWebCodecs(settings, total, callbacks)
+        : await this.exportMediaRecorder(settings, total, callbacks);
+    } finally {
+      this.source.endCapture();
+    }
+  }
+
+  private async exportPngSequence(
+    total: number,
+    { onProgress, signal }: ExportCallbacks
+  ): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+    const digits = String(total).length;
+
+    for (let frame = 0; frame < total; frame++) {
+      throwIfAborted(signal);
+      this.source.captureFrame();
+      // toBlob snapshots the canvas synchronously, encoding happens after
+      const png = await canvasToPng(this.source.canvas);
+      entries.push({
+        name: `frame_${String(frame).padStart(Math.max(5, digits), "0")}.png`,
+        data: new Uint8Array(await png.arrayBuffer()),
+      });
+      onProgress?.({ frame: frame + 1, total });
+      await nextTask();
+    }
+    return createZip(entries);
+  }
+
+  // Frame accurate: every frame gets its exact timestamp
+  private async exportWebCodecs(
+    options: ExportOptions,
+    total: number,
+    { onProgress, signal }: ExportCallbacks
+  ): Promise<Blob> {
+    const { width, height, fps } = options;
+    const config: VideoEncoderConfig = {
+      codec: VP9_CODEC,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * 0.2),
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (!supported) {
+      console.warn("VP9 encoding unsupported, falling back to MediaRecorder");
+      return this.exportMediaRecorder(options, total, { onProgress, signal });
+    }
+
+    const target = new ArrayBufferTarget();
+    const muxer = new Muxer({
+      target,
+      video: { codec: "V_VP9", width, height, frameRate: fps },
+    });
+    let encodeError: unknown = null;
+    const encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (e) => (encodeError = e),
+    });
+    encoder.configure(config);
+
+    try {
+      const frameDuration = 1e6 / fps; // microseconds
+      for (let frame = 0; frame < total; frame++) {
+        throwIfAborted(signal);
+        if (encodeError) throw encodeError;
+        this.source.captureFrame();
+
+        const videoFrame = new VideoFrame(this.source.canvas, {
+          timestamp: Math.round(frame * frameDuration),
+          duration: Math.round(frameDuration),
+        });
+        encoder.encode(videoFrame, { keyFrame: frame % fps === 0 });
+        videoFrame.close();
+
+        // Backpressure, keep the encoder queue short
+        while (encoder.encodeQueueSize > 4) {
+          await new Promise((resolve) =>
+            encoder.addEventListener("dequeue", resolve, { once: true })
+          );
+        }
+        onProgress?.({ frame: frame + 1, total });
+        await nextTask();
+      }
+
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      muxer.finalize();
+      return new Blob([target.buffer], { type: "video/webm" });
+    } finally {
+      if (encoder.state !== "closed") encoder.close();
+    }
+  }
+
+  /**
+   * Fallback without WebCodecs. MediaRecorder timestamps frames on arrival,
+   * so frames are pushed on a real-time schedule; a frame that renders
+   * slower than 1/fps stretches in the output.
+   */
+  private async exportMediaRecorder(
+    options: ExportOptions,
+    total: number,
+    { onProgress, signal }: ExportCallbacks
+  ): Promise<Blob> {
+    const stream = this.source.canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType: "video/webm" });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    const stopped = new Promise<void>(
+      (resolve) => (recorder.onstop = () => resolve())
+    );
+
+    recorder.start();
+    const frameTime = 1000 / options.fps;
+    const start = performance.now();
+    try {
+      for (let frame = 0; frame < total; frame++) {
+        throwIfAborted(signal);
+        this.source.captureFrame();
+        track.requestFrame();
+        onProgress?.({ frame: frame + 1, total });
+
+        const due = start + (frame + 1) * frameTime;
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.max(0, due - performance.now()))
+        );
+      }
+    } finally {
+      recorder.stop();
+      track.stop();
+    }
+    await stopped;
+    return new Blob(chunks, { type: "video/webm" });
+  }
+}
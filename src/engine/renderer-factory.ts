@@ -0,0 +1,154 @@
+import * as THREE from "three";
+import * as WEBGPU from "three/webgpu";
+
+export type RendererType = "webgpu" | "webgl2" | "webgl";
+
+export const RENDERER_TYPES: RendererType[] = ["webgpu", "webgl2", "webgl"];
+
+export type EngineRenderer = THREE.WebGLRenderer | WEBGPU.WebGPURenderer;
+
+export interface RendererReport {
+  requested: RendererType;
+  // Backend actually in use, filled in after the async capability probe
+  backend: RendererType;
+  rendererClass: "WebGPURenderer" | "WebGLRenderer";
+  // Why each fallback step happened, in order
+  fallbacks: string[];
+  adapter?: Record<string, string>;
+  limits: Record<string, number | string | boolean>;
+}
+
+export function isRendererType(value: unknown): value is RendererType {
+  return RENDERER_TYPES.includes(value as RendererType);
+}
+
+function createWebGL2(canvas: HTMLCanvasElement): THREE.WebGLRenderer {
+  const gl2 = canvas.getContext("webgl2");
+  if (!gl2) throw new Error("No WebGL2 support");
+  return new THREE.WebGLRenderer({
+    canvas: canvas,
+    context: gl2,
+    antialias: true,
+    alpha: true,
+  });
+}
+
+function createWebGL(canvas: HTMLCanvasElement): THREE.WebGLRenderer {
+  return new THREE.WebGLRenderer({
+    canvas: canvas,
+    antialias: true,
+    alpha: true,
+  });
+}
+
+/**
+ * Creates the preferred renderer, falling back WebGPU -> WebGL2 -> WebGL.
+ * A canvas can only hold one context type, so every attempt that touched the
+ * canvas gets a fresh one.
+ */
+export function createRenderer(preference: RendererType): {
+  renderer: EngineRenderer;
+  report: RendererReport;
+} {
+  const fallbacks: string[] = [];
+  const chain = RENDERER_TYPES.slice(RENDERER_TYPES.indexOf(preference));
+  console.log(`Forcing ${preference} with fallbacks...`, chain);
+
+  for (const type of chain) {
+    const canvas = document.createElement("canvas");
+    try {
+      let renderer: EngineRenderer;
+      if (type === "webgpu") {
+        if (!navigator.gpu) throw new Error("No WebGPU support in browser");
+        renderer = new WEBGPU.WebGPURenderer({ canvas, antialias: true });
+      } else if (type === "webgl2") {
+        renderer = createWebGL2(canvas);
+      } else {
+        renderer = createWebGL(canvas);
+      }
+
+      console.log(`✅ Using ${type}`);
+      return {
+        renderer,
+        report: {
+          requested: preference,
+          backend: type,
+          rendererClass:
+            renderer instanceof THREE.WebGLRenderer
+              ? "WebGLRenderer"
+              : "WebGPURenderer",
+          fallbacks,
+          limits: {},
+        },
+      };
+    } catch (err) {
+      console.warn(`❌ ${type} failed:`, err);
+      fallbacks.push(`${type}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  throw new Error(`No renderer available: ${fallbacks.join("; ")}`);
+}
+
+/**
+ * Fills in the backend and device limits. WebGPURenderer may silently fall
+ * back to its WebGL2 backend, which is only known once it has initialized.
+ */
+export async function probeCapabilities(
+  renderer: EngineRenderer,
+  report: RendererReport
+): Promise<RendererReport> {
+  if (renderer instanceof THREE.WebGLRenderer) {
+    const caps = renderer.capabilities;
+    const gl = renderer.getContext();
+    // three.js r163+ only creates WebGL2 contexts, even when asked for WebGL
+    report.backend =
+      typeof WebGL2RenderingContext !== "undefined" &&
+      gl instanceof WebGL2RenderingContext
+        ? "webgl2"
+        : "webgl";
+    report.limits = {
+      maxTextureUnits: caps.maxTextures,
+      maxTextureDimension2D: caps.maxTextureSize,
+      maxCubemapSize: caps.maxCubemapSize,
+      maxAttributes: caps.maxAttributes,
+      maxVertexUniforms: caps.maxVertexUniforms,
+      maxFragmentUniforms: caps.maxFragmentUniforms,
+      maxSamples: caps.maxSamples,
+      precision: caps.precision,
+      floatRenderTargets: !!renderer.extensions.get("EXT_color_buffer_float"),
+    };
+    const debugInfo = gl.getExtension("WEBGL_debug_renderer_info");
+    if (debugInfo) {
+      report.adapter = {
+        vendor: String(gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL)),
+        renderer: String(gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)),
+      };
+    }
+    return report;
+  }
+
+  await renderer.init();
+  const backend = renderer.backend as { isWebGPUBackend?: boolean };
+  if (!backend.isWebGPUBackend) {
+    report.backend = "webgl2";
+    report.fallbacks.push("webgpu: WebGPURenderer fell back to WebGL2 backend");
+    return report;
+  }
+
+  const adapter = await navigator.gpu.requestAdapter();
+  if (adapter) {
+    for (const key in adapter.limits) {
+      const value = adapter.limits[key as keyof GPUSupportedLimits];
+      if (typeof value === "number") report.limits[key] = value;
+    }
+    const info = adapter.info;
+    report.adapter = {
+      vendor: info.vendor,
+      architecture: info.architecture,
+      device: info.device,
+      description: info.description,
+    };
+  }
+  return report;
+}
@@ -0,0 +1,639 @@
+// Compiles an SdfScene (./scene.ts) three ways that agree with each other:
+// a TSL node graph, a GLSL fragment shader for the fallback material and a
+// CPU evaluator for picking and checks.
+import * as THREE from "three";
+import * as TSL from "three/tsl";
+import {
+  UniformSchema,
+  UniformSet,
+  glslUniformName,
+} from "@/engine/uniform-schema";
+import * as CPU from "./cpu";
+import * as SDF from "./tsl";
+import { SDF_GLSL } from "./glsl";
+import {
+  SDF_SHAPES,
+  SdfColoring,
+  SdfNode,
+  SdfOperation,
+  SdfScalar,
+  SdfScene,
+  SdfSceneError,
+  SdfShapeName,
+  SdfVec2,
+  sceneUniforms,
+} from "./scene";
+
+type AnyUniformSet = UniformSet<UniformSchema>;
+
+const TSL_SHAPES: Record<SdfShapeName, (...args: any[]) => any> = {
+  circle: SDF.Circle,
+  ellipse: SDF.Ellipse,
+  box: SDF.Box,
+  roundedBox: SDF.RoundedBox,
+  triangle: SDF.Triangle,
+  polygon: SDF.Polygon,
+  segment: SDF.Segment,
+  arc: SDF.Arc,
+  star: SDF.Star,
+  heart: SDF.Heart,
+  moon: SDF.Moon,
+  flower: SDF.Flower,
+  butterfly: SDF.Butterfly,
+};
+
+const CPU_SHAPES: Record<SdfShapeName, (...args: any[]) => number> = {
+  circle: CPU.circle,
+  ellipse: CPU.ellipse,
+  box: CPU.box,
+  roundedBox: CPU.roundedBox,
+  triangle: CPU.triangle,
+  polygon: CPU.polygon,
+  segment: CPU.segment,
+  arc: CPU.arc,
+  star: CPU.star,
+  heart: CPU.heart,
+  moon: CPU.moon,
+  flower: CPU.flower,
+  butterfly: CPU.butterfly,
+};
+
+const TSL_OPERATIONS: Record<SdfOperation, (...args: any[]) => any> = {
+  union: SDF.Union,
+  subtraction: SDF.Subtraction,
+  intersection: SDF.Intersection,
+  smoothUnion: SDF.SmoothUnion,
+  smoothSubtraction: SDF.SmoothSubtraction,
+  smoothIntersection: SDF.SmoothIntersection,
+};
+
+const CPU_OPERATIONS: Record<
+  SdfOperation,
+  (a: number, b: number, k: number) => number
+> = {
+  union: CPU.union,
+  subtraction: CPU.subtraction,
+  intersection: CPU.intersection,
+  smoothUnion: CPU.smoothUnion,
+  smoothSubtraction: CPU.smoothSubtraction,
+  smoothIntersection: CPU.smoothIntersection,
+};
+
+const DEFAULT_FADE = 1.5;
+const DEFAULT_BANDS = 100;
+const DEFAULT_ISOLINE_FADE = 6;
+// Antialiasing width of solid fills, in scene units
+const EDGE = 0.005;
+// Half width of the outline around an edited node
+const EDIT_OUTLINE = 0.006;
+
+// "#rrggbb" as written, without color management, so both backends match
+function rgb(hex: string): THREE.Vector3Tuple {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(
+    (channel) => channel / 255
+  ) as THREE.Vector3Tuple;
+}
+
+// Binary operators fold left; subtraction removes later children from the first
+function fold<T>(op: SdfOperation, children: T[], apply: (a: T, b: T) => T): T {
+  return children
+    .slice(1)
+    .reduce(
+      (acc, child) =>
+        op === "subtraction" ? apply(child, acc) : apply(acc, child),
+      children[0]
+    );
+}
+
+// Every bound uniform must exist in the demo and be a float
+function checkUniforms(scene: SdfScene, uniforms: AnyUniformSet): void {
+  sceneUniforms(scene).forEach((name) => {
+    const spec = uniforms.schema[name];
+    if (!spec) {
+      throw new SdfSceneError(
+        `uniform "${name}"`,
+        `not a uniform of this demo (${uniforms.names().join(", ")})`
+      );
+    }
+    if (spec.type !== "float") {
+      throw new SdfSceneError(
+        `uniform "${name}"`,
+        `only float uniforms can be bound, this one is ${spec.type}`
+      );
+    }
+  });
+}
+
+// ----------------------------------------------------------------------- TSL
+
+/**
+ * Live transform of one node on top of its own, so an editor can drag it
+ * without recompiling: `offset` adds to translate, `rotation` to rotate and
+ * `scale` multiplies scale. The node is outlined.
+ */
+export interface SdfEdit<T> {
+  node: SdfNode;
+  offset: T; // vec2
+  rotation: T;
+  scale: T;
+}
+
+export interface TslSceneInputs {
+  position: any; // vec2 node
+  time: any; // float node, the engine clock's
+  uniforms: AnyUniformSet;
+  edit?: SdfEdit<any>; // uniform nodes
+}
+
+export function compileSdfSceneTSL(
+  scene: SdfScene,
+  { position, time, uniforms, edit }: TslSceneInputs
+): { distance: any; colour: any } {
+  checkUniforms(scene, uniforms);
+
+  const scalar = (value: SdfScalar): any => {
+    if (typeof value === "number") return TSL.float(value);
+    let node =
+      value.time !== undefined
+        ? time.mul(value.time)
+        : uniforms.node(value.uniform!);
+    if (value.wave) node = TSL[value.wave](node);
+    if (value.amplitude !== undefined) node = node.mul(value.amplitude);
+    if (value.offset !== undefined) node = node.add(value.offset);
+    return node;
+  };
+  const vec2 = ([x, y]: SdfVec2): any => TSL.vec2(scalar(x), scalar(y));
+
+  let edited: any = null;
+
+  const compile = (node: SdfNode, p: any): any => {
+    const live = node === edit?.node ? edit : null;
+    let q = p;
+    if (node.translate) q = q.sub(vec2(node.translate));
+    if (live) q = q.sub(live.offset);
+    if (node.rotate !== undefined || live) {
+      const angle = node.rotate !== undefined ? scalar(node.rotate) : null;
+      q = SDF.Rotate(
+        q,
+        live ? (angle ? angle.add(live.rotation) : live.rotation) : angle
+      );
+    }
+    let uniformScale =
+      node.scale !== undefined && !Array.isArray(node.scale)
+        ? scalar(node.scale)
+        : null;
+    if (live && !Array.isArray(node.scale)) {
+      uniformScale = uniformScale ? uniformScale.mul(live.scale) : live.scale;
+    }
+    if (uniformScale) q = q.div(uniformScale);
+    if (Array.isArray(node.scale)) {
+      q = q.div(live ? vec2(node.scale).mul(live.scale) : vec2(node.scale));
+    }
+    if (node.mirror) q = SDF.Mirror(q, vec2(node.mirror));
+    if (node.repeat) {
+      const { spacing, limit } = node.repeat;
+      q = limit
+        ? SDF.RepeatLimited(q, vec2(spacing), vec2(limit))
+        : SDF.Repeat(q, vec2(spacing));
+    }
+    if (node.twist !== undefined) q = SDF.Twist(q, scalar(node.twist));
+
+    let d;
+    if ("shape" in node) {
+      const args = Object.keys(SDF_SHAPES[node.shape]).map((name) => {
+        const value = node.params[name];
+        return Array.isArray(value) ? vec2(value) : scalar(value);
+      });
+      d = TSL_SHAPES[node.shape](q, ...args);
+    } else {
+      const k = node.k !== undefined ? scalar(node.k) : null;
+      const apply = TSL_OPERATIONS[node.op];
+      d = fold(
+        node.op,
+        node.children.map((child) => compile(child, q)),
+        (a, b) => (k ? apply(a, b, k) : apply(a, b))
+      );
+    }
+
+    if (uniformScale) d = d.mul(uniformScale);
+    if (node.round !== undefined) d = SDF.Round(d, scalar(node.round));
+    if (node.onion !== undefined) d = SDF.Onion(d, scalar(node.onion));
+    if (live) edited = d;
+    return d;
+  };
+
+  const distance = compile(scene.root, position);
+  let colour = colourTSL(scene.coloring, distance, position, time, scalar);
+  if (edited) {
+    const line = TSL.smoothstep(
+      EDIT_OUTLINE - EDGE,
+      EDIT_OUTLINE + EDGE,
+      TSL.abs(edited)
+    ).oneMinus();
+    colour = TSL.mix(colour, TSL.vec3(1), line);
+  }
+  return { distance, colour };
+}
+
+function colourTSL(
+  coloring: SdfColoring,
+  d: any,
+  p: any,
+  time: any,
+  scalar: (value: SdfScalar) => any
+): any {
+  switch (coloring.mode) {
+    case "palette": {
+      const fade = scalar(coloring.fade ?? DEFAULT_FADE);
+      const palette = (phase: THREE.Vector3Tuple) =>
+        TSL.cos(
+          TSL.vec3(time)
+            .add(p.xyx)
+            .add(TSL.vec3(...phase))
+        )
+          .mul(0.5)
+          .add(0.5);
+      const colour = TSL.select(
+        d.lessThan(0),
+        palette([0, 2, 4]).mul(d.mul(fade).oneMinus()),
+        palette([4, 2, 0]).mul(TSL.abs(d.mul(fade)).oneMinus())
+      );
+      return TSL.mix(
+        TSL.vec3(0),
+        colour,
+        TSL.abs(TSL.sin(d.mul(coloring.bands ?? DEFAULT_BANDS).add(time)))
+      );
+    }
+    case "solid": {
+      const fill = TSL.smoothstep(-EDGE, EDGE, d).oneMinus();
+      let colour = TSL.mix(
+        TSL.vec3(...rgb(coloring.background)),
+        TSL.vec3(...rgb(coloring.fill)),
+        fill
+      );
+      if (coloring.outline) {
+        const width = coloring.outlineWidth ?? 0.01;
+        const line = TSL.smoothstep(
+          width - EDGE,
+          width + EDGE,
+          TSL.abs(d)
+        ).oneMinus();
+        colour = TSL.mix(colour, TSL.vec3(...rgb(coloring.outline)), line);
+      }
+      return colour;
+    }
+    case "isolines": {
+      const fade = scalar(coloring.fade ?? DEFAULT_ISOLINE_FADE);
+      const base = TSL.select(
+        d.lessThan(0),
+        TSL.vec3(0.65, 0.85, 1.0),
+        TSL.vec3(0.9, 0.6, 0.3)
+      )
+        .mul(TSL.exp(TSL.abs(d).mul(fade).negate()).oneMinus())
+        .mul(TSL.cos(d.mul(150)).mul(0.2).add(0.8));
+      return TSL.mix(
+        base,
+        TSL.vec3(1),
+        TSL.smoothstep(0, 0.01, TSL.abs(d)).oneMinus()
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------------------------- GLSL
+
+const literal = (value: number): string => {
+  const text = Number.isInteger(value) ? value.toFixed(1) : String(value);
+  return value < 0 ? `(${text})` : text;
+};
+
+const glslColor = (hex: string): string =>
+  `vec3(${rgb(hex).map(literal).join(", ")})`;
+
+/**
+ * Fragment shader for a ShaderMaterial whose uniforms include uTime and the
+ * demo's `uniforms.glsl`, reading the plane position from `vPosition`. With
+ * `edited`, the SdfEdit transform is read from uEditOffset, uEditRotation
+ * and uEditScale.
+ */
+export function compileSdfSceneGLSL(
+  scene: SdfScene,
+  uniforms: AnyUniformSet,
+  edited: SdfNode | null = null
+): string {
+  checkUniforms(scene, uniforms);
+
+  const lines: string[] = [];
+  let counter = 0;
+  const temp = (type: "float" | "vec2", expression: string): string => {
+    const name = `${type === "float" ? "d" : "p"}${counter++}`;
+    lines.push(`  ${type} ${name} = ${expression};`);
+    return name;
+  };
+
+  const scalar = (value: SdfScalar): string => {
+    if (typeof value === "number") return literal(value);
+    let code =
+      value.time !== undefined
+        ? `(uTime * ${literal(value.time)})`
+        : glslUniformName(value.uniform!, uniforms.schema[value.uniform!]);
+    if (value.wave) code = `${value.wave}(${code})`;
+    if (value.amplitude !== undefined) {
+      code = `(${code} * ${literal(value.amplitude)})`;
+    }
+    if (value.offset !== undefined) {
+      code = `(${code} + ${literal(value.offset)})`;
+    }
+    return code;
+  };
+  const vec2 = ([x, y]: SdfVec2): string => `vec2(${scalar(x)}, ${scalar(y)})`;
+  const glslName = (prefix: string, name: string) =>
+    `${prefix}${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+
+  const compile = (node: SdfNode, p: string): string => {
+    const live = node === edited;
+    let q = p;
+    if (node.translate) q = temp("vec2", `${q} - ${vec2(node.translate)}`);
+    if (live) q = temp("vec2", `${q} - uEditOffset`);
+    if (node.rotate !== undefined || live) {
+      const angle = [
+        ...(node.rotate !== undefined ? [scalar(node.rotate)] : []),
+        ...(live ? ["uEditRotation"] : []),
+      ].join(" + ");
+      q = temp("vec2", `opRotate(${q}, ${angle})`);
+    }
+    let uniformScale =
+      node.scale !== undefined && !Array.isArray(node.scale)
+        ? scalar(node.scale)
+        : null;
+    if (live && !Array.isArray(node.scale)) {
+      uniformScale = uniformScale
+        ? `${uniformScale} * uEditScale`
+        : "uEditScale";
+    }
+    if (uniformScale) {
+      uniformScale = temp("float", uniformScale);
+      q = temp("vec2", `${q} / ${uniformScale}`);
+    }
+    if (Array.isArray(node.scale)) {
+      const scale = live
+        ? `(${vec2(node.scale)} * uEditScale)`
+        : vec2(node.scale);
+      q = temp("vec2", `${q} / ${scale}`);
+    }
+    if (node.mirror) q = temp("vec2", `opMirror(${q}, ${vec2(node.mirror)})`);
+    if (node.repeat) {
+      const { spacing, limit } = node.repeat;
+      q = temp(
+        "vec2",
+        limit
+          ? `opRepeatLimited(${q}, ${vec2(spacing)}, ${vec2(limit)})`
+          : `opRepeat(${q}, ${vec2(spacing)})`
+      );
+    }
+    if (node.twist !== undefined) {
+      q = temp("vec2", `opTwist(${q}, ${scalar(node.twist)})`);
+    }
+
+    let d: string;
+    if ("shape" in node) {
+      const args = Object.keys(SDF_SHAPES[node.shape]).map((name) => {
+        const value = node.params[name];
+        return Array.isArray(value) ? vec2(value) : scalar(value);
+      });
+      d = temp(
+        "float",
+        `${glslName("sd", node.shape)}(${[q, ...args].join(", ")})`
+      );
+    } else {
+      const k = node.k !== undefined ? scalar(node.k) : null;
+      const children = node.children.map((child) => compile(child, q));
+      d = fold(node.op, children, (a, b) => {
+        switch (node.op) {
+          case "union":
+            return temp("float", `min(${a}, ${b})`);
+          case "subtraction":
+            return temp("float", `max(-${a}, ${b})`);
+          case "intersection":
+            return temp("float", `max(${a}, ${b})`);
+          default:
+            return temp(
+              "float",
+              `${glslName("op", node.op)}(${a}, ${b}, ${k})`
+            );
+        }
+      });
+    }
+
+    if (uniformScale) d = temp("float", `${d} * ${uniformScale}`);
+    if (node.round !== undefined) {
+      d = temp("float", `${d} - ${scalar(node.round)}`);
+    }
+    if (node.onion !== undefined) {
+      d = temp("float", `abs(${d}) - ${scalar(node.onion)}`);
+    }
+    if (live) lines.push(`  editedDistance = ${d};`);
+    return d;
+  };
+
+  const result = compile(scene.root, "p");
+  const declarations = Array.from(sceneUniforms(scene)).map(
+    (name) => `uniform float ${glslUniformName(name, uniforms.schema[name])};`
+  );
+
+  const edit = edited
+    ? {
+        declarations: [
+          "uniform vec2 uEditOffset;",
+          "uniform float uEditRotation;",
+          "uniform float uEditScale;",
+          "float editedDistance = 1e3;",
+        ],
+        outline: `  colour = mix(colour, vec3(1.0), 1.0 - smoothstep(${literal(
+          EDIT_OUTLINE - EDGE
+        )}, ${literal(EDIT_OUTLINE + EDGE)}, abs(editedDistance)));`,
+      }
+    : { declarations: [], outline: "" };
+
+  return [
+    "uniform float uTime;",
+    ...declarations,
+    ...edit.declarations,
+    "varying vec3 vPosition;",
+    SDF_GLSL,
+    "float sceneSDF(vec2 p) {",
+    ...lines,
+    `  return ${result};`,
+    "}",
+    "",
+    "void main() {",
+    "  vec2 p = vPosition.xy;",
+    "  float d = sceneSDF(p);",
+    colourGLSL(scene.coloring, scalar),
+    edit.outline,
+    "  gl_FragColor = vec4(colour, 1.0);",
+    "}",
+  ].join("\n");
+}
+
+function colourGLSL(
+  coloring: SdfColoring,
+  scalar: (value: SdfScalar) => string
+): string {
+  switch (coloring.mode) {
+    case "palette": {
+      const fade = scalar(coloring.fade ?? DEFAULT_FADE);
+      return `
+  vec3 inside = 0.5 + 0.5 * cos(uTime + p.xyx + vec3(0.0, 2.0, 4.0));
+  vec3 outside = 0.5 + 0.5 * cos(uTime + p.xyx + vec3(4.0, 2.0, 0.0));
+  vec3 colour = d < 0.0
+    ? inside * (1.0 - d * ${fade})
+    : outside * (1.0 - abs(d * ${fade}));
+  colour = mix(vec3(0.0), colour, abs(sin(d * ${literal(
+    coloring.bands ?? DEFAULT_BANDS
+  )} + uTime)));`;
+    }
+    case "solid": {
+      const edge = literal(EDGE);
+      const width = literal(coloring.outlineWidth ?? 0.01);
+      const outline = coloring.outline
+        ? `
+  float line = 1.0 - smoothstep(${width} - ${edge}, ${width} + ${edge}, abs(d));
+  colour = mix(colour, ${glslColor(coloring.outline)}, line);`
+        : "";
+      return `
+  float fill = 1.0 - smoothstep(-${edge}, ${edge}, d);
+  vec3 colour = mix(${glslColor(coloring.background)}, ${glslColor(
+        coloring.fill
+      )}, fill);${outline}`;
+    }
+    case "isolines": {
+      const fade = scalar(coloring.fade ?? DEFAULT_ISOLINE_FADE);
+      return `
+  vec3 colour = (d < 0.0 ? vec3(0.65, 0.85, 1.0) : vec3(0.9, 0.6, 0.3))
+    * (1.0 - exp(-abs(d) * ${fade}))
+    * (0.8 + 0.2 * cos(d * 150.0));
+  colour = mix(colour, vec3(1.0), 1.0 - smoothstep(0.0, 0.01, abs(d)));`;
+    }
+  }
+}
+
+// ----------------------------------------------------------------------- CPU
+
+export interface CpuSceneInputs {
+  time: number;
+  uniforms: AnyUniformSet;
+}
+
+function cpuEvaluator({ time, uniforms }: CpuSceneInputs) {
+  const scalar = (value: SdfScalar): number => {
+    if (typeof value === "number") return value;
+    let result =
+      value.time !== undefined
+        ? time * value.time
+        : (uniforms.get(value.uniform!) as number);
+    if (value.wave) result = Math[value.wave](result);
+    return result * (value.amplitude ?? 1) + (value.offset ?? 0);
+  };
+  const vec2 = ([x, y]: SdfVec2): CPU.Vec2 => ({ x: scalar(x), y: scalar(y) });
+
+  // Position in the node's own space, where its children are evaluated
+  const domain = (node: SdfNode, position: CPU.Vec2): CPU.Vec2 => {
+    let q = position;
+    if (node.translate) {
+      const t = vec2(node.translate);
+      q = { x: q.x - t.x, y: q.y - t.y };
+    }
+    if (node.rotate !== undefined) q = CPU.rotate(q, scalar(node.rotate));
+    const s = Array.isArray(node.scale)
+      ? vec2(node.scale)
+      : node.scale !== undefined
+      ? { x: scalar(node.scale), y: scalar(node.scale) }
+      : null;
+    if (s) q = { x: q.x / s.x, y: q.y / s.y };
+    if (node.mirror) q = CPU.mirror(q, vec2(node.mirror));
+    if (node.repeat) {
+      const { spacing, limit } = node.repeat;
+      q = limit
+        ? CPU.repeatLimited(q, vec2(spacing), vec2(limit))
+        : CPU.repeat(q, vec2(spacing));
+    }
+    if (node.twist !== undefined) q = CPU.twist(q, scalar(node.twist));
+    return q;
+  };
+
+  const evaluate = (node: SdfNode, position: CPU.Vec2): number => {
+    const q = domain(node, position);
+
+    let d: number;
+    if ("shape" in node) {
+      const args = Object.keys(SDF_SHAPES[node.shape]).map((name) => {
+        const value = node.params[name];
+        return Array.isArray(value) ? vec2(value) : scalar(value);
+      });
+      d = CPU_SHAPES[node.shape](q, ...args);
+    } else {
+      const k = node.k !== undefined ? scalar(node.k) : 0;
+      const apply = CPU_OPERATIONS[node.op];
+      d = fold(
+        node.op,
+        node.children.map((child) => evaluate(child, q)),
+        (a, b) => apply(a, b, k)
+      );
+    }
+
+    if (node.scale !== undefined && !Array.isArray(node.scale)) {
+      d *= scalar(node.scale);
+    }
+    if (node.round !== undefined) d = CPU.round(d, scalar(node.round));
+    if (node.onion !== undefined) d = CPU.onion(d, scalar(node.onion));
+    return d;
+  };
+
+  return { domain, evaluate };
+}
+
+// Scene distance at `p`, same value the shaders compute for that position
+export function evaluateSdfScene(
+  scene: SdfScene,
+  p: CPU.Vec2,
+  inputs: CpuSceneInputs
+): number {
+  checkUniforms(scene, inputs.uniforms);
+  return cpuEvaluator(inputs).evaluate(scene.root, p);
+}
+
+// `p` in the space of the root's children, where their translate applies
+export function sdfRootSpace(
+  scene: SdfScene,
+  p: CPU.Vec2,
+  inputs: CpuSceneInputs
+): CPU.Vec2 {
+  return cpuEvaluator(inputs).domain(scene.root, p);
+}
+
+/**
+ * Index of the root child whose shape contains `p`, the one `p` is deepest
+ * inside when they overlap, or -1. Only operation roots have children.
+ */
+export function pickSdfChild(
+  scene: SdfScene,
+  p: CPU.Vec2,
+  inputs: CpuSceneInputs
+): number {
+  if (!("op" in scene.root)) return -1;
+  checkUniforms(scene, inputs.uniforms);
+  const { domain, evaluate } = cpuEvaluator(inputs);
+  const q = domain(scene.root, p);
+  let picked = -1;
+  let deepest = 0;
+  scene.root.children.forEach((child, i) => {
+    const d = evaluate(child, q);
+    if (d < deepest) {
+      picked = i;
+      deepest = d;
+    }
+  });
+  return picked;
+}
@@ -0,0 +1,263 @@
+// Plain TypeScript mirror of the 2D SDF library in ./tsl.ts and of the demo
+// scenes written in code (JSON scenes are evaluated by ./compile.ts). Same
+// arguments, same math, same results as the TSL Fns, so distances can be
+// checked, picked and collided against on the CPU. Change both sides
+// together; accuracy notes live in ./tsl.ts.
+
+// Structurally compatible with THREE.Vector2
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+const length = (x: number, y: number): number => Math.sqrt(x * x + y * y);
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+const sign = (value: number): number => (value > 0 ? 1 : value < 0 ? -1 : 0);
+
+// GLSL mod, the result takes the sign of `y`
+const mod = (x: number, y: number): number => x - y * Math.floor(x / y);
+
+const offset = (p: Vec2, x: number, y: number): Vec2 => ({
+  x: p.x - x,
+  y: p.y - y,
+});
+
+// ---------------------------------------------------------------- primitives
+
+export function circle(p: Vec2, radius: number): number {
+  return length(p.x, p.y) - radius;
+}
+
+export function ellipse(p: Vec2, semiAxes: Vec2): number {
+  return (
+    (length(p.x / semiAxes.x, p.y / semiAxes.y) - 1) *
+    Math.min(semiAxes.x, semiAxes.y)
+  );
+}
+
+export function box(p: Vec2, halfSize: Vec2): number {
+  const dx = Math.abs(p.x) - halfSize.x;
+  const dy = Math.abs(p.y) - halfSize.y;
+  return (
+    length(Math.max(dx, 0), Math.max(dy, 0)) + Math.min(Math.max(dx, dy), 0)
+  );
+}
+
+export function roundedBox(p: Vec2, halfSize: Vec2, radius: number): number {
+  return box(p, { x: halfSize.x - radius, y: halfSize.y - radius }) - radius;
+}
+
+export function triangle(p: Vec2, radius: number): number {
+  const k = Math.sqrt(3);
+  let x = Math.abs(p.x) - radius;
+  let y = p.y + radius / k;
+  if (x + k * y > 0) {
+    [x, y] = [(x - k * y) / 2, (-k * x - y) / 2];
+  }
+  x -= clamp(x, -2 * radius, 0);
+  return -length(x, y) * sign(y);
+}
+
+// Folds p into the first of `corners` sectors, shared by polygon and star
+function foldSector(p: Vec2, radius: number, corners: number) {
+  const an = Math.PI / corners;
+  const acs = { x: Math.cos(an), y: Math.sin(an) };
+  const bn = mod(Math.atan2(p.x, p.y), 2 * an) - an;
+  const r = length(p.x, p.y);
+  return {
+    acs,
+    q: {
+      x: r * Math.cos(bn) - radius * acs.x,
+      y: r * Math.abs(Math.sin(bn)) - radius * acs.y,
+    },
+  };
+}
+
+export function polygon(p: Vec2, radius: number, sides: number): number {
+  const { acs, q } = foldSector(p, radius, sides);
+  const y = q.y + clamp(-q.y, 0, radius * acs.y);
+  return length(q.x, y) * sign(q.x);
+}
+
+export function segment(p: Vec2, start: Vec2, end: Vec2): number {
+  const lx = end.x - start.x;
+  const ly = end.y - start.y;
+  const px = p.x - start.x;
+  const py = p.y - start.y;
+  const t = clamp((px * lx + py * ly) / (lx * lx + ly * ly), 0, 1);
+  return length(px - t * lx, py - t * ly);
+}
+
+export function directionLine(p: Vec2, direction: Vec2, len: number): number {
+  const t = clamp(p.x * direction.x + p.y * direction.y, 0, len);
+  return length(p.x - t * direction.x, p.y - t * direction.y);
+}
+
+export function arc(
+  p: Vec2,
+  aperture: number,
+  radius: number,
+  thickness: number
+): number {
+  const sx = Math.sin(aperture);
+  const sy = Math.cos(aperture);
+  const x = Math.abs(p.x);
+  const distance =
+    sy * x > sx * p.y
+      ? length(x - sx * radius, p.y - sy * radius)
+      : Math.abs(length(x, p.y) - radius);
+  return distance - thickness;
+}
+
+export function star(
+  p: Vec2,
+  radius: number,
+  points: number,
+  sharpness: number
+): number {
+  const { acs, q } = foldSector(p, radius, points);
+  const en = Math.PI / sharpness;
+  const ex = Math.cos(en);
+  const ey = Math.sin(en);
+  const t = clamp(-(q.x * ex + q.y * ey), 0, (radius * acs.y) / ey);
+  const x = q.x + ex * t;
+  return length(x, q.y + ey * t) * sign(x);
+}
+
+export function heart(p: Vec2, size: number): number {
+  const x = Math.abs(p.x) / size;
+  const y = p.y / size;
+  if (x + y > 1) {
+    return (length(x - 0.25, y - 0.75) - Math.SQRT2 / 4) * size;
+  }
+  const h = 0.5 * Math.max(x + y, 0);
+  const distance = Math.sqrt(
+    Math.min(x * x + (y - 1) * (y - 1), (x - h) * (x - h) + (y - h) * (y - h))
+  );
+  return distance * sign(x - y) * size;
+}
+
+export function moon(p: Vec2, radius: number): number {
+  const inner = length(p.x / 0.8 - 0.15, p.y / 0.8) - radius;
+  const outer = length(p.x, p.y) - radius;
+  return Math.max(-inner, outer);
+}
+
+export function flower(
+  p: Vec2,
+  radius: number,
+  frequency: number,
+  amplitude: number
+): number {
+  const bumps = Math.cos(Math.atan2(p.y, p.x) * frequency) * amplitude;
+  return length(p.x, p.y) - radius + bumps;
+}
+
+export function butterfly(
+  p: Vec2,
+  radius: number,
+  frequency: number,
+  amplitude: number
+): number {
+  const bumps =
+    Math.cos(Math.atan2(p.y, p.x) * frequency) * (amplitude * (1 + p.y * 1.5));
+  return length(p.x, p.y) - radius + bumps;
+}
+
+// ----------------------------------------------------------------- operators
+
+export const union = (a: number, b: number): number => Math.min(a, b);
+
+// Removes `a` from `b`
+export const subtraction = (a: number, b: number): number => Math.max(-a, b);
+
+export const intersection = (a: number, b: number): number => Math.max(a, b);
+
+export function smoothUnion(a: number, b: number, k: number): number {
+  const h = clamp(0.5 + (0.5 * (b - a)) / k, 0, 1);
+  return b + (a - b) * h - k * h * (1 - h);
+}
+
+export function smoothSubtraction(a: number, b: number, k: number): number {
+  const h = clamp(0.5 - (0.5 * (b + a)) / k, 0, 1);
+  return b + (-a - b) * h + k * h * (1 - h);
+}
+
+export function smoothIntersection(a: number, b: number, k: number): number {
+  const h = clamp(0.5 - (0.5 * (b - a)) / k, 0, 1);
+  return b + (a - b) * h + k * h * (1 - h);
+}
+
+export const round = (distance: number, radius: number): number =>
+  distance - radius;
+
+export const onion = (distance: number, thickness: number): number =>
+  Math.abs(distance) - thickness;
+
+// Counter-clockwise, like TSL.rotate
+export function rotate(p: Vec2, angle: number): Vec2 {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return { x: c * p.x - s * p.y, y: s * p.x + c * p.y };
+}
+
+// Math.round rounds halves up where the shader round() may not, so results
+// can differ exactly on cell borders
+export function repeat(p: Vec2, spacing: Vec2): Vec2 {
+  return {
+    x: p.x - spacing.x * Math.round(p.x / spacing.x),
+    y: p.y - spacing.y * Math.round(p.y / spacing.y),
+  };
+}
+
+export function repeatLimited(p: Vec2, spacing: Vec2, limit: Vec2): Vec2 {
+  return {
+    x: p.x - spacing.x * clamp(Math.round(p.x / spacing.x), -limit.x, limit.x),
+    y: p.y - spacing.y * clamp(Math.round(p.y / spacing.y), -limit.y, limit.y),
+  };
+}
+
+export function mirror(p: Vec2, normal: Vec2): Vec2 {
+  const d = Math.min(p.x * normal.x + p.y * normal.y, 0) * 2;
+  return { x: p.x - normal.x * d, y: p.y - normal.y * d };
+}
+
+export function twist(p: Vec2, strength: number): Vec2 {
+  return rotate(p, length(p.x, p.y) * strength);
+}
+
+// -------------------------------------------------------------------- scenes
+
+// Rotating box slightly inside the circle of the same radius
+function insetBox(p: Vec2, radius: number, angle: number): number {
+  const inset = radius - 0.025;
+  return box(rotate(p, angle), { x: inset, y: inset });
+}
+
+export interface RaymarchingSceneParams {
+  radius: number;
+  time: number; // seconds, the clock time the TSL version sees
+  timeMultiplier: number;
+}
+
+// sdfScene in TSLPlaneRaymarching, `p` is the local position times 1.5
+export function raymarchingScene(
+  p: Vec2,
+  { radius, time, timeMultiplier }: RaymarchingSceneParams
+): number {
+  const t = time * timeMultiplier;
+  const top = offset(p, 0, 0.66);
+  const right = offset(p, 0.66, 0.33);
+  const bottom = offset(p, 0, -0.66);
+  return Math.min(
+    circle(offset(p, -0.66, 0.33), radius),
+    intersection(circle(top, radius), insetBox(top, radius, t)),
+    subtraction(circle(right, radius), insetBox(right, radius, t)),
+    moon(rotate(offset(p, 0.66, -0.33), t), radius),
+    box(rotate(offset(p, -0.66, -0.33), -t), { x: radius, y: 0.25 }),
+    union(circle(bottom, radius), insetBox(bottom, radius, t))
+  );
+}
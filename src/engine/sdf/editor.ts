@@ -0,0 +1,395 @@
+// Interactive editing of an SdfScene drawn on a plane: pick shapes by
+// clicking inside them, drag to move, wheel to scale (shift: rotate), add
+// and delete top-level shapes, change boolean operations, undo and redo.
+import * as THREE from "three";
+import type { DemoEditor } from "@/engine/demo-registry";
+import type { UniformSchema, UniformSet } from "@/engine/uniform-schema";
+import {
+  SDF_OPERATIONS,
+  SdfNode,
+  SdfOperation,
+  SdfOperationNode,
+  SdfScalar,
+  SdfScene,
+  SdfShapeName,
+  SdfShapeNode,
+  parseSdfScene,
+} from "./scene";
+import { pickSdfChild, sdfRootSpace } from "./compile";
+
+// Implemented by TSLPlaneSDF
+export interface SdfEditorTarget {
+  mesh: THREE.Mesh;
+  uniforms: UniformSet<UniformSchema>;
+  readonly elapsed: number; // clock seconds of the last update
+  setScene(scene: SdfScene, edited: SdfNode | null): void;
+  setEditTransform(
+    offset: THREE.Vector2,
+    rotation: number,
+    scale: number
+  ): void;
+}
+
+// Parameters of shapes added from the palette, sized for the demo plane
+const NEW_SHAPES: Record<SdfShapeName, Omit<SdfShapeNode, "shape">> = {
+  circle: { params: { radius: 0.25 } },
+  ellipse: { params: { semiAxes: [0.3, 0.15] } },
+  box: { params: { halfSize: [0.2, 0.2] } },
+  roundedBox: { params: { halfSize: [0.25, 0.2], radius: 0.05 } },
+  triangle: { params: { radius: 0.25 } },
+  polygon: { params: { radius: 0.25, sides: 6 } },
+  segment: { params: { start: [-0.25, 0], end: [0.25, 0] }, round: 0.03 },
+  arc: { params: { aperture: 2, radius: 0.25, thickness: 0.03 } },
+  star: { params: { radius: 0.3, points: 5, sharpness: 3 } },
+  heart: { translate: [0, -0.2], params: { size: 0.4 } },
+  moon: { params: { radius: 0.25 } },
+  flower: { params: { radius: 0.25, frequency: 8, amplitude: 0.05 } },
+  butterfly: { params: { radius: 0.25, frequency: 4, amplitude: 0.1 } },
+};
+
+const HISTORY_LIMIT = 100;
+// Wheel events are merged into one undo step after this pause
+const WHEEL_COMMIT_DELAY = 250;
+const WHEEL_SCALE_SPEED = 0.001;
+const WHEEL_ROTATE_SPEED = 0.002;
+
+// Offsets keep animation bindings intact: bound values shift or scale
+function addScalar(value: SdfScalar | undefined, delta: number): SdfScalar {
+  if (value === undefined || typeof value === "number") {
+    return (value ?? 0) + delta;
+  }
+  return { ...value, offset: (value.offset ?? 0) + delta };
+}
+
+function mulScalar(value: SdfScalar | undefined, factor: number): SdfScalar {
+  if (value === undefined || typeof value === "number") {
+    return (value ?? 1) * factor;
+  }
+  return {
+    ...value,
+    amplitude: (value.amplitude ?? 1) * factor,
+    offset: (value.offset ?? 0) * factor,
+  };
+}
+
+const isSmooth = (op: SdfOperation) => op.startsWith("smooth");
+
+type EditableScene = SdfScene & { root: SdfOperationNode };
+
+export class SdfEditor implements DemoEditor {
+  private target: SdfEditorTarget;
+  private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private scene: EditableScene;
+  private selected = -1;
+  private active = false;
+  private undoStack: string[] = [];
+  private redoStack: string[] = [];
+  private listeners = new Set<() => void>();
+
+  // Uncommitted transform of the selected node
+  private offset = new THREE.Vector2();
+  private rotation = 0;
+  private scale = 1;
+  private dragStart: THREE.Vector2 | null = null;
+  private wheelTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+
+  constructor(
+    target: SdfEditorTarget,
+    scene: SdfScene,
+    camera: THREE.Camera,
+    domElement: HTMLElement
+  ) {
+    this.target = target;
+    this.camera = camera;
+    this.domElement = domElement;
+    // Edits work on the root's children, a lone shape becomes a union of one
+    const root = clone(scene.root);
+    this.scene = {
+      ...clone(scene),
+      root: "op" in root ? root : { op: "union", children: [root] },
+    };
+
+    // Capture phase so a grabbed shape never reaches the orbit controls
+    domElement.addEventListener("pointerdown", this.onPointerDown, true);
+    domElement.addEventListener("pointermove", this.onPointerMove);
+    domElement.addEventListener("pointerup", this.onPointerUp);
+    domElement.addEventListener("pointercancel", this.onPointerUp);
+    domElement.addEventListener("wheel", this.onWheel, {
+      capture: true,
+      passive: false,
+    });
+    window.addEventListener("keydown", this.onKeyDown);
+  }
+
+  get enabled(): boolean {
+    return this.active;
+  }
+
+  set enabled(value: boolean) {
+    if (value === this.active) return;
+    this.commitTransform();
+    this.active = value;
+    this.selected = -1;
+    this.apply();
+  }
+
+  get selection(): SdfNode | null {
+    return this.scene.root.children[this.selected] ?? null;
+  }
+
+  get selectedIndex(): number {
+    return this.selected;
+  }
+
+  get children(): readonly SdfNode[] {
+    return this.scene.root.children;
+  }
+
+  get rootOperation(): SdfOperation {
+    return this.scene.root.op;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  select(index: number): void {
+    this.commitTransform();
+    this.selected = index >= 0 && index < this.children.length ? index : -1;
+    this.apply();
+  }
+
+  addShape(shape: SdfShapeName): void {
+    this.commit(() => {
+      this.scene.root.children.push({ shape, ...clone(NEW_SHAPES[shape]) });
+      this.selected = this.scene.root.children.length - 1;
+    });
+  }
+
+  deleteSelected(): void {
+    // The root needs at least one child to stay valid
+    if (!this.selection || this.children.length < 2) return;
+    this.commit(() => {
+      this.scene.root.children.splice(this.selected, 1);
+      this.selected = -1;
+    });
+  }
+
+  // Changes the root operation, or the selected group's with `selected`
+  setOperation(op: SdfOperation, selected = false): void {
+    const node = selected ? this.selection : this.scene.root;
+    if (!node || !("op" in node) || node.op === op) return;
+    if (!SDF_OPERATIONS.includes(op)) return;
+    this.commit(() => {
+      node.op = op;
+      if (isSmooth(op)) node.k ??= 0.1;
+      else delete node.k;
+    });
+  }
+
+  undo(): void {
+    this.restore(this.undoStack, this.redoStack);
+  }
+
+  redo(): void {
+    this.restore(this.redoStack, this.undoStack);
+  }
+
+  // Copy of the edited scene, as loaded by the "sdf-scene" manifest type
+  getScene(): SdfScene {
+    if (this.commitTransform()) this.apply();
+    return clone(this.scene);
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.getScene(), null, 2);
+  }
+
+  dispose(): void {
+    if (this.wheelTimer) clearTimeout(this.wheelTimer);
+    this.domElement.removeEventListener(
+      "pointerdown",
+      this.onPointerDown,
+      true
+    );
+    this.domElement.removeEventListener("pointermove", this.onPointerMove);
+    this.domElement.removeEventListener("pointerup", this.onPointerUp);
+    this.domElement.removeEventListener("pointercancel", this.onPointerUp);
+    this.domElement.removeEventListener("wheel", this.onWheel, true);
+    window.removeEventListener("keydown", this.onKeyDown);
+    this.listeners.clear();
+  }
+
+  private commit(mutate: () => void): void {
+    this.commitTransform();
+    this.pushHistory(this.undoStack);
+    this.redoStack = [];
+    mutate();
+    this.apply();
+  }
+
+  private pushHistory(stack: string[]): void {
+    stack.push(JSON.stringify(this.scene));
+    if (stack.length > HISTORY_LIMIT) stack.shift();
+  }
+
+  private restore(from: string[], to: string[]): void {
+    this.commitTransform();
+    const snapshot = from.pop();
+    if (!snapshot) return;
+    this.pushHistory(to);
+    // Snapshots were valid scenes, parsing again restores the defaults
+    this.scene = parseSdfScene(JSON.parse(snapshot)) as EditableScene;
+    if (this.selected >= this.children.length) this.selected = -1;
+    this.apply();
+  }
+
+  // Recompiles the material, so only on structural changes and commits
+  private apply(): void {
+    this.target.setEditTransform(this.offset, this.rotation, this.scale);
+    this.target.setScene(this.scene, this.active ? this.selection : null);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Bakes the live transform into the selected node as one undo step,
+  // returns whether anything changed and needs apply()
+  private commitTransform(): boolean {
+    if (this.wheelTimer) {
+      clearTimeout(this.wheelTimer);
+      this.wheelTimer = null;
+    }
+    this.dragStart = null;
+    const node = this.selection;
+    const { offset, rotation, scale } = this;
+    if (!node || (offset.lengthSq() === 0 && rotation === 0 && scale === 1)) {
+      return false;
+    }
+
+    this.pushHistory(this.undoStack);
+    this.redoStack = [];
+    const [x, y] = node.translate ?? [0, 0];
+    node.translate = [addScalar(x, offset.x), addScalar(y, offset.y)];
+    if (rotation !== 0) node.rotate = addScalar(node.rotate, rotation);
+    if (scale !== 1) {
+      node.scale = Array.isArray(node.scale)
+        ? [mulScalar(node.scale[0], scale), mulScalar(node.scale[1], scale)]
+        : mulScalar(node.scale, scale);
+    }
+
+    this.offset.set(0, 0);
+    this.rotation = 0;
+    this.scale = 1;
+    return true;
+  }
+
+  // Pointer position in the plane's local space, null off the plane
+  private planePosition(event: PointerEvent): THREE.Vector3 | null {
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const hit = this.raycaster.intersectObject(this.target.mesh)[0];
+    return hit ? this.target.mesh.worldToLocal(hit.point.clone()) : null;
+  }
+
+  // Pointer position in the space of the root's children
+  private scenePosition(event: PointerEvent): THREE.Vector2 | null {
+    const local = this.planePosition(event);
+    if (!local) return null;
+    const p = sdfRootSpace(this.scene, local, this.inputs());
+    return new THREE.Vector2(p.x, p.y);
+  }
+
+  private inputs() {
+    return { time: this.target.elapsed, uniforms: this.target.uniforms };
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.active || event.button !== 0) return;
+    const local = this.planePosition(event);
+    const index = local ? pickSdfChild(this.scene, local, this.inputs()) : -1;
+
+    // Clicking empty space deselects and leaves the camera to orbit
+    if (index !== this.selected) this.select(index);
+    if (index < 0) return;
+
+    event.stopImmediatePropagation();
+    event.preventDefault();
+    this.domElement.setPointerCapture(event.pointerId);
+    this.dragStart = this.scenePosition(event);
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (!this.dragStart) return;
+    const p = this.scenePosition(event);
+    if (!p) return;
+    this.offset.subVectors(p, this.dragStart);
+    this.target.setEditTransform(this.offset, this.rotation, this.scale);
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    if (!this.dragStart) return;
+    if (this.domElement.hasPointerCapture(event.pointerId)) {
+      this.domElement.releasePointerCapture(event.pointerId);
+    }
+    if (this.commitTransform()) this.apply();
+  };
+
+  private onWheel = (event: WheelEvent): void => {
+    if (!this.active || !this.selection || this.dragStart) return;
+    event.stopImmediatePropagation();
+    event.preventDefault();
+
+    if (event.shiftKey) {
+      // Browsers report horizontal deltas while shift is held
+      this.rotation += (event.deltaY || event.deltaX) * WHEEL_ROTATE_SPEED;
+    } else {
+      this.scale *= Math.exp(-event.deltaY * WHEEL_SCALE_SPEED);
+    }
+    this.target.setEditTransform(this.offset, this.rotation, this.scale);
+
+    if (this.wheelTimer) clearTimeout(this.wheelTimer);
+    this.wheelTimer = setTimeout(() => {
+      if (this.commitTransform()) this.apply();
+    }, WHEEL_COMMIT_DELAY);
+  };
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (!this.active) return;
+    const target = event.target as HTMLElement | null;
+    if (target?.closest("input, textarea, select")) return;
+
+    const key = event.key.toLowerCase();
+    if ((event.ctrlKey || event.metaKey) && key === "z") {
+      event.preventDefault();
+      if (event.shiftKey) this.redo();
+      else this.undo();
+    } else if ((event.ctrlKey || event.metaKey) && key === "y") {
+      event.preventDefault();
+      this.redo();
+    } else if (key === "delete" || key === "backspace") {
+      this.deleteSelected();
+    } else if (key === "escape") {
+      this.select(-1);
+    }
+  };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
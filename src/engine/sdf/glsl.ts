@@ -0,0 +1,156 @@
+// GLSL twin of the TSL library in ./tsl.ts for fallback ShaderMaterials,
+// used by the scene compiler. Function names: sd<Shape>, op<Operator>.
+export const SDF_GLSL = /* glsl */ `
+float sdCircle(vec2 p, float radius) {
+  return length(p) - radius;
+}
+
+float sdEllipse(vec2 p, vec2 semiAxes) {
+  return (length(p / semiAxes) - 1.0) * min(semiAxes.x, semiAxes.y);
+}
+
+float sdBox(vec2 p, vec2 halfSize) {
+  vec2 d = abs(p) - halfSize;
+  return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
+}
+
+float sdRoundedBox(vec2 p, vec2 halfSize, float radius) {
+  return sdBox(p, halfSize - radius) - radius;
+}
+
+float sdTriangle(vec2 p, float radius) {
+  const float k = sqrt(3.0);
+  p.x = abs(p.x) - radius;
+  p.y = p.y + radius / k;
+  if (p.x + k * p.y > 0.0) p = vec2(p.x - k * p.y, -k * p.x - p.y) / 2.0;
+  p.x -= clamp(p.x, -2.0 * radius, 0.0);
+  return -length(p) * sign(p.y);
+}
+
+float sdPolygon(vec2 p, float radius, float sides) {
+  float an = 3.141592653589793 / sides;
+  vec2 acs = vec2(cos(an), sin(an));
+  float bn = mod(atan(p.x, p.y), 2.0 * an) - an;
+  p = length(p) * vec2(cos(bn), abs(sin(bn))) - radius * acs;
+  p.y += clamp(-p.y, 0.0, radius * acs.y);
+  return length(p) * sign(p.x);
+}
+
+float sdSegment(vec2 p, vec2 start, vec2 end) {
+  vec2 direction = end - start;
+  vec2 offset = p - start;
+  float t = clamp(dot(offset, direction) / dot(direction, direction), 0.0, 1.0);
+  return length(offset - direction * t);
+}
+
+float sdArc(vec2 p, float aperture, float radius, float thickness) {
+  vec2 sc = vec2(sin(aperture), cos(aperture));
+  p.x = abs(p.x);
+  return (sc.y * p.x > sc.x * p.y
+    ? length(p - sc * radius)
+    : abs(length(p) - radius)) - thickness;
+}
+
+float sdStar(vec2 p, float radius, float points, float sharpness) {
+  float an = 3.141592653589793 / points;
+  float en = 3.141592653589793 / sharpness;
+  vec2 acs = vec2(cos(an), sin(an));
+  vec2 ecs = vec2(cos(en), sin(en));
+  float bn = mod(atan(p.x, p.y), 2.0 * an) - an;
+  p = length(p) * vec2(cos(bn), abs(sin(bn))) - radius * acs;
+  p += ecs * clamp(-dot(p, ecs), 0.0, radius * acs.y / ecs.y);
+  return length(p) * sign(p.x);
+}
+
+float sdHeart(vec2 p, float size) {
+  p = vec2(abs(p.x), p.y) / size;
+  if (p.x + p.y > 1.0) {
+    return (length(p - vec2(0.25, 0.75)) - sqrt(2.0) / 4.0) * size;
+  }
+  vec2 a = p - vec2(0.0, 1.0);
+  vec2 b = p - 0.5 * max(p.x + p.y, 0.0);
+  return sqrt(min(dot(a, a), dot(b, b))) * sign(p.x - p.y) * size;
+}
+
+float sdMoon(vec2 p, float radius) {
+  float inner = length(p / 0.8 - vec2(0.15, 0.0)) - radius;
+  return max(-inner, length(p) - radius);
+}
+
+float sdFlower(vec2 p, float radius, float frequency, float amplitude) {
+  float bumps = cos(atan(p.y, p.x) * frequency) * amplitude;
+  return length(p) - radius + bumps;
+}
+
+float sdButterfly(vec2 p, float radius, float frequency, float amplitude) {
+  float bumps = cos(atan(p.y, p.x) * frequency) * amplitude * (1.0 + p.y * 1.5);
+  return length(p) - radius + bumps;
+}
+
+float opSmoothUnion(float a, float b, float k) {
+  float h = clamp(0.5 + 0.5 * (b - a) / k, 0.0, 1.0);
+  return mix(b, a, h) - k * h * (1.0 - h);
+}
+
+float opSmoothSubtraction(float a, float b, float k) {
+  float h = clamp(0.5 - 0.5 * (b + a) / k, 0.0, 1.0);
+  return mix(b, -a, h) + k * h * (1.0 - h);
+}
+
+float opSmoothIntersection(float a, float b, float k) {
+  float h = clamp(0.5 - 0.5 * (b - a) / k, 0.0, 1.0);
+  return mix(b, a, h) + k * h * (1.0 - h);
+}
+
+vec2 opRotate(vec2 p, float angle) {
+  float c = cos(angle), s = sin(angle);
+  return vec2(c * p.x - s * p.y, s * p.x + c * p.y);
+}
+
+vec2 opRepeat(vec2 p, vec2 spacing) {
+  return p - spacing * floor(p / spacing + 0.5);
+}
+
+vec2 opRepeatLimited(vec2 p, vec2 spacing, vec2 limit) {
+  return p - spacing * clamp(floor(p / spacing + 0.5), -limit, limit);
+}
+
+vec2 opMirror(vec2 p, vec2 normal) {
+  return p - normal * min(dot(p, normal), 0.0) * 2.0;
+}
+
+vec2 opTwist(vec2 p, float strength) {
+  return opRotate(p, length(p) * strength);
+}
+`;
+
+// GLSL twin of ./tsl3d.ts
+export const SDF3D_GLSL = /* glsl */ `
+float sdSphere(vec3 p, float radius) {
+  return length(p) - radius;
+}
+
+float sdBox3D(vec3 p, vec3 halfSize) {
+  vec3 q = abs(p) - halfSize;
+  return length(max(q, 0.0)) + min(max(q.x, max(q.y, q.z)), 0.0);
+}
+
+float sdRoundBox3D(vec3 p, vec3 halfSize, float radius) {
+  return sdBox3D(p, halfSize - radius) - radius;
+}
+
+float sdTorus(vec3 p, vec2 radii) {
+  return length(vec2(length(p.xz) - radii.x, p.y)) - radii.y;
+}
+
+float sdCapsule(vec3 p, vec3 start, vec3 end, float radius) {
+  vec3 direction = end - start;
+  vec3 offset = p - start;
+  float t = clamp(dot(offset, direction) / dot(direction, direction), 0.0, 1.0);
+  return length(offset - direction * t) - radius;
+}
+
+float sdPlane(vec3 p, vec3 normal, float height) {
+  return dot(p, normal) - height;
+}
+`;
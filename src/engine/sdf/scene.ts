@@ -0,0 +1,341 @@
+// JSON description of a 2D SDF composition, compiled by ./compile.ts into a
+// TSL node graph, GLSL for the fallback material and a CPU evaluator.
+import type { ManifestItemBase } from "@/types/types";
+
+/**
+ * A number, or a value animated from the clock or a demo uniform:
+ *
+ *   value = offset + amplitude * wave(source)
+ *
+ * where source is `time * <time>` or the uniform `<uniform>` and wave is
+ * sin, cos or the identity (default).
+ */
+export type SdfScalar =
+  | number
+  | {
+      time?: number;
+      uniform?: string;
+      wave?: "sin" | "cos";
+      amplitude?: number;
+      offset?: number;
+    };
+
+export type SdfVec2 = [SdfScalar, SdfScalar];
+
+// Shape name -> its parameters, in the order the TSL library takes them
+export const SDF_SHAPES = {
+  circle: { radius: "float" },
+  ellipse: { semiAxes: "vec2" },
+  box: { halfSize: "vec2" },
+  roundedBox: { halfSize: "vec2", radius: "float" },
+  triangle: { radius: "float" },
+  polygon: { radius: "float", sides: "float" },
+  segment: { start: "vec2", end: "vec2" },
+  arc: { aperture: "float", radius: "float", thickness: "float" },
+  star: { radius: "float", points: "float", sharpness: "float" },
+  heart: { size: "float" },
+  moon: { radius: "float" },
+  flower: { radius: "float", frequency: "float", amplitude: "float" },
+  butterfly: { radius: "float", frequency: "float", amplitude: "float" },
+} as const;
+
+export type SdfShapeName = keyof typeof SDF_SHAPES;
+
+export const SDF_OPERATIONS = [
+  "union",
+  "subtraction",
+  "intersection",
+  "smoothUnion",
+  "smoothSubtraction",
+  "smoothIntersection",
+] as const;
+
+export type SdfOperation = (typeof SDF_OPERATIONS)[number];
+
+/**
+ * Applied to the sampling position in this order: translate, rotate, scale,
+ * mirror, repeat, twist. Then round and onion modify the distance. A scalar
+ * scale keeps distances exact, a [x, y] scale distorts them.
+ */
+export interface SdfNodeCommon {
+  translate?: SdfVec2;
+  // Radians applied to the sampling position, the shape turns the other way
+  rotate?: SdfScalar;
+  scale?: SdfScalar | SdfVec2;
+  mirror?: SdfVec2; // unit normal of the mirror line through the origin
+  repeat?: { spacing: SdfVec2; limit?: SdfVec2 };
+  twist?: SdfScalar;
+  round?: SdfScalar;
+  onion?: SdfScalar;
+}
+
+export interface SdfShapeNode extends SdfNodeCommon {
+  shape: SdfShapeName;
+  params: Record<string, SdfScalar | SdfVec2>;
+}
+
+// `subtraction` removes every later child from the first one
+export interface SdfOperationNode extends SdfNodeCommon {
+  op: SdfOperation;
+  k?: SdfScalar; // blend width of the smooth operations
+  children: SdfNode[];
+}
+
+export type SdfNode = SdfShapeNode | SdfOperationNode;
+
+export type SdfColoring =
+  // Cosine palettes inside and outside, faded by distance, with wave bands
+  | { mode: "palette"; fade?: SdfScalar; bands?: number }
+  // Flat fill over a background with an optional outline
+  | {
+      mode: "solid";
+      fill: string;
+      background: string;
+      outline?: string;
+      outlineWidth?: number;
+    }
+  // Distance field debug view with iso lines
+  | { mode: "isolines"; fade?: SdfScalar };
+
+export interface SdfScene {
+  version: 1;
+  root: SdfNode;
+  coloring: SdfColoring;
+}
+
+// Manifest entry loading an SdfScene, see loaders.ts
+export interface SdfSceneItem extends ManifestItemBase {
+  type: "sdf-scene";
+}
+
+declare module "@/types/types" {
+  interface ManifestItemTypes {
+    "sdf-scene": SdfSceneItem;
+  }
+  interface ManifestAssetTypes {
+    "sdf-scene": SdfScene;
+  }
+}
+
+// Invalid scene file, `path` points at the offending JSON value
+export class SdfSceneError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "SdfSceneError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function parseScalar(value: unknown, path: string): SdfScalar {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (!isObject(value)) {
+    throw new SdfSceneError(path, "expected a number or a binding object");
+  }
+  const { time, uniform, wave, amplitude, offset, ...rest } = value;
+  const unknown = Object.keys(rest);
+  if (unknown.length) {
+    throw new SdfSceneError(path, `unknown binding keys ${unknown.join(", ")}`);
+  }
+  if ((time === undefined) === (uniform === undefined)) {
+    throw new SdfSceneError(
+      path,
+      `a binding needs exactly one of time, uniform`
+    );
+  }
+  if (uniform !== undefined && typeof uniform !== "string") {
+    throw new SdfSceneError(path, "uniform must be a name");
+  }
+  if (wave !== undefined && wave !== "sin" && wave !== "cos") {
+    throw new SdfSceneError(path, `wave must be "sin" or "cos"`);
+  }
+  [
+    ["time", time],
+    ["amplitude", amplitude],
+    ["offset", offset],
+  ].forEach(([key, v]) => {
+    if (v !== undefined && !(typeof v === "number" && Number.isFinite(v))) {
+      throw new SdfSceneError(`${path}.${key}`, "expected a number");
+    }
+  });
+  return value as SdfScalar;
+}
+
+function parseVec2(value: unknown, path: string): SdfVec2 {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new SdfSceneError(path, "expected [x, y]");
+  }
+  return [
+    parseScalar(value[0], `${path}[0]`),
+    parseScalar(value[1], `${path}[1]`),
+  ];
+}
+
+function parseColor(value: unknown, path: string): string {
+  if (typeof value !== "string" || !COLOR_PATTERN.test(value)) {
+    throw new SdfSceneError(path, `expected a "#rrggbb" color`);
+  }
+  return value;
+}
+
+function parseCommon(
+  node: Record<string, unknown>,
+  path: string
+): SdfNodeCommon {
+  const common: SdfNodeCommon = {};
+  if (node.translate !== undefined) {
+    common.translate = parseVec2(node.translate, `${path}.translate`);
+  }
+  if (node.scale !== undefined) {
+    common.scale = Array.isArray(node.scale)
+      ? parseVec2(node.scale, `${path}.scale`)
+      : parseScalar(node.scale, `${path}.scale`);
+  }
+  if (node.mirror !== undefined) {
+    common.mirror = parseVec2(node.mirror, `${path}.mirror`);
+  }
+  if (node.repeat !== undefined) {
+    const repeat = node.repeat;
+    if (!isObject(repeat)) {
+      throw new SdfSceneError(`${path}.repeat`, "expected { spacing, limit? }");
+    }
+    common.repeat = {
+      spacing: parseVec2(repeat.spacing, `${path}.repeat.spacing`),
+      ...(repeat.limit !== undefined && {
+        limit: parseVec2(repeat.limit, `${path}.repeat.limit`),
+      }),
+    };
+  }
+  (["rotate", "twist", "round", "onion"] as const).forEach((key) => {
+    if (node[key] !== undefined) {
+      common[key] = parseScalar(node[key], `${path}.${key}`);
+    }
+  });
+  return common;
+}
+
+function parseNode(value: unknown, path: string): SdfNode {
+  if (!isObject(value)) throw new SdfSceneError(path, "expected a node object");
+  const common = parseCommon(value, path);
+
+  if ("shape" in value) {
+    const shape = value.shape as SdfShapeName;
+    // Own keys only, "toString" and friends are not shapes
+    if (typeof shape !== "string" || !Object.hasOwn(SDF_SHAPES, shape)) {
+      throw new SdfSceneError(
+        `${path}.shape`,
+        `unknown shape "${shape}", expected one of ${Object.keys(
+          SDF_SHAPES
+        ).join(", ")}`
+      );
+    }
+    const spec = SDF_SHAPES[shape];
+    const raw = isObject(value.params) ? value.params : {};
+    const params: SdfShapeNode["params"] = {};
+    Object.entries(spec).forEach(([name, type]) => {
+      const paramPath = `${path}.params.${name}`;
+      if (raw[name] === undefined) {
+        throw new SdfSceneError(paramPath, `missing ${type} parameter`);
+      }
+      params[name] =
+        type === "vec2"
+          ? parseVec2(raw[name], paramPath)
+          : parseScalar(raw[name], paramPath);
+    });
+    return { ...common, shape, params };
+  }
+
+  if ("op" in value) {
+    const op = value.op as SdfOperation;
+    if (!SDF_OPERATIONS.includes(op)) {
+      throw new SdfSceneError(
+        `${path}.op`,
+        `unknown operation "${op}", expected one of ${SDF_OPERATIONS.join(
+          ", "
+        )}`
+      );
+    }
+    if (!Array.isArray(value.children) || value.children.length === 0) {
+      throw new SdfSceneError(`${path}.children`, "expected a non-empty array");
+    }
+    const node: SdfOperationNode = {
+      ...common,
+      op,
+      children: value.children.map((child, i) =>
+        parseNode(child, `${path}.children[${i}]`)
+      ),
+    };
+    if (op.startsWith("smooth")) {
+      node.k = parseScalar(value.k ?? 0.1, `${path}.k`);
+    }
+    return node;
+  }
+
+  throw new SdfSceneError(path, `a node needs either "shape" or "op"`);
+}
+
+function parseColoring(value: unknown, path: string): SdfColoring {
+  if (value === undefined) return { mode: "palette" };
+  if (!isObject(value)) throw new SdfSceneError(path, "expected an object");
+
+  switch (value.mode) {
+    case "palette":
+    case "isolines":
+      return {
+        mode: value.mode,
+        ...(value.fade !== undefined && {
+          fade: parseScalar(value.fade, `${path}.fade`),
+        }),
+        ...(value.mode === "palette" &&
+          typeof value.bands === "number" && { bands: value.bands }),
+      } as SdfColoring;
+    case "solid":
+      return {
+        mode: "solid",
+        fill: parseColor(value.fill, `${path}.fill`),
+        background: parseColor(value.background, `${path}.background`),
+        ...(value.outline !== undefined && {
+          outline: parseColor(value.outline, `${path}.outline`),
+        }),
+        ...(typeof value.outlineWidth === "number" && {
+          outlineWidth: value.outlineWidth,
+        }),
+      };
+    default:
+      throw new SdfSceneError(
+        `${path}.mode`,
+        `expected "palette", "solid" or "isolines"`
+      );
+  }
+}
+
+// Validates untrusted JSON, throwing an SdfSceneError naming the bad value
+export function parseSdfScene(data: unknown): SdfScene {
+  if (!isObject(data)) throw new SdfSceneError("$", "expected an object");
+  if (data.version !== 1) {
+    throw new SdfSceneError("$.version", "unsupported version, expected 1");
+  }
+  return {
+    version: 1,
+    root: parseNode(data.root, "$.root"),
+    coloring: parseColoring(data.coloring, "$.coloring"),
+  };
+}
+
+// Uniform names a scene binds to, checked against the demo's uniform set
+export function sceneUniforms(scene: SdfScene): Set<string> {
+  const names = new Set<string>();
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isObject(value)) {
+      if (typeof value.uniform === "string") names.add(value.uniform);
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(scene);
+  return names;
+}
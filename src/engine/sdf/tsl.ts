@@ -0,0 +1,246 @@
+// Shared 2D SDF library for the TSL demos, mirrored on the CPU in ./cpu.ts.
+//
+// Primitives are centred on the origin and unrotated: move them with
+// p.sub(center) and turn them with Rotate. Each one states what its result
+// is: "exact" is the true Euclidean distance, "bound" never overestimates it
+// (safe to march with, possibly slower) and "approximate" may overestimate.
+// Most shapes are after Inigo Quilez's 2D distance functions.
+import * as TSL from "three/tsl";
+
+const dot2 = (v: any) => TSL.dot(v, v);
+
+// ---------------------------------------------------------------- primitives
+
+// Exact
+export const Circle = TSL.Fn(([position, radius]) => {
+  return TSL.length(position).sub(radius);
+});
+
+/**
+ * `semiAxes` are the half widths along x and y. Approximate: exact when both
+ * axes are equal, the error grows with eccentricity away from the outline.
+ */
+export const Ellipse = TSL.Fn(([position, semiAxes]) => {
+  return TSL.length(position.div(semiAxes))
+    .sub(1)
+    .mul(TSL.min(semiAxes.x, semiAxes.y));
+});
+
+// Exact. `halfSize` are the half extents
+export const Box = TSL.Fn(([position, halfSize]) => {
+  const distance = TSL.abs(position).sub(halfSize);
+  return TSL.length(TSL.max(distance, 0.0)).add(
+    TSL.min(TSL.max(distance.x, distance.y), 0.0)
+  );
+});
+
+// Exact. Corners rounded by `radius`, staying inside `halfSize`
+export const RoundedBox = TSL.Fn(([position, halfSize, radius]) => {
+  const distance = TSL.abs(position).sub(halfSize).add(radius);
+  return TSL.length(TSL.max(distance, 0.0))
+    .add(TSL.min(TSL.max(distance.x, distance.y), 0.0))
+    .sub(radius);
+});
+
+// Exact. Equilateral, pointing up, `radius` is half the side length
+export const Triangle = TSL.Fn(([position, radius]) => {
+  const k = Math.sqrt(3);
+  const q = TSL.vec2(
+    TSL.abs(position.x).sub(radius),
+    position.y.add(radius.div(k))
+  );
+  const folded = TSL.vec2(q.x.sub(q.y.mul(k)), q.x.mul(-k).sub(q.y)).div(2);
+  const r = TSL.select(q.x.add(q.y.mul(k)).greaterThan(0), folded, q);
+  const s = TSL.vec2(r.x.sub(TSL.clamp(r.x, radius.mul(-2), 0)), r.y);
+  return TSL.length(s).negate().mul(TSL.sign(s.y));
+});
+
+// Exact. Regular polygon with `sides` corners at distance `radius`
+export const Polygon = TSL.Fn(([position, radius, sides]) => {
+  const an = TSL.float(Math.PI).div(sides);
+  const acs = TSL.vec2(TSL.cos(an), TSL.sin(an));
+  // Fold into the first sector
+  const bn = TSL.mod(TSL.atan(position.x, position.y), an.mul(2)).sub(an);
+  const q = TSL.vec2(TSL.cos(bn), TSL.abs(TSL.sin(bn)))
+    .mul(TSL.length(position))
+    .sub(acs.mul(radius));
+  const r = TSL.vec2(
+    q.x,
+    q.y.add(TSL.clamp(q.y.negate(), 0, radius.mul(acs.y)))
+  );
+  return TSL.length(r).mul(TSL.sign(r.x));
+});
+
+// Exact. Zero thickness, thicken it with Round
+export const Segment = TSL.Fn(([position, start, end]) => {
+  const direction = end.sub(start);
+  const offset = position.sub(start);
+  const t = TSL.clamp(
+    TSL.dot(offset, direction).div(TSL.dot(direction, direction)),
+    0.0,
+    1.0
+  );
+  return TSL.length(offset.sub(direction.mul(t)));
+});
+
+// Exact. Segment from the origin along the unit `direction`
+export const DirectionLine = TSL.Fn(([position, direction, len]) => {
+  const closestPoint = TSL.clamp(TSL.dot(position, direction), 0, len).mul(
+    direction
+  );
+  return TSL.length(position.sub(closestPoint));
+});
+
+/**
+ * Exact. Circular arc of `radius` opening upwards, symmetric around +y, with
+ * `aperture` the half angle in radians and `thickness` the half width.
+ */
+export const Arc = TSL.Fn(([position, aperture, radius, thickness]) => {
+  const sc = TSL.vec2(TSL.sin(aperture), TSL.cos(aperture));
+  const q = TSL.vec2(TSL.abs(position.x), position.y);
+  return TSL.select(
+    sc.y.mul(q.x).greaterThan(sc.x.mul(q.y)),
+    TSL.length(q.sub(sc.mul(radius))),
+    TSL.abs(TSL.length(q).sub(radius))
+  ).sub(thickness);
+});
+
+/**
+ * Exact. Star with `points` tips at `radius`, `sharpness` in [2, points]:
+ * 2 gives the spikiest star, `points` a regular polygon.
+ */
+export const Star = TSL.Fn(([position, radius, points, sharpness]) => {
+  const an = TSL.float(Math.PI).div(points);
+  const en = TSL.float(Math.PI).div(sharpness);
+  const acs = TSL.vec2(TSL.cos(an), TSL.sin(an));
+  const ecs = TSL.vec2(TSL.cos(en), TSL.sin(en));
+  const bn = TSL.mod(TSL.atan(position.x, position.y), an.mul(2)).sub(an);
+  const q = TSL.vec2(TSL.cos(bn), TSL.abs(TSL.sin(bn)))
+    .mul(TSL.length(position))
+    .sub(acs.mul(radius));
+  const r = q.add(
+    ecs.mul(
+      TSL.clamp(TSL.dot(q, ecs).negate(), 0, radius.mul(acs.y).div(ecs.y))
+    )
+  );
+  return TSL.length(r).mul(TSL.sign(r.x));
+});
+
+// Exact. Tip at the origin, about `size` tall
+export const Heart = TSL.Fn(([position, size]) => {
+  const q = TSL.vec2(TSL.abs(position.x), position.y).div(size);
+  const lobe = TSL.length(q.sub(TSL.vec2(0.25, 0.75))).sub(Math.SQRT2 / 4);
+  const body = TSL.sqrt(
+    TSL.min(
+      dot2(q.sub(TSL.vec2(0, 1))),
+      dot2(q.sub(TSL.max(q.x.add(q.y), 0).mul(0.5)))
+    )
+  ).mul(TSL.sign(q.x.sub(q.y)));
+  return TSL.select(q.x.add(q.y).greaterThan(1), lobe, body).mul(size);
+});
+
+// Bound. Circle with a smaller, offset circle carved out
+export const Moon = TSL.Fn(([position, radius]) => {
+  const innerCircle = TSL.length(
+    position.div(0.8).sub(TSL.vec2(0.15, 0.0))
+  ).sub(radius);
+  const outerCircle = TSL.length(position).sub(radius);
+  return TSL.max(TSL.negate(innerCircle), outerCircle);
+});
+
+// Approximate. Circle whose radius oscillates `frequency` times around it
+export const Flower = TSL.Fn(([position, radius, frequency, amplitude]) => {
+  const circleAngle = TSL.atan(position.y, position.x);
+  const bumps = TSL.cos(circleAngle.mul(frequency)).mul(amplitude);
+  return TSL.length(position).sub(radius).add(bumps);
+});
+
+// Approximate. Flower with bumps growing towards the top
+export const Butterfly = TSL.Fn(([position, radius, frequency, amplitude]) => {
+  const circleAngle = TSL.atan(position.y, position.x);
+  const bumps = TSL.cos(circleAngle.mul(frequency)).mul(
+    amplitude.mul(TSL.negate(position.y).mul(1.5).oneMinus())
+  );
+  return TSL.length(position).sub(radius).add(bumps);
+});
+
+// ----------------------------------------------------------------- operators
+// Boolean operators take distances. Exact inputs give an exact result outside
+// the shape for Union and a bound everywhere else.
+
+export const Union = TSL.Fn(([a, b]) => TSL.min(a, b));
+
+// Removes `a` from `b`
+export const Subtraction = TSL.Fn(([a, b]) => TSL.max(TSL.negate(a), b));
+
+export const Intersection = TSL.Fn(([a, b]) => TSL.max(a, b));
+
+// Bound. Blends over a width of about `k`, approaching Union as k goes to 0
+export const SmoothUnion = TSL.Fn(([a, b, k]) => {
+  const h = TSL.clamp(b.sub(a).div(k).mul(0.5).add(0.5), 0, 1);
+  return TSL.mix(b, a, h).sub(k.mul(h).mul(h.oneMinus()));
+});
+
+// Bound. Removes `a` from `b` with a fillet of about `k`
+export const SmoothSubtraction = TSL.Fn(([a, b, k]) => {
+  const h = TSL.clamp(b.add(a).div(k).mul(-0.5).add(0.5), 0, 1);
+  return TSL.mix(b, TSL.negate(a), h).add(k.mul(h).mul(h.oneMinus()));
+});
+
+// Bound
+export const SmoothIntersection = TSL.Fn(([a, b, k]) => {
+  const h = TSL.clamp(b.sub(a).div(k).mul(-0.5).add(0.5), 0, 1);
+  return TSL.mix(b, a, h).add(k.mul(h).mul(h.oneMinus()));
+});
+
+// Grows the shape by `radius`, rounding convex corners. Exact outside for
+// exact inputs
+export const Round = TSL.Fn(([distance, radius]) => distance.sub(radius));
+
+// Hollows the shape to a shell `thickness` thick on each side of the outline.
+// Exact for exact inputs
+export const Onion = TSL.Fn(([distance, thickness]) =>
+  TSL.abs(distance).sub(thickness)
+);
+
+// Domain operators take and return positions, evaluate the shape at the
+// result.
+
+// Exact (rigid motion). Counter-clockwise by `angle` radians
+export const Rotate = TSL.Fn(([position, angle]) =>
+  TSL.rotate(position, angle)
+);
+
+/**
+ * Infinite grid of copies every `spacing`. Exact while the shape fits in its
+ * cell and is symmetric, otherwise neighbours can be closer than reported.
+ */
+export const Repeat = TSL.Fn(([position, spacing]) =>
+  position.sub(spacing.mul(TSL.round(position.div(spacing))))
+);
+
+// Repeat limited to cells -limit..limit on each axis, same accuracy
+export const RepeatLimited = TSL.Fn(([position, spacing, limit]) =>
+  position.sub(
+    spacing.mul(
+      TSL.clamp(TSL.round(position.div(spacing)), limit.negate(), limit)
+    )
+  )
+);
+
+/**
+ * Mirrors the half plane behind the line through the origin with unit
+ * `normal` onto the front. Exact for shapes entirely in front of the line.
+ */
+export const Mirror = TSL.Fn(([position, normal]) =>
+  position.sub(normal.mul(TSL.min(TSL.dot(position, normal), 0).mul(2)))
+);
+
+/**
+ * Swirls the plane, rotating by `strength` radians per unit of distance from
+ * the origin. Approximate: distances stretch by up to
+ * sqrt(1 + (strength * r)^2) at radius r, scale the result down to march.
+ */
+export const Twist = TSL.Fn(([position, strength]) =>
+  TSL.rotate(position, TSL.length(position).mul(strength))
+);
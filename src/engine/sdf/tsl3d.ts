@@ -0,0 +1,48 @@
+// 3D SDF primitives for the raymarched demos. The boolean and smooth
+// operators in ./tsl.ts take distances and work unchanged on these. Accuracy
+// labels as in ./tsl.ts, GLSL twins in ./glsl.ts (SDF3D_GLSL).
+import * as TSL from "three/tsl";
+
+// Exact
+export const Sphere = TSL.Fn(([position, radius]) => {
+  return TSL.length(position).sub(radius);
+});
+
+// Exact. `halfSize` are the half extents
+export const Box3D = TSL.Fn(([position, halfSize]) => {
+  const q = TSL.abs(position).sub(halfSize);
+  return TSL.length(TSL.max(q, 0.0)).add(
+    TSL.min(TSL.max(q.x, TSL.max(q.y, q.z)), 0.0)
+  );
+});
+
+// Exact. Edges rounded by `radius`, staying inside `halfSize`
+export const RoundBox3D = TSL.Fn(([position, halfSize, radius]) => {
+  const q = TSL.abs(position).sub(halfSize).add(radius);
+  return TSL.length(TSL.max(q, 0.0))
+    .add(TSL.min(TSL.max(q.x, TSL.max(q.y, q.z)), 0.0))
+    .sub(radius);
+});
+
+// Exact. Ring around the y axis, `radii` = (ring radius, tube radius)
+export const Torus = TSL.Fn(([position, radii]) => {
+  const q = TSL.vec2(TSL.length(position.xz).sub(radii.x), position.y);
+  return TSL.length(q).sub(radii.y);
+});
+
+// Exact. Segment from `start` to `end` thickened by `radius`
+export const Capsule = TSL.Fn(([position, start, end, radius]) => {
+  const direction = end.sub(start);
+  const offset = position.sub(start);
+  const t = TSL.clamp(
+    TSL.dot(offset, direction).div(TSL.dot(direction, direction)),
+    0.0,
+    1.0
+  );
+  return TSL.length(offset.sub(direction.mul(t))).sub(radius);
+});
+
+// Exact. Half space below the plane with unit `normal` at `height` along it
+export const Plane = TSL.Fn(([position, normal, height]) => {
+  return TSL.dot(position, normal).sub(height);
+});
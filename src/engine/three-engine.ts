@@ -1,9 +1,8 @@
 import * as THREE from "three";
-import * as WEBGPU from "three/webgpu";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import type App from "@/app/app";
 import { LightManager } from "./light-manager";
-import GUIView, { PlaneType } from "@/gui/guiView";
+import GUIView from "@/gui/guiView";
 
 import plane1VertexShader from "@/shaders/plane1.vertex.glsl";
 import plane1FragmentShader from "@/shaders/plane1.fragment.glsl";
@@ -12,19 +11,44 @@ import planeSimpleVertexShader from "@/shaders/planeSimple.vertex.glsl";
 import planeSimpleFragmentShader from "@/shaders/planeSimple.fragment.glsl";
 
 import gsap from "gsap";
-import { TSLPlane } from "./TSLPlane";
-import { TSLPlaneSDF } from "./TSLPlaneSDF";
-import { TSLPlaneDesertTank } from "./TSLPlaneDesertTank";
-import { TSLPlaneRaymarching } from "./TSLPlaneRaymarching";
+import {
+  ActiveDemo,
+  DemoContext,
+  DemoDefinition,
+  DemoId,
+  DemoLoadState,
+  NO_DEMO,
+} from "./demo-registry";
+import { demoRegistry } from "./demos";
+import {
+  UrlState,
+  UrlStateSync,
+  applyUrlParams,
+  encodeUniforms,
+  formatUrlState,
+} from "@/utils/url-state";
+import {
+  EngineRenderer,
+  RendererReport,
+  RendererType,
+  createRenderer,
+  probeCapabilities,
+} from "./renderer-factory";
+import { serializeUniforms } from "@/utils/presets";
+import { Preloader } from "@/utils/preloader";
+import { EngineClock } from "./engine-clock";
 
 export default class ThreeEngine {
-  // Static variable to force renderer type
-  private forceRenderer: "webgpu" | "webgl2" | "webgl" | null = "webgpu";
+  // Preferred renderer, falls back WebGPU -> WebGL2 -> WebGL
+  private forceRenderer: RendererType = "webgpu";
+  private rendererReport: RendererReport;
+  private rendererListeners = new Set<(report: RendererReport) => void>();
+  private viewport = { width: window.innerWidth, height: window.innerHeight };
 
   private app: App;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
-  public renderer: THREE.WebGLRenderer | WEBGPU.WebGPURenderer;
+  public renderer: EngineRenderer;
   private controls: OrbitControls;
   private cube: THREE.Mesh;
   private lights: LightManager;
@@ -34,17 +58,29 @@ export default class ThreeEngine {
   private shaderMaterial: THREE.ShaderMaterial;
   private shaderMaterialSimple: THREE.ShaderMaterial;
 
-  // TSL Planes - only one active at a time
-  private tslPlane: TSLPlane | null = null;
-  private tslPlaneSDF: TSLPlaneSDF | null = null;
-  private tslDesertTank: TSLPlaneDesertTank | null = null;
-  private raymarchPlane: TSLPlaneRaymarching | null = null;
-  private currentActivePlane: PlaneType = "none";
-
-  constructor(app: App) {
+  // Demos - only one active at a time
+  private activeDemo: ActiveDemo | null = null;
+  private activeDemoId: DemoId = NO_DEMO;
+  // Asset groups retained for activeDemoId, released on cleanup
+  private demoGroups: string[] = [];
+  // Bumped per switch, so a slow asset load cannot revive an old demo
+  private demoSwitch = 0;
+  private demoLoadListeners = new Set<
+    (id: DemoId, state: DemoLoadState) => void
+  >();
+
+  // Elapsed time, pause and fixed steps for every demo
+  public readonly clock = new EngineClock();
+  // Set while FrameExporter drives update/render instead of the app loop
+  private capturing = false;
+
+  // Shareable state mirrored into the location hash
+  private urlSync: UrlStateSync;
+
+  constructor(app: App, initialState: UrlState = { params: {} }) {
     this.app = app;
 
-    this.forceRenderer = "webgpu";
+    this.forceRenderer = this.resolveRenderer(initialState);
     this.initThree();
     this.initLights();
     this.initGrid();
@@ -53,130 +89,188 @@ export default class ThreeEngine {
     // this.initTestPlaneShader();
     // this.initSimpleShaderPlane();
     this.initControls();
-    this.initGUI();
 
-    // Start with wave plane
-    this.switchToPlane("raymarching");
+    this.restoreState(initialState);
+    this.initGUI();
   }
 
   private initThree(): void {
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x222222);
+    const { camera, scene } = this.app.config;
+    this.scene.background = new THREE.Color(scene.background);
 
     this.camera = new THREE.PerspectiveCamera(
-      75,
+      camera.fov,
       window.innerWidth / window.innerHeight,
-      0.1,
-      1000
+      camera.near,
+      camera.far
     );
-    this.camera.position.set(0, 5, 10);
-
-    const canvas = document.createElement("canvas");
-    document.body.appendChild(canvas);
-
-    const forceRenderer = this.forceRenderer;
-
-    // WebGPU path - try WebGPU -> WebGL2 -> WebGL
-    if (forceRenderer === "webgpu") {
-      console.log("Forcing WebGPU with fallbacks...");
-
-      // Try WebGPU first
-      if (navigator.gpu) {
-        try {
-          this.renderer = new WEBGPU.WebGPURenderer({
-            canvas: canvas,
-            antialias: true,
-          });
-          console.log("✅ Using WebGPURenderer");
-          return;
-        } catch (err) {
-          console.warn("❌ WebGPU failed:", err);
-        }
-      } else {
-        console.warn("❌ No WebGPU support in browser");
-      }
-
-      // Fallback to WebGL2
-      const gl2 = canvas.getContext("webgl2");
-      if (gl2) {
-        try {
-          this.renderer = new THREE.WebGLRenderer({
-            canvas: canvas,
-            context: gl2,
-            antialias: true,
-            alpha: true,
-          });
-          console.log("✅ Using WebGL2 fallback");
-          return;
-        } catch (err) {
-          console.warn("❌ WebGL2 fallback failed:", err);
-        }
-      } else {
-        console.warn("❌ No WebGL2 support");
-      }
+    this.camera.position.set(...camera.position);
 
-      // Final fallback to WebGL
-      this.renderer = new THREE.WebGLRenderer({
-        canvas: canvas,
-        antialias: true,
-        alpha: true,
-      });
-      console.log("✅ Using WebGL final fallback");
-    }
-
-    // WebGL2 path - try WebGL2 -> WebGL
-    else if (forceRenderer === "webgl2") {
-      console.log("Forcing WebGL2 with fallback...");
-
-      const gl2 = canvas.getContext("webgl2");
-      if (gl2) {
-        try {
-          this.renderer = new THREE.WebGLRenderer({
-            canvas: canvas,
-            context: gl2,
-            antialias: true,
-            alpha: true,
-          });
-          console.log("✅ Using WebGL2Renderer");
-          return;
-        } catch (err) {
-          console.warn("❌ WebGL2 failed:", err);
-        }
-      } else {
-        console.warn("❌ No WebGL2 support");
-      }
+    this.initRenderer(document.body);
+  }
 
-      // Fallback to WebGL
-      this.renderer = new THREE.WebGLRenderer({
-        canvas: canvas,
-        antialias: true,
-        alpha: true,
-      });
-      console.log("✅ Using WebGL fallback");
-    }
+  private initRenderer(parent: Node, before: Node | null = null): void {
+    const { renderer, report } = createRenderer(this.forceRenderer);
+    this.renderer = renderer;
+    this.rendererReport = report;
+    parent.insertBefore(renderer.domElement, before);
+    Preloader.setRenderer(renderer);
 
-    // WebGL path - direct WebGL
-    else {
-      console.log("Using WebGL directly...");
-      this.renderer = new THREE.WebGLRenderer({
-        canvas: canvas,
-        antialias: true,
-        alpha: true,
+    this.renderer.setPixelRatio(
+      Math.min(window.devicePixelRatio, this.app.config.maxPixelRatio)
+    );
+    this.renderer.setSize(this.viewport.width, this.viewport.height);
+    this.renderer.setClearColor(this.app.config.scene.background);
+
+    // Backend and limits are only known once the renderer has initialized
+    probeCapabilities(renderer, report)
+      .then((probed) => {
+        if (this.renderer !== renderer) return; // replaced meanwhile
+        this.rendererReport = probed;
+        console.log("🖥️ Renderer capabilities:", probed);
+        this.rendererListeners.forEach((listener) => listener(probed));
+      })
+      .catch((err) => {
+        console.warn("Renderer capability probe failed:", err);
       });
-      console.log("✅ Using WebGLRenderer");
-    }
-
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setClearColor(0x222222);
   }
 
   private initLights(): void {
     this.lights = new LightManager(this.scene);
   }
 
+  // URL hash / query wins over the config entry
+  private resolveRenderer(state: UrlState): RendererType {
+    return state.renderer ?? this.app.config.renderer;
+  }
+
   private initControls(): void {
     this.controls = new OrbitControls(this.camera, this.renderer.domElement);
     this.controls.enabled = true;
+    this.controls.target.set(...this.app.config.camera.target);
+    this.controls.update();
+    this.controls.addEventListener("change", () => this.urlSync?.request());
+  }
+
+  public getRendererType(): RendererType {
+    return this.forceRenderer;
+  }
+
+  public getRendererReport(): RendererReport {
+    return this.rendererReport;
+  }
+
+  // Called with the probed report, now and after every renderer switch
+  public onRendererReport(
+    listener: (report: RendererReport) => void
+  ): () => void {
+    this.rendererListeners.add(listener);
+    listener(this.rendererReport);
+    return () => this.rendererListeners.delete(listener);
+  }
+
+  /**
+   * Tears down renderer, controls and the active demo and rebuilds them on
+   * another backend. Camera and demo parameters are carried over.
+   */
+  public switchRenderer(type: RendererType): void {
+    if (type === this.forceRenderer) return;
+    console.log(`🔄 Switching renderer: ${this.forceRenderer} -> ${type}`);
+
+    const target = this.controls.target.clone();
+    const demoId = this.activeDemoId;
+    const uniforms = this.activeDemo?.instance.uniforms;
+    const values = uniforms ? serializeUniforms(uniforms) : {};
+    // Keep the demo's assets loaded across the rebuild
+    const groups = this.demoGroups;
+    this.app.assetGroups.retain(groups);
+
+    this.cleanupCurrentDemo();
+    this.controls.dispose();
+
+    const oldCanvas = this.renderer.domElement;
+    const parent = oldCanvas.parentNode ?? document.body;
+    this.renderer.dispose();
+
+    this.forceRenderer = type;
+    this.initRenderer(parent, oldCanvas);
+    oldCanvas.remove();
+
+    this.initControls();
+    this.controls.target.copy(target);
+    this.controls.update();
+
+    this.switchToDemo(demoId, (demo) => {
+      const issues: string[] = [];
+      demo?.instance.uniforms?.assign(values, issues);
+      if (issues.length) {
+        console.warn("⚠️ Parameters not carried over:", issues);
+      }
+    });
+    this.app.assetGroups.release(groups);
+
+    this.resize(this.viewport.width, this.viewport.height);
+    this.urlSync.request();
+  }
+
+  private restoreState(state: UrlState): void {
+    const issues: string[] = [];
+
+    if (state.camera) {
+      this.camera.position.copy(state.camera.position);
+      this.controls.target.copy(state.camera.target);
+      this.controls.update();
+    }
+
+    // URL hash wins over config.initialDemo, then the registry default
+    let demoId = demoRegistry.defaultId;
+    const configured = this.app.config.initialDemo;
+    if (configured && demoRegistry.has(configured)) {
+      demoId = configured;
+    } else if (configured && configured !== NO_DEMO) {
+      issues.push(`config.initialDemo: unknown demo "${configured}"`);
+    } else if (configured === NO_DEMO) {
+      demoId = NO_DEMO;
+    }
+
+    if (
+      state.demo &&
+      (state.demo === NO_DEMO || demoRegistry.has(state.demo))
+    ) {
+      demoId = state.demo;
+    } else if (state.demo) {
+      issues.push(`Unknown demo "${state.demo}", using "${demoId}"`);
+    }
+
+    this.urlSync = new UrlStateSync(() => this.getUrlState());
+    // Parameters apply once the demo exists, after its assets loaded
+    this.switchToDemo(demoId, (demo) => {
+      const uniforms = demo?.instance.uniforms;
+      if (uniforms) {
+        applyUrlParams(uniforms, state.params, issues);
+      } else if (Object.keys(state.params).length > 0) {
+        issues.push(`Demo "${demoId}" has no parameters, ignoring them`);
+      }
+
+      if (issues.length) {
+        console.warn("⚠️ Some startup state was invalid:", issues);
+      }
+      this.urlSync.request();
+    });
+  }
+
+  public getUrlState(): UrlState {
+    const uniforms = this.activeDemo?.instance.uniforms;
+    return {
+      demo: this.activeDemoId,
+      renderer: this.forceRenderer,
+      camera: {
+        position: this.camera.position.clone(),
+        target: this.controls.target.clone(),
+      },
+      params: uniforms ? encodeUniforms(uniforms) : {},
+    };
   }
 
   private initGUI(): void {
@@ -184,8 +278,41 @@ export default class ThreeEngine {
     this.gui = new GUIView(this.app, this);
   }
 
-  onPlaneChange(planeType: PlaneType) {
-    this.switchToPlane(planeType);
+  onDemoChange(id: DemoId) {
+    this.switchToDemo(id);
+    this.urlSync.request();
+  }
+
+  onParameterChange(name: string) {
+    this.urlSync.request();
+  }
+
+  public getDemos(): DemoDefinition[] {
+    return demoRegistry.list();
+  }
+
+  public getActiveDemoId(): DemoId {
+    return this.activeDemoId;
+  }
+
+  public getActiveDemo(): ActiveDemo | null {
+    return this.activeDemo;
+  }
+
+  public getDemoLoadState(id: DemoId): DemoLoadState {
+    const groups = demoRegistry.get(id)?.assets ?? [];
+    const states = groups.map((group) => this.app.assetGroups.state(group));
+    if (states.includes("loading")) return "loading";
+    if (states.includes("failed")) return "failed";
+    return states.every((state) => state === "loaded") ? "ready" : "unloaded";
+  }
+
+  // Fires when a switched-to demo starts loading, is ready or failed
+  public onDemoLoadState(
+    listener: (id: DemoId, state: DemoLoadState) => void
+  ): () => void {
+    this.demoLoadListeners.add(listener);
+    return () => this.demoLoadListeners.delete(listener);
   }
 
   private initGrid(): void {
@@ -196,136 +323,89 @@ export default class ThreeEngine {
     this.scene.add(helper);
   }
 
-  private switchToPlane(planeType: PlaneType): void {
-    console.log(`🔄 Switching to plane: ${planeType}`);
-
-    // Clean up current plane
-    this.cleanupCurrentPlane();
-
-    // Create and add new plane
-    switch (planeType) {
-      case "wave":
-        this.createWavePlane();
-        break;
-      case "sdf":
-        this.createSDFPlane();
-        break;
-      case "desert-tank":
-        this.createDesertTankPlane();
-        break;
-      case "raymarching":
-        this.createRayMarchingPlane();
-        break;
-      case "none":
-        // Just cleanup, no new plane
-        break;
-      default:
-        console.warn(`Unknown plane type: ${planeType}`);
-        return;
-    }
-
-    this.currentActivePlane = planeType;
-    console.log(`✅ Successfully switched to: ${planeType}`);
+  private getDemoContext(): DemoContext {
+    return {
+      app: this.app,
+      scene: this.scene,
+      camera: this.camera,
+      renderer: this.renderer,
+      clock: this.clock,
+      lights: this.lights,
+    };
   }
 
-  private cleanupCurrentPlane(): void {
-    // Remove and dispose current planes
-    if (this.tslPlane) {
-      this.scene.remove(this.tslPlane.mesh);
-      this.tslPlane.dispose();
-      this.tslPlane = null;
-    }
+  private switchToDemo(
+    id: DemoId,
+    onReady?: (demo: ActiveDemo | null) => void
+  ): void {
+    console.log(`🔄 Switching to demo: ${id}`);
 
-    if (this.tslPlaneSDF) {
-      this.scene.remove(this.tslPlaneSDF.mesh);
-      this.tslPlaneSDF.dispose();
-      this.tslPlaneSDF = null;
+    if (id !== NO_DEMO && !demoRegistry.has(id)) {
+      console.warn(`Unknown demo: ${id}`);
+      return;
     }
 
-    if (this.tslDesertTank) {
-      this.scene.remove(this.tslDesertTank.mesh);
-      this.tslDesertTank.dispose();
-      this.tslDesertTank = null;
-    }
+    // Clean up current demo
+    this.cleanupCurrentDemo();
+    this.activeDemoId = id;
+    const switchId = ++this.demoSwitch;
 
-    if (this.raymarchPlane) {
-      this.scene.remove(this.raymarchPlane.mesh);
-      this.raymarchPlane.dispose();
-      this.raymarchPlane = null;
-    }
-  }
+    const groups = demoRegistry.get(id)?.assets ?? [];
+    const assetGroups = this.app.assetGroups;
+    assetGroups.retain(groups);
+    this.demoGroups = groups;
 
-  private createWavePlane(): void {
-    try {
-      this.tslPlane = new TSLPlane({
-        width: 8,
-        height: 8,
-        widthSegments: 128,
-        heightSegments: 128,
-        position: new THREE.Vector3(0, 0, 0),
-      });
-      this.scene.add(this.tslPlane.mesh);
-      console.log("✅ Wave plane created");
-    } catch (error) {
-      console.error("❌ Failed to create wave plane:", error);
+    if (assetGroups.isLoaded(groups)) {
+      this.activateDemo(id, onReady);
+      return;
     }
-  }
 
-  private createSDFPlane(): void {
-    try {
-      this.tslPlaneSDF = new TSLPlaneSDF({
-        width: 8,
-        height: 4,
-        position: new THREE.Vector3(0, 0, 0),
-      });
-
-      // Configure SDF parameters
-      this.tslPlaneSDF.radius = 0.3;
-      this.tslPlaneSDF.fade = 2.0;
+    // Load the demo's groups first, unless another switch happened meanwhile
+    this.notifyDemoLoadState(id, "loading");
+    assetGroups.load(groups).then(
+      () => {
+        if (switchId === this.demoSwitch) this.activateDemo(id, onReady);
+      },
+      (error) => {
+        console.error(`❌ Assets for demo "${id}" failed to load:`, error);
+        if (switchId === this.demoSwitch) {
+          this.notifyDemoLoadState(id, "failed");
+        }
+      }
+    );
+  }
 
-      this.scene.add(this.tslPlaneSDF.mesh);
-      console.log("✅ SDF plane created");
-    } catch (error) {
-      console.error("❌ Failed to create SDF plane:", error);
+  private activateDemo(
+    id: DemoId,
+    onReady?: (demo: ActiveDemo | null) => void
+  ): void {
+    // Create and add new demo ("none" just clears the scene)
+    if (id !== NO_DEMO) {
+      try {
+        this.activeDemo = demoRegistry.activate(id, this.getDemoContext());
+      } catch (error) {
+        console.error(`❌ Failed to create demo "${id}":`, error);
+        this.notifyDemoLoadState(id, "failed");
+        return;
+      }
     }
-  }
 
-  private createDesertTankPlane(): void {
-    try {
-      this.tslDesertTank = new TSLPlaneDesertTank({
-        width: 4,
-        height: 3,
-        position: new THREE.Vector3(0, 0, 0),
-      });
+    console.log(`✅ Successfully switched to: ${id}`);
+    onReady?.(this.activeDemo);
+    this.notifyDemoLoadState(id, "ready");
+  }
 
-      this.scene.add(this.tslDesertTank.mesh);
-      console.log("✅ Desert tank plane created");
-    } catch (error) {
-      console.error("❌ Failed to create desert tank plane:", error);
+  private cleanupCurrentDemo(): void {
+    if (this.activeDemo) {
+      demoRegistry.deactivate(this.activeDemo, this.getDemoContext());
+      this.activeDemo = null;
     }
+    this.app.assetGroups.release(this.demoGroups);
+    this.demoGroups = [];
   }
 
-  private createRayMarchingPlane(): void {
-    // Create the raymarching plane
-    const raymarchPlane = new TSLPlaneRaymarching({
-      width: 8,
-      height: 8,
-      position: new THREE.Vector3(0, 0, 0),
-    });
-
-    // Add to scene
-    this.scene.add(raymarchPlane.mesh);
-
-    // Setup mouse interaction (important!)
-    raymarchPlane.setupMouseInteraction(this.camera, this.renderer.domElement);
-
-    // Control raymarching parameters
-    raymarchPlane.radius = 0.2;
-    raymarchPlane.maxSteps = 25;
-    raymarchPlane.surfaceDistance = 0.0001;
-    raymarchPlane.timeMultiplier = 0.5;
-
-    this.raymarchPlane = raymarchPlane;
+  private notifyDemoLoadState(id: DemoId, state: DemoLoadState): void {
+    this.demoLoadListeners.forEach((listener) => listener(id, state));
   }
 
   private initTestObject(): void {
@@ -410,7 +490,9 @@ export default class ThreeEngine {
   private initTestPlaneTexture(): void {
     const geometry = new THREE.PlaneGeometry(5, 5);
 
-    const texture = new THREE.Texture(this.app.assets["test-image-local"]);
+    const texture = new THREE.Texture(
+      this.app.assets.require("test-image-local")
+    );
     texture.needsUpdate = true;
     texture.wrapS = THREE.ClampToEdgeWrapping;
     texture.wrapT = THREE.ClampToEdgeWrapping;
@@ -434,7 +516,9 @@ export default class ThreeEngine {
   private initTestPlaneShader(): void {
     const geometry = new THREE.PlaneGeometry(5, 5, 32, 32);
 
-    const texture = new THREE.Texture(this.app.assets["test-image-local"]);
+    const texture = new THREE.Texture(
+      this.app.assets.require("test-image-local")
+    );
     texture.needsUpdate = true;
     texture.wrapS = THREE.ClampToEdgeWrapping;
     texture.wrapT = THREE.ClampToEdgeWrapping;
@@ -488,54 +572,128 @@ export default class ThreeEngine {
 
   update(): void {
     if (this.controls) this.controls.update();
+    const tick = this.clock.tick();
 
     if (this.cube) {
-      this.cube.rotation.x += 0.01;
-      this.cube.rotation.y += 0.01;
+      this.cube.rotation.x += 0.6 * tick.delta;
+      this.cube.rotation.y += 0.6 * tick.delta;
     }
 
     if (this.shaderMaterial) {
-      this.shaderMaterial.uniforms.uTime.value = performance.now() * 0.01;
+      this.shaderMaterial.uniforms.uTime.value = tick.time * 10;
     }
 
     if (this.shaderMaterialSimple) {
-      this.shaderMaterialSimple.uniforms.uTime.value = performance.now() * 0.01;
+      this.shaderMaterialSimple.uniforms.uTime.value = tick.time * 10;
     }
 
-    // Update only the currently active plane
-    const currentTime = performance.now() * 0.001; // Convert to seconds
-    const deltaTime = 1 / 60; // Approximate 60fps delta
-
-    switch (this.currentActivePlane) {
-      case "wave":
-        if (this.tslPlane) {
-          this.tslPlane.update(currentTime);
-        }
-        break;
-      case "sdf":
-        if (this.tslPlaneSDF) {
-          this.tslPlaneSDF.update(currentTime);
-        }
-        break;
-      case "desert-tank":
-        if (this.tslDesertTank) {
-          this.tslDesertTank.update(deltaTime);
-        }
-        break;
-      case "raymarching":
-        if (this.raymarchPlane) {
-          this.raymarchPlane.update(deltaTime);
-        }
-        break;
+    // Update only the currently active demo
+    const demo = this.activeDemo;
+    if (!demo) return;
+
+    const { fixedUpdate, update } = demo.definition;
+    if (fixedUpdate) {
+      const fixedDelta = this.clock.fixedDelta;
+      for (let i = 0; i < tick.steps; i++) {
+        fixedUpdate(demo.instance, {
+          time: tick.time - (tick.steps - 1 - i) * fixedDelta,
+          delta: fixedDelta,
+          frame: tick.frame,
+        });
+      }
     }
+    update?.(demo.instance, {
+      time: tick.time,
+      delta: tick.delta,
+      frame: tick.frame,
+    });
   }
 
   render(): void {
     this.renderer.render(this.scene, this.camera);
   }
 
+  public get canvas(): HTMLCanvasElement {
+    return this.renderer.domElement;
+  }
+
+  public isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  // Renders at a fixed output size, one clock step of 1/fps per frame
+  public beginCapture(width: number, height: number, fps: number): void {
+    this.capturing = true;
+    this.clock.useFrameDelta(1 / fps);
+    this.renderer.setPixelRatio(1);
+    // Keep the CSS size so the page layout doesn't jump
+    this.renderer.setSize(width, height, false);
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+  }
+
+  public captureFrame(): void {
+    this.update();
+    this.render();
+  }
+
+  public endCapture(): void {
+    this.capturing = false;
+    this.clock.useFrameDelta(null);
+    this.renderer.setPixelRatio(
+      Math.min(window.devicePixelRatio, this.app.config.maxPixelRatio)
+    );
+    this.resize(this.viewport.width, this.viewport.height);
+  }
+
+  // Renders tiles at pixel ratio 1, optionally without the scene background
+  public beginTiles(transparent: boolean): void {
+    this.capturing = true;
+    this.renderer.setPixelRatio(1);
+    if (transparent) {
+      this.scene.background = null;
+      this.renderer.setClearAlpha(0);
+    }
+  }
+
+  public renderTile(
+    fullWidth: number,
+    fullHeight: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    this.renderer.setSize(width, height, false);
+    this.camera.aspect = fullWidth / fullHeight;
+    this.camera.setViewOffset(fullWidth, fullHeight, x, y, width, height);
+    this.render();
+  }
+
+  public endTiles(): void {
+    this.camera.clearViewOffset();
+    this.scene.background = new THREE.Color(this.app.config.scene.background);
+    this.renderer.setClearColor(this.app.config.scene.background, 1);
+    this.endCapture();
+  }
+
+  // Embedded in screenshots so an image can be traced back to its state
+  public getCaptureMetadata(): Record<string, string> {
+    const state = this.getUrlState();
+    const uniforms = this.activeDemo?.instance.uniforms;
+    return {
+      Software: "TSL Lab",
+      Demo: this.activeDemoId,
+      Renderer: this.rendererReport.backend,
+      Time: this.clock.time.toFixed(4),
+      Parameters: JSON.stringify(uniforms ? serializeUniforms(uniforms) : {}),
+      State: formatUrlState(state),
+    };
+  }
+
   resize(vw: number, vh: number): void {
-    if (!this.renderer) return;
+    this.viewport = { width: vw, height: vh };
+    if (!this.renderer || this.capturing) return;
 
     this.camera.aspect = vw / vh;
     this.camera.updateProjectionMatrix();
@@ -551,7 +709,8 @@ export default class ThreeEngine {
   }
 
   public dispose(): void {
-    this.cleanupCurrentPlane();
+    this.urlSync?.dispose();
+    this.cleanupCurrentDemo();
     if (this.gui) {
       this.gui.dispose();
     }
@@ -0,0 +1,79 @@
+import { addPngText } from "@/utils/png-metadata";
+
+export interface ScreenshotOptions {
+  width: number;
+  height: number;
+  transparent: boolean;
+  // Largest tile rendered at once, keep it under the GPU texture limit
+  tileSize?: number;
+  // Written into the PNG as text chunks
+  metadata?: Record<string, string>;
+}
+
+// What the screenshot drives, implemented by ThreeEngine
+export interface TileSource {
+  readonly canvas: HTMLCanvasElement;
+  beginTiles(transparent: boolean): void;
+  // Renders the (x, y, width, height) region of a fullWidth × fullHeight image
+  renderTile(
+    fullWidth: number,
+    fullHeight: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void;
+  endTiles(): void;
+}
+
+const DEFAULT_TILE_SIZE = 2048;
+
+/**
+ * Renders an image larger than the screen by splitting the camera frustum
+ * into tiles (camera view offsets) and stitching them on a 2D canvas. Shaders
+ * working in screen space (screenUV, fragment coordinates) see tile sized
+ * viewports and won't line up across tiles.
+ */
+export async function captureTiledScreenshot(
+  source: TileSource,
+  options: ScreenshotOptions
+): Promise<Blob> {
+  const width = Math.max(1, Math.round(options.width));
+  const height = Math.max(1, Math.round(options.height));
+  const tileSize = options.tileSize ?? DEFAULT_TILE_SIZE;
+
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const context = output.getContext("2d");
+  if (!context) throw new Error(`Cannot allocate a ${width}×${height} canvas`);
+
+  const columns = Math.ceil(width / tileSize);
+  const rows = Math.ceil(height / tileSize);
+  console.log(`📸 Screenshot ${width}×${height} in ${columns * rows} tile(s)`);
+
+  source.beginTiles(options.transparent);
+  try {
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const x = column * tileSize;
+        const y = row * tileSize;
+        const w = Math.min(tileSize, width - x);
+        const h = Math.min(tileSize, height - y);
+        source.renderTile(width, height, x, y, w, h);
+        // Same task as the render, before the canvas gets presented
+        context.drawImage(source.canvas, 0, 0, w, h, x, y, w, h);
+      }
+    }
+  } finally {
+    source.endTiles();
+  }
+
+  const png = await new Promise<Blob>((resolve, reject) =>
+    output.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("toBlob failed"))),
+      "image/png"
+    )
+  );
+  return options.metadata ? addPngText(png, options.metadata) : png;
+}
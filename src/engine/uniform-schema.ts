@@ -0,0 +1,259 @@
+import * as THREE from "three";
+// Import TSL nodes
+import * as TSL from "three/tsl";
+
+export interface UniformValueTypes {
+  float: number;
+  int: number;
+  bool: boolean;
+  vec2: THREE.Vector2;
+  vec3: THREE.Vector3;
+  color: THREE.Color;
+}
+
+export type UniformType = keyof UniformValueTypes;
+
+export interface UniformSpec<K extends UniformType = UniformType> {
+  type: K;
+  default: UniformValueTypes[K];
+  // GLSL name in the fallback ShaderMaterial, defaults to "u" + Name
+  glsl?: string;
+  label?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  description?: string;
+  // Driven by code (e.g. game state), kept out of the parameter panel
+  hidden?: boolean;
+}
+
+// Union of every UniformSpec<K>, so type and default are checked together
+export type AnyUniformSpec = {
+  [K in UniformType]: UniformSpec<K>;
+}[UniformType];
+
+export type UniformSchema = Record<string, AnyUniformSpec>;
+
+export type UniformValues<S extends UniformSchema> = {
+  [K in keyof S]: UniformValueTypes[S[K]["type"]];
+};
+
+// URL hash keys of the app state, parameters share the hash with them
+export const RESERVED_UNIFORM_NAMES = ["demo", "renderer", "cam", "target"];
+
+// Identity helper that keeps the literal spec types for UniformValues<S>,
+// rejecting names that would collide with the URL state
+export function defineUniforms<S extends UniformSchema>(schema: S): S {
+  const reserved = Object.keys(schema).filter((name) =>
+    RESERVED_UNIFORM_NAMES.includes(name)
+  );
+  if (reserved.length) {
+    throw new Error(`Reserved uniform names: ${reserved.join(", ")}`);
+  }
+  return schema;
+}
+
+export function glslUniformName(name: string, spec: AnyUniformSpec): string {
+  return spec.glsl ?? `u${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
+
+function cloneValue<T>(value: T): T {
+  if (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Color
+  ) {
+    return value.clone() as T;
+  }
+  return value;
+}
+
+function isCopyable(value: unknown): value is { copy(v: unknown): unknown } {
+  return (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Color
+  );
+}
+
+/**
+ * Holds the values of a uniform schema and exposes them both as TSL uniform
+ * nodes and as ShaderMaterial uniforms, so the two paths never drift apart.
+ */
+export class UniformSet<S extends UniformSchema> {
+  readonly schema: S;
+  // Shared IUniform objects, spread directly into ShaderMaterial.uniforms
+  readonly glsl: Record<string, THREE.IUniform>;
+  private storage = {} as { [K in keyof S]: THREE.IUniform };
+  private nodes: Partial<Record<keyof S, any>> = {};
+
+  constructor(schema: S) {
+    this.schema = schema;
+    this.glsl = {};
+
+    for (const name of Object.keys(schema) as (keyof S & string)[]) {
+      const spec = schema[name];
+      const uniform: THREE.IUniform = { value: cloneValue(spec.default) };
+      this.storage[name] = uniform;
+      this.glsl[glslUniformName(name, spec)] = uniform;
+    }
+  }
+
+  names(): (keyof S & string)[] {
+    return Object.keys(this.schema) as (keyof S & string)[];
+  }
+
+  // TSL uniform node, created on first use
+  node<K extends keyof S>(name: K): any {
+    if (!this.nodes[name]) {
+      const spec = this.schema[name];
+      const value = this.storage[name].value;
+      // Vectors and colors share their instance with the GLSL uniform
+      this.nodes[name] =
+        spec.type === "int" || spec.type === "bool"
+          ? TSL.uniform(value, spec.type)
+          : TSL.uniform(value);
+    }
+    return this.nodes[name];
+  }
+
+  get<K extends keyof S>(name: K): UniformValues<S>[K] {
+    return this.storage[name].value;
+  }
+
+  set<K extends keyof S>(name: K, value: UniformValues<S>[K]): void {
+    const uniform = this.storage[name];
+    if (isCopyable(uniform.value)) {
+      uniform.value.copy(value);
+    } else {
+      uniform.value = value;
+      if (this.nodes[name]) this.nodes[name].value = value;
+    }
+  }
+
+  values(): UniformValues<S> {
+    const result = {} as UniformValues<S>;
+    for (const name of this.names()) {
+      result[name] = cloneValue(this.get(name));
+    }
+    return result;
+  }
+
+  // Applies untrusted values, reporting unknown names and clamping ranges
+  assign(values: Record<string, unknown>, issues: string[]): void {
+    for (const [name, value] of Object.entries(values)) {
+      const spec = this.schema[name];
+      if (!spec) {
+        issues.push(`Unknown parameter "${name}"`);
+        continue;
+      }
+      const sanitized = sanitizeUniformValue(name, spec, value, issues);
+      if (sanitized !== undefined) {
+        this.set(name, sanitized as UniformValues<S>[typeof name]);
+      }
+    }
+  }
+
+  reset(): void {
+    for (const name of this.names()) {
+      this.set(
+        name,
+        this.schema[name].default as UniformValues<S>[typeof name]
+      );
+    }
+  }
+}
+
+/**
+ * Generates a getter/setter pair on the class prototype for every uniform in
+ * the schema. Pair it with `interface Demo extends UniformValues<S> {}` so the
+ * accessors are typed.
+ */
+export function defineUniformAccessors<S extends UniformSchema>(
+  target: abstract new (...args: any[]) => { uniforms: UniformSet<S> },
+  schema: S
+): void {
+  for (const name of Object.keys(schema)) {
+    Object.defineProperty(target.prototype, name, {
+      get(this: { uniforms: UniformSet<S> }) {
+        return this.uniforms.get(name);
+      },
+      set(this: { uniforms: UniformSet<S> }, value) {
+        this.uniforms.set(name, value);
+      },
+      configurable: true,
+      enumerable: false,
+    });
+  }
+}
+
+function clampNumber(value: number, spec: AnyUniformSpec): number {
+  const min = spec.min ?? -Infinity;
+  const max = spec.max ?? Infinity;
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Checks an untrusted value (URL, preset file, ...) against its spec.
+ * Out-of-range numbers are clamped, invalid values return undefined; both
+ * push a human readable entry onto `issues`.
+ */
+export function sanitizeUniformValue(
+  name: string,
+  spec: AnyUniformSpec,
+  value: unknown,
+  issues: string[]
+): UniformValueTypes[UniformType] | undefined {
+  const isFiniteNumber = (v: unknown): v is number =>
+    typeof v === "number" && Number.isFinite(v);
+  const components = (v: unknown, keys: string[]): number[] | null => {
+    if (Array.isArray(v)) {
+      return v.length === keys.length && v.every(isFiniteNumber) ? v : null;
+    }
+    if (v && typeof v === "object") {
+      const values = keys.map((key) => (v as Record<string, unknown>)[key]);
+      return values.every(isFiniteNumber) ? (values as number[]) : null;
+    }
+    return null;
+  };
+  const clampWithReport = (v: number): number => {
+    const clamped = clampNumber(v, spec);
+    if (clamped !== v) {
+      issues.push(`"${name}" ${v} is out of range, clamped to ${clamped}`);
+    }
+    return clamped;
+  };
+
+  switch (spec.type) {
+    case "float":
+    case "int": {
+      if (!isFiniteNumber(value)) break;
+      const v = spec.type === "int" ? Math.round(value) : value;
+      return clampWithReport(v);
+    }
+    case "bool":
+      if (typeof value === "boolean") return value;
+      break;
+    case "vec2": {
+      const c = components(value, ["x", "y"]);
+      if (c) return new THREE.Vector2(...c.map(clampWithReport));
+      break;
+    }
+    case "vec3": {
+      const c = components(value, ["x", "y", "z"]);
+      if (c) return new THREE.Vector3(...c.map(clampWithReport));
+      break;
+    }
+    case "color": {
+      if (typeof value === "string" || typeof value === "number") {
+        return new THREE.Color(value);
+      }
+      const c = components(value, ["r", "g", "b"]);
+      if (c) return new THREE.Color(...c);
+      break;
+    }
+  }
+
+  issues.push(`"${name}" has an invalid ${spec.type} value: ${String(value)}`);
+  return undefined;
+}
@@ -0,0 +1,154 @@
+import { ButtonApi, FolderApi, Pane } from "tweakpane";
+import {
+  CaptureSource,
+  ExportFormat,
+  ExportOptions,
+  FrameExporter,
+} from "@/engine/frame-exporter";
+import {
+  ScreenshotOptions,
+  TileSource,
+  captureTiledScreenshot,
+} from "@/engine/tiled-screenshot";
+import { downloadBlob } from "@/utils/download";
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  "png-zip": "zip",
+  webm: "webm",
+};
+
+// Implemented by ThreeEngine
+type ExportSource = CaptureSource &
+  TileSource & { getCaptureMetadata(): Record<string, string> };
+
+// Tweakpane panel to render the scene to a video, PNG sequence or screenshot
+export default class ExportPanel {
+  private pane: Pane;
+  private source: ExportSource;
+  private exporter: FrameExporter;
+  private options: ExportOptions = {
+    format: "webm",
+    width: 1920,
+    height: 1080,
+    fps: 60,
+    duration: 5,
+  };
+  private screenshot: ScreenshotOptions = {
+    width: 7680,
+    height: 4320,
+    transparent: false,
+  };
+  private status = { progress: 0, info: "idle" };
+  private button: ButtonApi;
+  private abort: AbortController | null = null;
+
+  constructor(container: HTMLElement, source: ExportSource) {
+    this.source = source;
+    this.exporter = new FrameExporter(source);
+    this.pane = new Pane({ container, title: "Export", expanded: false });
+
+    const video = this.pane.addFolder({ title: "Video" });
+    video.addBinding(this.options, "format", {
+      options: { "PNG sequence (zip)": "png-zip", WebM: "webm" },
+    });
+    this.addSizeBindings(video, this.options, 7680, 4320);
+    video.addBinding(this.options, "fps", { min: 1, max: 120, step: 1 });
+    video.addBinding(this.options, "duration", {
+      label: "seconds",
+      min: 0.1,
+      max: 120,
+      step: 0.1,
+    });
+
+    this.button = video.addButton({ title: "Export" });
+    this.button.on("click", () =>
+      this.abort ? this.abort.abort() : this.run()
+    );
+
+    const still = this.pane.addFolder({ title: "Screenshot" });
+    this.addSizeBindings(still, this.screenshot, 16384, 16384);
+    still.addBinding(this.screenshot, "transparent");
+    still
+      .addButton({ title: "Save PNG" })
+      .on("click", () => this.takeScreenshot());
+
+    this.pane.addBinding(this.status, "progress", {
+      readonly: true,
+      format: (value: number) => `${Math.round(value * 100)}%`,
+    });
+    this.pane.addBinding(this.status, "info", { readonly: true });
+  }
+
+  private addSizeBindings(
+    folder: FolderApi,
+    target: { width: number; height: number },
+    maxWidth: number,
+    maxHeight: number
+  ): void {
+    folder.addBinding(target, "width", { min: 16, max: maxWidth, step: 2 });
+    folder.addBinding(target, "height", { min: 16, max: maxHeight, step: 2 });
+  }
+
+  private async run(): Promise<void> {
+    const abort = new AbortController();
+    this.abort = abort;
+    this.button.title = "Cancel";
+    this.setStatus(0, "rendering…");
+
+    const { format, width, height, fps } = this.options;
+    try {
+      const blob = await this.exporter.export(
+        { ...this.options },
+        {
+          signal: abort.signal,
+          onProgress: ({ frame, total }) =>
+            this.setStatus(frame / total, `frame ${frame} / ${total}`),
+        }
+      );
+      const name = `tsl-lab_${width}x${height}_${fps}fps.${EXTENSIONS[format]}`;
+      downloadBlob(blob, name);
+      this.setStatus(1, `saved ${(blob.size / 1e6).toFixed(1)} MB`);
+      console.log(`🎬 Exported ${name}`);
+    } catch (e) {
+      if (abort.signal.aborted) {
+        this.setStatus(0, "cancelled");
+      } else {
+        console.error("Export failed:", e);
+        this.setStatus(0, `failed: ${(e as Error).message ?? e}`);
+      }
+    } finally {
+      this.abort = null;
+      this.button.title = "Export";
+    }
+  }
+
+  private async takeScreenshot(): Promise<void> {
+    if (this.abort) return; // a video export owns the renderer
+    const { width, height } = this.screenshot;
+    this.setStatus(0, "rendering screenshot…");
+    try {
+      const blob = await captureTiledScreenshot(this.source, {
+        ...this.screenshot,
+        metadata: this.source.getCaptureMetadata(),
+      });
+      const name = `tsl-lab_${width}x${height}.png`;
+      downloadBlob(blob, name);
+      this.setStatus(1, `saved ${(blob.size / 1e6).toFixed(1)} MB`);
+      console.log(`📸 Saved ${name}`);
+    } catch (e) {
+      console.error("Screenshot failed:", e);
+      this.setStatus(0, `failed: ${(e as Error).message ?? e}`);
+    }
+  }
+
+  private setStatus(progress: number, info: string): void {
+    this.status.progress = progress;
+    this.status.info = info;
+    this.pane.refresh();
+  }
+
+  public dispose(): void {
+    this.abort?.abort();
+    this.pane.dispose();
+  }
+}
@@ -0,0 +1,109 @@
+import type { ActiveDemo, DemoGame } from "@/engine/demo-registry";
+
+const CONTROLS = "A / D move · W jump · Space fire · P pause";
+
+// Score bar and state messages over the canvas for demos with a game
+export default class GameHud {
+  private el: HTMLDivElement;
+  private stats: HTMLDivElement;
+  private message: HTMLDivElement;
+  private game: DemoGame | null = null;
+  private unsubscribe: () => void = () => {};
+
+  constructor(parent: HTMLElement = document.body) {
+    this.el = document.createElement("div");
+    this.el.style.position = "fixed";
+    this.el.style.inset = "0";
+    this.el.style.pointerEvents = "none";
+    this.el.style.color = "white";
+    this.el.style.fontFamily = "Arial, sans-serif";
+    this.el.style.fontSize = "14px";
+    this.el.style.textShadow = "0 1px 3px rgba(0,0,0,0.8)";
+    this.el.style.display = "none";
+
+    this.stats = document.createElement("div");
+    this.stats.style.position = "absolute";
+    this.stats.style.top = "10px";
+    this.stats.style.left = "10px";
+    this.stats.style.padding = "6px 10px";
+    this.stats.style.background = "rgba(0,0,0,0.5)";
+    this.stats.style.borderRadius = "5px";
+    this.stats.style.fontWeight = "bold";
+    this.stats.style.whiteSpace = "pre";
+    this.el.appendChild(this.stats);
+
+    this.message = document.createElement("div");
+    this.message.style.position = "absolute";
+    this.message.style.top = "50%";
+    this.message.style.left = "50%";
+    this.message.style.transform = "translate(-50%, -50%)";
+    this.message.style.padding = "16px 24px";
+    this.message.style.background = "rgba(0,0,0,0.6)";
+    this.message.style.borderRadius = "5px";
+    this.message.style.textAlign = "center";
+    this.message.style.whiteSpace = "pre-wrap";
+    this.message.style.lineHeight = "1.5";
+    this.el.appendChild(this.message);
+
+    parent.appendChild(this.el);
+  }
+
+  public setDemo(demo: ActiveDemo | null): void {
+    this.clear();
+    this.game = demo?.instance.game ?? null;
+    if (!this.game) return;
+    this.unsubscribe = this.game.onChange(() => this.render());
+    this.el.style.display = "block";
+    this.render();
+  }
+
+  public clear(): void {
+    this.unsubscribe();
+    this.unsubscribe = () => {};
+    this.game = null;
+    this.el.style.display = "none";
+  }
+
+  public dispose(): void {
+    this.clear();
+    this.el.parentNode?.removeChild(this.el);
+  }
+
+  private render(): void {
+    const game = this.game;
+    if (!game) return;
+    const best = game.highScores[0]?.score ?? 0;
+    this.stats.textContent =
+      `SCORE ${game.score}   HI ${Math.max(best, game.score)}   ` +
+      `LIVES ${"♥".repeat(game.lives)}   LEVEL ${game.level}`;
+
+    const lines: string[] = [];
+    switch (game.state) {
+      case "title":
+        lines.push("DESERT TANK", "", "Press Enter to start", CONTROLS);
+        lines.push("", ...this.scoreTable(game));
+        break;
+      case "paused":
+        lines.push("PAUSED", "", "Press P to resume");
+        break;
+      case "gameover":
+        lines.push("GAME OVER", "", `Score ${game.score}`);
+        if (game.rank >= 0) lines.push(`New high score, #${game.rank + 1}!`);
+        lines.push("", ...this.scoreTable(game), "", "Press Enter to retry");
+        break;
+    }
+    this.message.textContent = lines.join("\n");
+    this.message.style.display = lines.length ? "block" : "none";
+  }
+
+  private scoreTable(game: DemoGame): string[] {
+    if (!game.highScores.length) return ["No high scores yet"];
+    return [
+      "High scores",
+      ...game.highScores.map(
+        ({ score, date }, i) =>
+          `${i + 1}. ${score}  (${new Date(date).toLocaleDateString()})`
+      ),
+    ];
+  }
+}
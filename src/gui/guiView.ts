@@ -1,10 +1,20 @@
 import type App from "@/app/app";
 import ThreeEngine from "@/engine/three-engine";
-
-export type PlaneType = "wave" | "sdf" | "desert-tank" | "raymarching" | "none";
+import { DemoId, DemoLoadState, NO_DEMO } from "@/engine/demo-registry";
+import ParameterPanel from "./parameterPanel";
+import ExportPanel from "./exportPanel";
+import SdfEditorPanel from "./sdfEditorPanel";
+import GameHud from "./gameHud";
+import { PresetStore } from "@/utils/presets";
+import { AssetCache } from "@/utils/asset-cache";
+import {
+  RENDERER_TYPES,
+  RendererReport,
+  RendererType,
+} from "@/engine/renderer-factory";
 
 interface GUIParams {
-  activePlane: PlaneType;
+  activeDemo: DemoId;
 }
 
 export default class GUIView {
@@ -12,16 +22,25 @@ export default class GUIView {
   private threeEngine: ThreeEngine;
   private params: GUIParams;
   private gui: HTMLDivElement;
-  private buttons: { [key in PlaneType]: HTMLButtonElement } = {} as any;
-
-  // Callback for when plane type changes
+  private buttons: Record<DemoId, HTMLButtonElement> = {};
+  private parameterPanel: ParameterPanel;
+  private exportPanel: ExportPanel;
+  private sdfEditorPanel: SdfEditorPanel;
+  private gameHud: GameHud;
+  private rendererButtons: Partial<Record<RendererType, HTMLButtonElement>> =
+    {};
+  private labels: Record<DemoId, string> = {};
+  private unsubscribeRenderer: () => void = () => {};
+  private unsubscribeDemoLoad: () => void = () => {};
+  private unsubscribeClock: () => void = () => {};
 
   constructor(app: App, threeEngine: ThreeEngine) {
     console.log(threeEngine);
     this.app = app;
     this.threeEngine = threeEngine;
+    // The engine owns the initial demo, the GUI only mirrors it
     this.params = {
-      activePlane: "wave",
+      activeDemo: threeEngine.getActiveDemoId(),
     };
 
     this.initGUI();
@@ -48,36 +67,22 @@ export default class GUIView {
     title.style.textAlign = "center";
     this.gui.appendChild(title);
 
-    // Create buttons for each plane type
-    const planeTypes: {
-      type: PlaneType;
+    // Create buttons for each registered demo
+    const demoButtons: {
+      id: DemoId;
       label: string;
     }[] = [
-      {
-        type: "wave",
-        label: "Wave Plane",
-      },
-      {
-        type: "sdf",
-        label: "SDF Shapes",
-      },
-      {
-        type: "desert-tank",
-        label: "Desert Tank",
-      },
-      {
-        type: "raymarching",
-        label: "Raymarching",
-      },
-      { type: "none", label: "Clear Scene" },
+      ...this.threeEngine.getDemos().map(({ id, label }) => ({ id, label })),
+      { id: NO_DEMO, label: "Clear Scene" },
     ];
 
-    planeTypes.forEach(({ type, label }) => {
+    demoButtons.forEach(({ id, label }) => {
       const buttonContainer = document.createElement("div");
       buttonContainer.style.marginBottom = "2px";
 
       const button = document.createElement("button");
       button.textContent = label;
+      this.labels[id] = label;
       button.style.width = "100%";
       button.style.padding = "2px";
       button.style.border = "2px solid rgba(255,255,255,0.3)";
@@ -95,7 +100,7 @@ export default class GUIView {
       });
 
       button.addEventListener("mouseleave", () => {
-        if (this.params.activePlane !== type) {
+        if (this.params.activeDemo !== id) {
           button.style.background = "rgba(255,255,255,0.1)";
           button.style.borderColor = "rgba(255,255,255,0.3)";
         }
@@ -103,16 +108,62 @@ export default class GUIView {
 
       // Click handler
       button.addEventListener("click", () => {
-        this.setActivePlane(type);
+        this.setActiveDemo(id);
       });
 
       buttonContainer.appendChild(button);
       this.gui.appendChild(buttonContainer);
 
-      this.buttons[type] = button;
+      this.buttons[id] = button;
     });
 
-    // Add controls info
+    // Renderer switch
+    const rendererRow = document.createElement("div");
+    rendererRow.style.display = "flex";
+    rendererRow.style.gap = "4px";
+    rendererRow.style.marginTop = "10px";
+
+    RENDERER_TYPES.forEach((type) => {
+      const button = document.createElement("button");
+      button.textContent = type;
+      button.style.flex = "1";
+      button.style.padding = "2px";
+      button.style.border = "2px solid rgba(255,255,255,0.3)";
+      button.style.background = "rgba(255,255,255,0.1)";
+      button.style.color = "white";
+      button.style.cursor = "pointer";
+      button.style.borderRadius = "5px";
+      button.style.fontSize = "12px";
+      button.addEventListener("click", () => this.setRenderer(type));
+      rendererRow.appendChild(button);
+      this.rendererButtons[type] = button;
+    });
+    this.gui.appendChild(rendererRow);
+
+    this.initTimeControls();
+
+    // Debug only: drop the persistent asset cache
+    if (this.app.config.debug) {
+      const clearCache = document.createElement("button");
+      clearCache.textContent = "Clear Asset Cache";
+      clearCache.style.width = "100%";
+      clearCache.style.marginTop = "4px";
+      clearCache.style.padding = "2px";
+      clearCache.style.border = "2px solid rgba(255,255,255,0.3)";
+      clearCache.style.background = "rgba(255,255,255,0.1)";
+      clearCache.style.color = "white";
+      clearCache.style.cursor = "pointer";
+      clearCache.style.borderRadius = "5px";
+      clearCache.style.fontSize = "12px";
+      clearCache.addEventListener("click", async () => {
+        const count = await AssetCache.clear();
+        console.log(`🗑️ Cleared ${count} asset cache(s)`);
+        clearCache.textContent = `Cleared ${count} cache(s)`;
+      });
+      this.gui.appendChild(clearCache);
+    }
+
+    // Add controls info - shows the renderer capability report
     const controlsInfo = document.createElement("div");
     controlsInfo.style.marginTop = "15px";
     controlsInfo.style.padding = "10px";
@@ -120,19 +171,172 @@ export default class GUIView {
     controlsInfo.style.borderRadius = "5px";
     controlsInfo.style.fontSize = "11px";
     controlsInfo.style.lineHeight = "1.4";
+    controlsInfo.style.whiteSpace = "pre-wrap";
+    controlsInfo.style.maxWidth = "260px";
 
     this.gui.appendChild(controlsInfo);
+    this.unsubscribeRenderer = this.threeEngine.onRendererReport((report) =>
+      this.showRendererReport(controlsInfo, report)
+    );
+
+    // Parameter panel for the active demo
+    const panelContainer = document.createElement("div");
+    panelContainer.style.marginTop = "10px";
+    this.gui.appendChild(panelContainer);
+    this.parameterPanel = new ParameterPanel(panelContainer, {
+      onChange: (name) => this.threeEngine.onParameterChange(name),
+      // Built-in presets ship through the manifest as the "presets" asset
+      presets: new PresetStore(this.app.assets.get("presets")),
+    });
+
+    // Shape editing for demos that expose an SdfEditor
+    const editorContainer = document.createElement("div");
+    editorContainer.style.marginTop = "10px";
+    this.gui.appendChild(editorContainer);
+    this.sdfEditorPanel = new SdfEditorPanel(editorContainer);
+
+    // Score and state overlay for demos with a game
+    this.gameHud = new GameHud();
+
+    // Deterministic video / image sequence export
+    const exportContainer = document.createElement("div");
+    exportContainer.style.marginTop = "10px";
+    this.gui.appendChild(exportContainer);
+    this.exportPanel = new ExportPanel(exportContainer, this.threeEngine);
 
     document.body.appendChild(this.gui);
 
-    // Set initial active plane
-    this.setActivePlane(this.params.activePlane);
+    // Demos with asset groups become ready asynchronously
+    this.unsubscribeDemoLoad = this.threeEngine.onDemoLoadState((id, state) =>
+      this.onDemoLoadState(id, state)
+    );
+
+    // Highlight the demo the engine started with
+    this.updateButtons();
+    this.parameterPanel.setDemo(this.threeEngine.getActiveDemo());
+    this.sdfEditorPanel.setDemo(this.threeEngine.getActiveDemo());
+    this.gameHud.setDemo(this.threeEngine.getActiveDemo());
   }
 
-  private setActivePlane(planeType: PlaneType): void {
-    // Update visual state of buttons
-    Object.entries(this.buttons).forEach(([type, button]) => {
-      if (type === planeType) {
+  // Pause / step / time scale for the engine clock
+  private initTimeControls(): void {
+    const clock = this.threeEngine.clock;
+
+    const row = document.createElement("div");
+    row.style.display = "flex";
+    row.style.gap = "4px";
+    row.style.marginTop = "4px";
+    row.style.alignItems = "center";
+
+    const makeButton = (label: string, onClick: () => void) => {
+      const button = document.createElement("button");
+      button.textContent = label;
+      button.style.flex = "1";
+      button.style.padding = "2px";
+      button.style.border = "2px solid rgba(255,255,255,0.3)";
+      button.style.background = "rgba(255,255,255,0.1)";
+      button.style.color = "white";
+      button.style.cursor = "pointer";
+      button.style.borderRadius = "5px";
+      button.style.fontSize = "12px";
+      button.addEventListener("click", onClick);
+      row.appendChild(button);
+      return button;
+    };
+
+    const playButton = makeButton("⏸ Pause", () => clock.toggle());
+    const stepButton = makeButton("Step", () => clock.step());
+    stepButton.title = `Advance one fixed step (${(
+      clock.fixedDelta * 1000
+    ).toFixed(1)} ms)`;
+
+    const scale = document.createElement("input");
+    scale.type = "range";
+    scale.min = "0";
+    scale.max = "2";
+    scale.step = "0.05";
+    scale.style.flex = "1";
+    scale.style.minWidth = "0";
+    scale.addEventListener("input", () => {
+      clock.timeScale = Number(scale.value);
+    });
+    row.appendChild(scale);
+
+    const scaleLabel = document.createElement("span");
+    scaleLabel.style.fontSize = "11px";
+    scaleLabel.style.width = "36px";
+    scaleLabel.style.textAlign = "right";
+    row.appendChild(scaleLabel);
+
+    const refresh = () => {
+      playButton.textContent = clock.isPaused ? "▶ Play" : "⏸ Pause";
+      scale.value = String(clock.timeScale);
+      scaleLabel.textContent = `×${clock.timeScale.toFixed(2)}`;
+    };
+    this.unsubscribeClock = clock.onChange(refresh);
+    refresh();
+
+    this.gui.appendChild(row);
+  }
+
+  private onDemoLoadState(id: DemoId, state: DemoLoadState): void {
+    const button = this.buttons[id];
+    if (button) {
+      const suffix =
+        state === "loading" ? " (loading…)" : state === "failed" ? " ⚠" : "";
+      button.textContent = `${this.labels[id]}${suffix}`;
+    }
+    if (id === this.threeEngine.getActiveDemoId()) {
+      this.parameterPanel.setDemo(this.threeEngine.getActiveDemo());
+      this.sdfEditorPanel.setDemo(this.threeEngine.getActiveDemo());
+      this.gameHud.setDemo(this.threeEngine.getActiveDemo());
+    }
+  }
+
+  private setActiveDemo(id: DemoId): void {
+    // Update params
+    this.params.activeDemo = id;
+    this.updateButtons();
+
+    // The parameter panel follows through onDemoLoadState
+    this.threeEngine.onDemoChange(id);
+    console.log(`🎮 Switched to demo: ${id}`);
+  }
+
+  private setRenderer(type: RendererType): void {
+    // The demo is rebuilt, onDemoLoadState rebinds its new uniforms
+    this.threeEngine.switchRenderer(type);
+    console.log(`🎮 Switched renderer to: ${type}`);
+  }
+
+  private showRendererReport(el: HTMLElement, report: RendererReport): void {
+    Object.entries(this.rendererButtons).forEach(([type, button]) => {
+      const active = type === report.requested;
+      button.style.background = active
+        ? "rgba(100,200,255,0.3)"
+        : "rgba(255,255,255,0.1)";
+      button.style.borderColor = active
+        ? "rgba(100,200,255,0.8)"
+        : "rgba(255,255,255,0.3)";
+    });
+
+    const lines = [
+      `Backend: ${report.backend} (${report.rendererClass})`,
+      ...report.fallbacks.map((reason) => `Fallback: ${reason}`),
+      ...Object.entries(report.adapter ?? {})
+        .filter(([, value]) => value)
+        .map(([key, value]) => `${key}: ${value}`),
+    ];
+    el.textContent = lines.join("\n");
+    // Full limits are long, keep them in a tooltip and the console
+    el.title = Object.entries(report.limits)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join("\n");
+  }
+
+  private updateButtons(): void {
+    Object.entries(this.buttons).forEach(([id, button]) => {
+      if (id === this.params.activeDemo) {
         button.style.background = "rgba(100,200,255,0.3)";
         button.style.borderColor = "rgba(100,200,255,0.8)";
         button.style.color = "rgba(100,200,255,1)";
@@ -142,25 +346,24 @@ export default class GUIView {
         button.style.color = "white";
       }
     });
+  }
 
-    // Update params
-    this.params.activePlane = planeType;
-
-    // Trigger callback
-    // if (this.onPlaneTypeChange) {
-    //   console.log("xxx");
-    //   this.onPlaneTypeChange(planeType);
-    // }
-    console.log(this.threeEngine);
-    this.threeEngine.onPlaneChange(planeType);
-    console.log(`🎮 Switched to plane: ${planeType}`);
+  public getCurrentDemoId(): DemoId {
+    return this.params.activeDemo;
   }
 
-  public getCurrentPlaneType(): PlaneType {
-    return this.params.activePlane;
+  public refreshParameters(): void {
+    this.parameterPanel.refresh();
   }
 
   public dispose(): void {
+    this.unsubscribeRenderer();
+    this.unsubscribeDemoLoad();
+    this.unsubscribeClock();
+    this.parameterPanel.dispose();
+    this.sdfEditorPanel.dispose();
+    this.gameHud.dispose();
+    this.exportPanel.dispose();
     if (this.gui && this.gui.parentNode) {
       this.gui.parentNode.removeChild(this.gui);
     }
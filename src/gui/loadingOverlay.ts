@@ -0,0 +1,187 @@
+import type { LoadProgress } from "@/types/types";
+import { PreloadResult, isCritical } from "@/utils/preloader";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const STATUS_ICONS = {
+  pending: "·",
+  loading: "↻",
+  loaded: "✓",
+  failed: "✗",
+};
+
+// Full screen loading progress, shrinks to a notice for non-critical failures
+export default class LoadingOverlay {
+  private el: HTMLDivElement;
+  private title: HTMLDivElement;
+  private bar: HTMLDivElement;
+  private summary: HTMLDivElement;
+  private list: HTMLDivElement;
+  private actions: HTMLDivElement;
+
+  constructor(private parent: HTMLElement = document.body) {
+    this.el = document.createElement("div");
+    this.el.style.position = "fixed";
+    this.el.style.zIndex = "99999999";
+    this.el.style.background = "rgba(0,0,0,0.9)";
+    this.el.style.color = "white";
+    this.el.style.fontFamily = "Arial, sans-serif";
+    this.el.style.fontSize = "12px";
+    this.el.style.boxSizing = "border-box";
+    this.el.style.transition = "opacity 0.3s ease";
+
+    this.title = document.createElement("div");
+    this.title.style.fontSize = "14px";
+    this.title.style.fontWeight = "bold";
+    this.title.style.marginBottom = "10px";
+    this.el.appendChild(this.title);
+
+    const track = document.createElement("div");
+    track.style.height = "4px";
+    track.style.background = "rgba(255,255,255,0.1)";
+    track.style.borderRadius = "2px";
+    track.style.overflow = "hidden";
+    this.bar = document.createElement("div");
+    this.bar.style.height = "100%";
+    this.bar.style.width = "0%";
+    this.bar.style.background = "rgba(100,200,255,0.8)";
+    this.bar.style.transition = "width 0.2s ease";
+    track.appendChild(this.bar);
+    this.el.appendChild(track);
+
+    this.summary = document.createElement("div");
+    this.summary.style.marginTop = "8px";
+    this.summary.style.opacity = "0.7";
+    this.el.appendChild(this.summary);
+
+    this.list = document.createElement("div");
+    this.list.style.marginTop = "10px";
+    this.list.style.lineHeight = "1.5";
+    this.list.style.whiteSpace = "pre-wrap";
+    this.el.appendChild(this.list);
+
+    this.actions = document.createElement("div");
+    this.actions.style.display = "flex";
+    this.actions.style.gap = "6px";
+    this.actions.style.marginTop = "10px";
+    this.el.appendChild(this.actions);
+
+    this.setLayout("fullscreen");
+    this.title.textContent = "Loading…";
+    parent.appendChild(this.el);
+  }
+
+  public update(progress: LoadProgress): void {
+    this.bar.style.width = `${Math.round(progress.ratio * 100)}%`;
+    this.bar.style.background = "rgba(100,200,255,0.8)";
+
+    const bytes =
+      progress.bytesTotal !== null
+        ? `${formatBytes(progress.bytesLoaded)} / ${formatBytes(
+            progress.bytesTotal
+          )}`
+        : formatBytes(progress.bytesLoaded);
+    this.summary.textContent = `${progress.loaded}/${progress.total} items · ${bytes}`;
+
+    this.list.textContent = progress.items
+      .map((item) => {
+        const retry = item.attempt > 1 ? ` (attempt ${item.attempt})` : "";
+        return `${STATUS_ICONS[item.status]} ${item.id}${retry}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Lists the failed items. Critical failures keep the overlay blocking,
+   * otherwise it shrinks to a corner notice. Resolves true on Retry and
+   * false on Dismiss.
+   */
+  public showFailures(result: PreloadResult): Promise<boolean> {
+    const critical = result.failed.some(isCritical);
+    this.setLayout(critical ? "fullscreen" : "notice");
+    this.bar.style.background = "rgba(255,100,100,0.8)";
+    this.title.textContent = critical
+      ? "❌ Required assets failed to load, the lab cannot start"
+      : "⚠️ Some assets failed to load";
+    this.summary.textContent = critical
+      ? "Check the network or the manifest and retry."
+      : "The lab is running without them.";
+    this.list.textContent = result.failed
+      .map((item) => {
+        const flag = isCritical(item) ? " [critical]" : "";
+        return `✗ ${item.id}${flag}: ${result.errors[item.id]}`;
+      })
+      .join("\n");
+
+    this.actions.innerHTML = "";
+    return new Promise((resolve) => {
+      this.addAction("Retry", () => {
+        this.actions.innerHTML = "";
+        this.title.textContent = "Retrying…";
+        resolve(true);
+      });
+      if (!critical) {
+        this.addAction("Dismiss", () => {
+          this.hide();
+          resolve(false);
+        });
+      }
+    });
+  }
+
+  // Startup failed outside of asset loading, nothing left to retry
+  public showError(message: string): void {
+    this.setLayout("fullscreen");
+    this.el.style.opacity = "1";
+    this.el.style.pointerEvents = "auto";
+    if (!this.el.isConnected) this.parent.appendChild(this.el);
+    this.bar.style.width = "100%";
+    this.bar.style.background = "rgba(255,100,100,0.8)";
+    this.title.textContent = "❌ The lab failed to start";
+    this.summary.textContent = message;
+    this.list.textContent = "See the console for details.";
+    this.actions.innerHTML = "";
+  }
+
+  public hide(): void {
+    this.el.style.opacity = "0";
+    this.el.style.pointerEvents = "none";
+    setTimeout(() => this.dispose(), 300);
+  }
+
+  public dispose(): void {
+    this.el.remove();
+  }
+
+  private addAction(label: string, onClick: () => void): void {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.padding = "4px 10px";
+    button.style.border = "2px solid rgba(255,255,255,0.3)";
+    button.style.background = "rgba(255,255,255,0.1)";
+    button.style.color = "white";
+    button.style.cursor = "pointer";
+    button.style.borderRadius = "5px";
+    button.style.fontSize = "12px";
+    button.addEventListener("click", onClick);
+    this.actions.appendChild(button);
+  }
+
+  private setLayout(layout: "fullscreen" | "notice"): void {
+    const fullscreen = layout === "fullscreen";
+    this.el.style.top = fullscreen ? "0" : "auto";
+    this.el.style.right = fullscreen ? "0" : "auto";
+    this.el.style.bottom = fullscreen ? "0" : "10px";
+    this.el.style.left = fullscreen ? "0" : "10px";
+    this.el.style.width = fullscreen ? "auto" : "320px";
+    this.el.style.padding = fullscreen ? "20vh 20vw" : "15px";
+    this.el.style.borderRadius = fullscreen ? "0" : "8px";
+    this.el.style.border = fullscreen
+      ? "none"
+      : "1px solid rgba(255,255,255,0.2)";
+  }
+}
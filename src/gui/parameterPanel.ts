@@ -0,0 +1,212 @@
+import { FolderApi, Pane } from "tweakpane";
+import type { ActiveDemo } from "@/engine/demo-registry";
+import type {
+  AnyUniformSpec,
+  UniformSchema,
+  UniformSet,
+} from "@/engine/uniform-schema";
+import {
+  PresetStore,
+  animateToPreset,
+  serializeUniforms,
+} from "@/utils/presets";
+
+interface ParameterPanelOptions {
+  onChange?: (name: string) => void;
+  presets?: PresetStore;
+}
+
+// Builds a Tweakpane panel from the active demo's uniform schema
+export default class ParameterPanel {
+  private container: HTMLElement;
+  private pane: Pane | null = null;
+  private presetFolder: FolderApi | null = null;
+  private target: Record<string, unknown> = {};
+  private onChange: (name: string) => void;
+  private presets: PresetStore | null;
+
+  constructor(container: HTMLElement, options: ParameterPanelOptions = {}) {
+    this.container = container;
+    this.onChange = options.onChange ?? (() => {});
+    this.presets = options.presets ?? null;
+  }
+
+  public setDemo(demo: ActiveDemo | null): void {
+    this.clear();
+
+    const uniforms = demo?.instance.uniforms;
+    if (!demo || !uniforms) return;
+
+    const names = uniforms
+      .names()
+      .filter((name) => !uniforms.schema[name].hidden);
+    if (names.length === 0) return;
+
+    this.pane = new Pane({
+      container: this.container,
+      title: `${demo.definition.label} Parameters`,
+    });
+    this.target = this.createTarget(uniforms, names);
+
+    names.forEach((name) => {
+      const spec = uniforms.schema[name];
+      const binding = this.pane!.addBinding(
+        this.target,
+        name,
+        this.getBindingParams(name, spec)
+      );
+      if (spec.description) {
+        binding.element.title = spec.description;
+      }
+      binding.on("change", () => this.onChange(name));
+    });
+
+    this.buildPresetFolder(demo, uniforms);
+  }
+
+  // Re-read values changed outside the panel (presets, URL state, pointer)
+  public refresh(): void {
+    this.pane?.refresh();
+  }
+
+  public clear(): void {
+    this.presetFolder = null;
+    if (this.pane) {
+      this.pane.dispose();
+      this.pane = null;
+    }
+    this.target = {};
+  }
+
+  public dispose(): void {
+    this.clear();
+  }
+
+  private buildPresetFolder(
+    demo: ActiveDemo,
+    uniforms: UniformSet<UniformSchema>,
+    selected = ""
+  ): void {
+    const presets = this.presets;
+    if (!this.pane || !presets) return;
+
+    const demoId = demo.definition.id;
+    const available = presets.list(demoId);
+
+    this.presetFolder?.dispose();
+    const folder = this.pane.addFolder({ title: "Presets", expanded: false });
+    this.presetFolder = folder;
+
+    const state = {
+      preset: selected || available[0]?.name || "",
+      name: selected,
+    };
+    const rebuild = (name = state.preset) =>
+      this.buildPresetFolder(demo, uniforms, name);
+
+    if (available.length > 0) {
+      folder.addBinding(state, "preset", {
+        label: "preset",
+        options: Object.fromEntries(
+          available.map((p) => [p.builtIn ? `${p.name} ★` : p.name, p.name])
+        ),
+      });
+      folder.addButton({ title: "Load" }).on("click", () => {
+        const preset = presets.get(demoId, state.preset);
+        if (!preset) return;
+        const issues = animateToPreset(uniforms, preset.values, {
+          onUpdate: () => this.refresh(),
+        });
+        if (issues.length) {
+          console.warn(`⚠️ Preset "${preset.name}" issues:`, issues);
+        }
+        this.onChange("preset");
+      });
+      folder.addButton({ title: "Delete" }).on("click", () => {
+        if (!presets.remove(demoId, state.preset)) {
+          console.warn(`Preset "${state.preset}" is built in, not deleted`);
+          return;
+        }
+        rebuild("");
+      });
+    }
+
+    folder.addBinding(state, "name", { label: "new name" });
+    folder.addButton({ title: "Save Current" }).on("click", () => {
+      const name = state.name.trim();
+      if (!name) {
+        console.warn("Preset name is empty, not saved");
+        return;
+      }
+      presets.save(demoId, name, serializeUniforms(uniforms));
+      rebuild(name);
+    });
+
+    folder.addButton({ title: "Export JSON" }).on("click", () => {
+      presets.exportFile(demoId);
+    });
+    folder.addButton({ title: "Import JSON" }).on("click", () => {
+      this.pickFile(async (file) => {
+        const issues = await presets.importFile(file);
+        if (issues.length) {
+          console.warn(`⚠️ Some presets in "${file.name}" skipped:`, issues);
+        }
+        rebuild();
+      });
+    });
+  }
+
+  private pickFile(onPick: (file: File) => void): void {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (file) onPick(file);
+    });
+    input.click();
+  }
+
+  // Proxy object so Tweakpane reads and writes through the UniformSet
+  private createTarget(
+    uniforms: UniformSet<UniformSchema>,
+    names: string[]
+  ): Record<string, unknown> {
+    const target: Record<string, unknown> = {};
+    names.forEach((name) => {
+      Object.defineProperty(target, name, {
+        get: () => uniforms.get(name),
+        set: (value) => uniforms.set(name, value),
+        enumerable: true,
+      });
+    });
+    return target;
+  }
+
+  private getBindingParams(name: string, spec: AnyUniformSpec) {
+    const label = spec.label ?? name;
+
+    switch (spec.type) {
+      case "float":
+      case "int":
+        return {
+          label,
+          min: spec.min,
+          max: spec.max,
+          step: spec.step ?? (spec.type === "int" ? 1 : undefined),
+        };
+      case "vec2":
+      case "vec3": {
+        const axis = { min: spec.min, max: spec.max, step: spec.step };
+        return spec.type === "vec2"
+          ? { label, x: axis, y: { ...axis, inverted: true } }
+          : { label, x: axis, y: axis, z: axis };
+      }
+      case "color":
+        return { label, color: { type: "float" as const } };
+      case "bool":
+      default:
+        return { label };
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Pane } from "tweakpane";
+import type { ActiveDemo, DemoEditor } from "@/engine/demo-registry";
+import {
+  SDF_OPERATIONS,
+  SDF_SHAPES,
+  SdfNode,
+  SdfOperation,
+  SdfShapeName,
+} from "@/engine/sdf/scene";
+import { downloadBlob } from "@/utils/download";
+
+const OPERATION_OPTIONS = Object.fromEntries(
+  SDF_OPERATIONS.map((op) => [op, op])
+);
+
+const describe = (node: SdfNode, index: number): string =>
+  `${index + 1}: ${"shape" in node ? node.shape : `${node.op} group`}`;
+
+// Tweakpane panel for the active demo's SDF editor, rebuilt on every edit
+export default class SdfEditorPanel {
+  private container: HTMLElement;
+  private pane: Pane | null = null;
+  private editor: DemoEditor | null = null;
+  private expanded = false;
+  private newShape: { shape: SdfShapeName } = { shape: "circle" };
+  private unsubscribe: () => void = () => {};
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  public setDemo(demo: ActiveDemo | null): void {
+    this.clear();
+    this.editor = demo?.instance.editor ?? null;
+    if (!this.editor) return;
+    // Deferred so the pane is not disposed inside its own change event
+    this.unsubscribe = this.editor.onChange(() =>
+      queueMicrotask(() => this.build())
+    );
+    this.build();
+  }
+
+  public clear(): void {
+    this.unsubscribe();
+    this.unsubscribe = () => {};
+    this.editor = null;
+    this.disposePane();
+  }
+
+  public dispose(): void {
+    this.clear();
+  }
+
+  private disposePane(): void {
+    if (this.pane) {
+      this.expanded = this.pane.expanded;
+      this.pane.dispose();
+      this.pane = null;
+    }
+  }
+
+  private build(): void {
+    const editor = this.editor;
+    if (!editor) return;
+    this.disposePane();
+
+    const pane = new Pane({
+      container: this.container,
+      title: "SDF Editor",
+      expanded: this.expanded,
+    });
+    this.pane = pane;
+
+    const state = {
+      edit: editor.enabled,
+      combine: editor.rootOperation,
+      selected: editor.selectedIndex,
+      op: (editor.selection && "op" in editor.selection
+        ? editor.selection.op
+        : "union") as SdfOperation,
+    };
+
+    const editBinding = pane.addBinding(state, "edit", { label: "edit" });
+    editBinding.element.title =
+      "Click a shape to select, drag to move, wheel to scale, " +
+      "shift + wheel to rotate, Delete removes, Ctrl+Z / Ctrl+Shift+Z";
+    editBinding.on("change", ({ value }) => (editor.enabled = value));
+    if (!editor.enabled) return;
+
+    pane
+      .addBinding(state, "combine", {
+        label: "combine",
+        options: OPERATION_OPTIONS,
+      })
+      .on("change", ({ value }) => editor.setOperation(value));
+
+    pane
+      .addBinding(state, "selected", {
+        label: "shape",
+        options: {
+          none: -1,
+          ...Object.fromEntries(
+            editor.children.map((node, i) => [describe(node, i), i])
+          ),
+        },
+      })
+      .on("change", ({ value }) => editor.select(value));
+
+    if (editor.selection && "op" in editor.selection) {
+      pane
+        .addBinding(state, "op", {
+          label: "group op",
+          options: OPERATION_OPTIONS,
+        })
+        .on("change", ({ value }) => editor.setOperation(value, true));
+    }
+    const remove = pane.addButton({ title: "Delete Shape" });
+    remove.disabled = !editor.selection || editor.children.length < 2;
+    remove.on("click", () => editor.deleteSelected());
+
+    const palette = pane.addFolder({ title: "Add" });
+    palette.addBinding(this.newShape, "shape", {
+      options: Object.fromEntries(
+        Object.keys(SDF_SHAPES).map((shape) => [shape, shape])
+      ),
+    });
+    palette
+      .addButton({ title: "Add Shape" })
+      .on("click", () => editor.addShape(this.newShape.shape));
+
+    const history = pane.addFolder({ title: "History" });
+    const undo = history.addButton({ title: "Undo" });
+    undo.disabled = !editor.canUndo;
+    undo.on("click", () => editor.undo());
+    const redo = history.addButton({ title: "Redo" });
+    redo.disabled = !editor.canRedo;
+    redo.on("click", () => editor.redo());
+
+    pane.addButton({ title: "Export JSON" }).on("click", () => {
+      downloadBlob(
+        new Blob([editor.serialize()], { type: "application/json" }),
+        "sdf-scene.json"
+      );
+    });
+  }
+}
@@ -1,13 +1,54 @@
 import App from "./app/app";
-import { Preloader } from "./utils/preloader";
+import { Preloader, isCritical } from "./utils/preloader";
+import LoadingOverlay from "./gui/loadingOverlay";
+import { UrlState, readUrlState } from "./utils/url-state";
+import type { LoadProgress } from "./types/types";
+import { applyLogLevel, resolveConfig } from "./utils/config";
 
 const container = document.getElementById("app") as HTMLElement;
 if (!container) {
   console.error("App element not found!");
 } else {
   console.log("start preloading");
-  Preloader.init().then((assets) => {
-    const app = new App();
-    app.init(container, assets);
+  // Restore demo, parameters, camera and renderer from the URL hash
+  const urlIssues: string[] = [];
+  const urlState = readUrlState(window.location.hash, urlIssues);
+  if (urlIssues.length) {
+    console.warn("⚠️ Some URL state was invalid:", urlIssues);
+  }
+
+  const overlay = new LoadingOverlay(document.body);
+  start(container, urlState, overlay).catch((e) => {
+    console.error("❌ Lab failed to start:", e);
+    overlay.showError(e instanceof Error ? e.message : String(e));
   });
 }
+
+async function start(
+  container: HTMLElement,
+  urlState: UrlState,
+  overlay: LoadingOverlay
+) {
+  const onProgress = (progress: LoadProgress) => overlay.update(progress);
+  let result = await Preloader.init(onProgress);
+
+  // Critical assets block startup until a retry brings them in
+  while (result.failed.some(isCritical)) {
+    await overlay.showFailures(result);
+    result = await Preloader.load(result.failed, onProgress, result.assets);
+  }
+
+  // config.json + config.<mode>.json overlay, validated against AppConfig
+  const config = await resolveConfig(result.assets.get("config"));
+  applyLogLevel(config.logLevel);
+
+  const app = new App();
+  app.init(container, result.assets, { initialState: urlState, config });
+
+  // Non-critical failures: the lab runs, retried assets land in app.assets
+  while (result.failed.length) {
+    if (!(await overlay.showFailures(result))) return;
+    result = await Preloader.load(result.failed, onProgress, result.assets);
+  }
+  overlay.hide();
+}
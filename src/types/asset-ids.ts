@@ -0,0 +1,7 @@
+// Generated from public/data/manifest.json by vite.config.ts, do not edit.
+export interface ManifestAssetIds {
+  "test-image-local": "image";
+  config: "json";
+  presets: "json";
+  "sdf-shapes": "sdf-scene";
+}
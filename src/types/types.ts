@@ -1,26 +1,185 @@
+import type * as THREE from "three";
+import type { GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { RendererType } from "@/engine/renderer-factory";
+import type { ManifestAssetIds } from "./asset-ids";
+
 export type LoadResult = {
   id: string;
   asset: unknown;
   failed: boolean;
+  error?: string;
 };
 
-export interface ImageItem {
+// Loading options shared by every manifest item
+export interface ManifestItemBase {
   id: string;
-  type: "image";
+  type: string;
   url: string;
+  critical?: boolean; // a failure blocks startup instead of being skipped
+  timeout?: number; // ms per attempt, defaults to Preloader.DEFAULT_TIMEOUT
+  retries?: number; // extra attempts after the first, with backoff
+  groups?: string[]; // loaded together, defaults to ["boot"] (startup)
+  hash?: string; // content hash, a new value refetches the cached copy
+}
+
+export interface ImageItem extends ManifestItemBase {
+  type: "image";
   crossOrigin?: string; // optional if needed
 }
 
-export interface JsonItem {
-  id: string;
+export interface JsonItem extends ManifestItemBase {
   type: "json";
-  url: string;
 }
 
-export type ManifestItem = ImageItem | JsonItem;
+// Image uploaded as a THREE.Texture
+export interface TextureItem extends ManifestItemBase {
+  type: "texture";
+  colorSpace?: "srgb" | "linear";
+  flipY?: boolean;
+  repeat?: boolean; // RepeatWrapping on both axes
+}
+
+export interface GltfItem extends ManifestItemBase {
+  type: "gltf";
+}
+
+// Radiance .hdr file as a float DataTexture
+export interface HdrItem extends ManifestItemBase {
+  type: "hdr";
+  equirectangular?: boolean; // sets EquirectangularReflectionMapping
+}
+
+export interface Ktx2Item extends ManifestItemBase {
+  type: "ktx2";
+  transcoderPath?: string; // basis transcoder folder, defaults to /basis/
+}
+
+// Decoded AudioBuffer
+export interface AudioItem extends ManifestItemBase {
+  type: "audio";
+}
+
+export interface VideoItem extends ManifestItemBase {
+  type: "video";
+  loop?: boolean;
+  muted?: boolean; // defaults to true so it may autoplay
+}
+
+// FontFace added to document.fonts
+export interface FontItem extends ManifestItemBase {
+  type: "font";
+  family: string;
+  descriptors?: FontFaceDescriptors;
+}
+
+// Plain text, e.g. shader sources
+export interface TextItem extends ManifestItemBase {
+  type: "text";
+}
+
+export interface BinaryItem extends ManifestItemBase {
+  type: "binary";
+}
+
+/**
+ * Item type -> item shape. ManifestItem is derived from it, so a new loader
+ * extends the union through declaration merging:
+ *
+ *   declare module "@/types/types" {
+ *     interface ManifestItemTypes { mesh: MeshItem }
+ *   }
+ */
+export interface ManifestItemTypes {
+  image: ImageItem;
+  json: JsonItem;
+  texture: TextureItem;
+  gltf: GltfItem;
+  hdr: HdrItem;
+  ktx2: Ktx2Item;
+  audio: AudioItem;
+  video: VideoItem;
+  font: FontItem;
+  text: TextItem;
+  binary: BinaryItem;
+}
+
+export type ManifestItemType = keyof ManifestItemTypes;
+
+export type ManifestItem = ManifestItemTypes[ManifestItemType];
 
 export interface Manifest {
+  // Cached assets are evicted whenever this changes
+  version?: string;
+  // Persistent asset cache, defaults to on in production builds only
+  cache?: boolean;
   items: ManifestItem[];
 }
 
 export type Assets = Record<string, unknown>;
+
+// What each loader resolves to, keep in sync with src/utils/loaders.ts
+export interface ManifestAssetTypes {
+  image: HTMLImageElement;
+  json: unknown;
+  texture: THREE.Texture;
+  gltf: GLTF;
+  hdr: THREE.DataTexture;
+  ktx2: THREE.CompressedTexture;
+  audio: AudioBuffer;
+  video: HTMLVideoElement;
+  font: FontFace;
+  text: string;
+  binary: ArrayBuffer;
+}
+
+// Ids declared in public/data/manifest.json, a typo fails to compile
+export type AssetId = keyof ManifestAssetIds;
+
+export type AssetOf<I extends AssetId> =
+  ManifestAssetIds[I] extends keyof ManifestAssetTypes
+    ? ManifestAssetTypes[ManifestAssetIds[I]]
+    : unknown;
+
+export type ItemStatus = "pending" | "loading" | "loaded" | "failed";
+
+export interface ItemProgress {
+  id: string;
+  url: string;
+  status: ItemStatus;
+  attempt: number; // 1-based, 0 while pending
+  bytesLoaded: number;
+  bytesTotal: number | null; // null when the server sends no Content-Length
+  error?: string;
+}
+
+export interface LoadProgress {
+  items: ItemProgress[];
+  loaded: number; // items done, including failed ones
+  total: number;
+  bytesLoaded: number;
+  bytesTotal: number | null; // only known once every item reported a size
+  ratio: number; // 0..1, bytes where known, item counts otherwise
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type Vector3Tuple = [number, number, number];
+
+export interface AppConfig {
+  version: string;
+  debug: boolean; // shows the stats.js panel
+  logLevel: LogLevel;
+  renderer: RendererType;
+  maxPixelRatio: number;
+  initialDemo: string | null; // null = registry default
+  camera: {
+    fov: number;
+    near: number;
+    far: number;
+    position: Vector3Tuple;
+    target: Vector3Tuple;
+  };
+  scene: {
+    background: string;
+  };
+}
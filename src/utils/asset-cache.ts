@@ -0,0 +1,114 @@
+import type { Manifest, ManifestItemBase } from "@/types/types";
+
+const CACHE_PREFIX = "tsl-lab:assets:";
+// The last manifest seen, used when the network is unavailable
+const MANIFEST_CACHE = "tsl-lab:manifest";
+// Search param carrying the item hash in cache keys
+const HASH_PARAM = "__hash";
+
+// Cache access bound to one manifest item, see LoaderContext.cache
+export interface ItemCache {
+  match(url: string): Promise<Response | undefined>;
+  put(url: string, response: Response): Promise<void>;
+}
+
+function cacheKey(url: string, hash: string): string {
+  const key = new URL(url, window.location.href);
+  key.searchParams.set(HASH_PARAM, hash);
+  return key.href;
+}
+
+/**
+ * Persistent asset cache on top of Cache Storage. One cache per manifest
+ * version, so bumping `version` evicts everything, and keys carry the item
+ * `hash`, so bumping a single item only refetches that item.
+ */
+export class AssetCache {
+  private cache: Cache;
+  readonly version: string;
+
+  private constructor(cache: Cache, version: string) {
+    this.cache = cache;
+    this.version = version;
+  }
+
+  static isSupported(): boolean {
+    return typeof caches !== "undefined";
+  }
+
+  // Opens the cache for `version` and deletes the caches of older versions
+  static async open(version: string): Promise<AssetCache | null> {
+    if (!this.isSupported()) return null;
+    try {
+      const name = `${CACHE_PREFIX}${version}`;
+      const stale = (await caches.keys()).filter(
+        (key) => key.startsWith(CACHE_PREFIX) && key !== name
+      );
+      await Promise.all(stale.map((key) => caches.delete(key)));
+      if (stale.length) {
+        console.log(`🗑️ Evicted stale asset caches:`, stale);
+      }
+      return new AssetCache(await caches.open(name), version);
+    } catch (e) {
+      // e.g. storage disabled in private browsing
+      console.warn("Asset cache unavailable, loading from network", e);
+      return null;
+    }
+  }
+
+  // Deletes every asset cache and the stored manifest, returns how many
+  static async clear(): Promise<number> {
+    if (!this.isSupported()) return 0;
+    const keys = (await caches.keys()).filter(
+      (key) => key.startsWith(CACHE_PREFIX) || key === MANIFEST_CACHE
+    );
+    await Promise.all(keys.map((key) => caches.delete(key)));
+    return keys.length;
+  }
+
+  /**
+   * Network first, so version bumps are noticed on every visit, with the
+   * last stored manifest as the offline fallback.
+   */
+  static async fetchManifest(url: string): Promise<Manifest> {
+    try {
+      const response = await fetch(url, { cache: "no-cache" });
+      if (!response.ok) {
+        throw new Error(`Manifest fetch failed: ${response.status}`);
+      }
+      // Best effort: Cache Storage throws when storage is disabled
+      if (this.isSupported()) {
+        const copy = response.clone();
+        await caches
+          .open(MANIFEST_CACHE)
+          .then((cache) => cache.put(url, copy))
+          .catch(() => {});
+      }
+      return (await response.json()) as Manifest;
+    } catch (e) {
+      const cached = this.isSupported()
+        ? await caches
+            .match(url, { cacheName: MANIFEST_CACHE })
+            .catch(() => undefined)
+        : undefined;
+      if (!cached) throw e;
+      console.warn("📴 Manifest unreachable, using the cached copy", e);
+      return (await cached.json()) as Manifest;
+    }
+  }
+
+  forItem(item: ManifestItemBase): ItemCache {
+    const hash = item.hash ?? "";
+    return {
+      match: (url) => this.cache.match(cacheKey(url, hash)),
+      put: async (url, response) => {
+        // Drop entries stored under an older hash of the same url
+        const previous = await this.cache.keys(cacheKey(url, hash), {
+          ignoreSearch: true,
+        });
+        await Promise.all(previous.map((key) => this.cache.delete(key)));
+        await this.cache.put(cacheKey(url, hash), response);
+      },
+    };
+  }
+}
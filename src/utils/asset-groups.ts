@@ -0,0 +1,172 @@
+import * as THREE from "three";
+import type { ManifestItem } from "@/types/types";
+import { AssetStore, BOOT_GROUP, groupsOf } from "./asset-store";
+import { loaderRegistry } from "./loaders";
+import { Preloader, ProgressListener, isCritical } from "./preloader";
+
+export type GroupState = "unloaded" | "loading" | "loaded" | "failed";
+
+export type GroupListener = (group: string, state: GroupState) => void;
+
+// Frees GPU and media resources held by a loaded asset
+export function disposeAsset(asset: unknown): void {
+  if (asset instanceof THREE.Texture) {
+    asset.dispose();
+  } else if (asset instanceof HTMLVideoElement) {
+    asset.pause();
+    URL.revokeObjectURL(asset.src);
+    asset.removeAttribute("src");
+    asset.load();
+  } else if (asset instanceof FontFace) {
+    document.fonts.delete(asset);
+  } else if (asset && typeof asset === "object" && "scene" in asset) {
+    // GLTF result
+    (asset.scene as THREE.Object3D).traverse((object) => {
+      const mesh = object as THREE.Mesh;
+      mesh.geometry?.dispose();
+      const materials = Array.isArray(mesh.material)
+        ? mesh.material
+        : mesh.material
+        ? [mesh.material]
+        : [];
+      materials.forEach((material) => {
+        Object.values(material).forEach((value) => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    });
+  }
+}
+
+/**
+ * Loads manifest groups on demand and unloads them once nobody uses them.
+ * Demos retain their groups on activation and release them on cleanup, the
+ * boot group stays loaded for the lifetime of the app.
+ */
+export class AssetGroups {
+  private store: AssetStore;
+  private users = new Map<string, number>();
+  private pending = new Map<string, Promise<ManifestItem[]>>();
+  private listeners = new Set<GroupListener>();
+
+  constructor(store: AssetStore) {
+    this.store = store;
+  }
+
+  state(group: string): GroupState {
+    if (this.pending.has(group)) return "loading";
+    const items = this.store.items(group);
+    if (items.some((item) => this.store.isFailed(item.id))) return "failed";
+    return items.every((item) => this.store.isLoaded(item.id))
+      ? "loaded"
+      : "unloaded";
+  }
+
+  isLoaded(groups: string[]): boolean {
+    return groups.every((group) => this.state(group) === "loaded");
+  }
+
+  // Marks the groups as used, pair every call with release()
+  retain(groups: string[]): void {
+    groups.forEach((group) =>
+      this.users.set(group, (this.users.get(group) ?? 0) + 1)
+    );
+  }
+
+  /**
+   * Loads whatever is missing from the groups. Resolves with the items that
+   * failed, rejects when one of them is critical.
+   */
+  async load(
+    groups: string[],
+    onProgress?: ProgressListener
+  ): Promise<ManifestItem[]> {
+    const failed = (
+      await Promise.all(
+        groups.map((group) => this.loadGroup(group, onProgress))
+      )
+    ).flat();
+
+    const critical = failed.filter(isCritical);
+    if (critical.length) {
+      throw new Error(
+        `Critical assets failed to load: ${critical
+          .map((item) => item.id)
+          .join(", ")}`
+      );
+    }
+    return failed;
+  }
+
+  // Unloads items no other used group (or boot) still needs
+  release(groups: string[]): void {
+    groups.forEach((group) => {
+      this.users.set(group, Math.max(0, (this.users.get(group) ?? 0) - 1));
+      this.unloadIfUnused(group);
+    });
+  }
+
+  onChange(listener: GroupListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private loadGroup(
+    group: string,
+    onProgress?: ProgressListener
+  ): Promise<ManifestItem[]> {
+    const running = this.pending.get(group);
+    if (running) return running;
+
+    const missing = this.store
+      .items(group)
+      .filter((item) => !this.store.isLoaded(item.id));
+    if (missing.length === 0) return Promise.resolve([]);
+
+    console.log(
+      `📦 Loading asset group "${group}"`,
+      missing.map((i) => i.id)
+    );
+    const promise = Preloader.load(missing, onProgress, this.store)
+      .then((result) => result.failed)
+      .finally(() => {
+        this.pending.delete(group);
+        // Released while loading
+        this.unloadIfUnused(group);
+        this.notify(group);
+      });
+    this.pending.set(group, promise);
+    this.notify(group);
+    return promise;
+  }
+
+  private isUsed(group: string): boolean {
+    return group === BOOT_GROUP || (this.users.get(group) ?? 0) > 0;
+  }
+
+  private unloadIfUnused(group: string): void {
+    if (this.isUsed(group) || this.pending.has(group)) return;
+
+    const loaded = this.store
+      .items(group)
+      .filter(
+        (item) =>
+          this.store.isLoaded(item.id) &&
+          !groupsOf(item).some((other) => this.isUsed(other))
+      );
+    if (loaded.length === 0) return;
+
+    loaded.forEach((item) => {
+      disposeAsset(this.store.unload(item.id));
+      loaderRegistry.unload(item);
+    });
+    console.log(`🧹 Unloaded asset group "${group}"`);
+    this.notify(group);
+  }
+
+  private notify(group: string): void {
+    const state = this.state(group);
+    this.listeners.forEach((listener) => listener(group, state));
+  }
+}
@@ -0,0 +1,116 @@
+import type {
+  AssetId,
+  AssetOf,
+  ManifestItem,
+  ManifestItemBase,
+} from "@/types/types";
+
+// Group loaded by Preloader.init, items without groups belong to it
+export const BOOT_GROUP = "boot";
+
+export function groupsOf(item: ManifestItemBase): string[] {
+  return item.groups?.length ? item.groups : [BOOT_GROUP];
+}
+
+// Accessing an asset that is not in the manifest, failed or is not loaded
+export class MissingAssetError extends Error {
+  constructor(public readonly assetId: string, message: string) {
+    super(message);
+    this.name = "MissingAssetError";
+  }
+}
+
+/**
+ * Loaded manifest assets by id. Ids and asset types come from the manifest
+ * (see src/types/asset-ids.ts), so `get("config")` is typed and a misspelled
+ * id does not compile.
+ */
+export class AssetStore {
+  private entries = new Map<string, ManifestItemBase>();
+  private assets = new Map<string, unknown>();
+  private errors = new Map<string, string>();
+
+  // Records the manifest entry so errors can describe it
+  declare(item: ManifestItem): void {
+    this.entries.set(item.id, item);
+  }
+
+  set(item: ManifestItem, asset: unknown): void {
+    this.declare(item);
+    this.assets.set(item.id, asset);
+    this.errors.delete(item.id);
+  }
+
+  fail(item: ManifestItem, error: string): void {
+    this.declare(item);
+    this.assets.delete(item.id);
+    this.errors.set(item.id, error);
+  }
+
+  // Drops a loaded asset, the caller disposes it
+  unload(id: string): unknown {
+    const asset = this.assets.get(id);
+    this.assets.delete(id);
+    this.errors.delete(id);
+    return asset;
+  }
+
+  // Declared manifest entries, optionally only those of one group
+  items(group?: string): ManifestItem[] {
+    const items = Array.from(this.entries.values()) as ManifestItem[];
+    return group
+      ? items.filter((item) => groupsOf(item).includes(group))
+      : items;
+  }
+
+  // Untyped variants of has(), for ids coming from the manifest at runtime
+  isLoaded(id: string): boolean {
+    return this.assets.has(id);
+  }
+
+  isFailed(id: string): boolean {
+    return this.errors.has(id);
+  }
+
+  has(id: AssetId): boolean {
+    return this.assets.has(id);
+  }
+
+  get<I extends AssetId>(id: I): AssetOf<I> | undefined {
+    return this.assets.get(id) as AssetOf<I> | undefined;
+  }
+
+  // Like get(), but throws a MissingAssetError naming the manifest entry
+  require<I extends AssetId>(id: I): AssetOf<I> {
+    if (this.assets.has(id)) return this.assets.get(id) as AssetOf<I>;
+
+    const item = this.entries.get(id);
+    if (!item) {
+      throw new MissingAssetError(
+        id,
+        `Asset "${id}" is not in the manifest (public/data/manifest.json)`
+      );
+    }
+    const entry = `"${id}" (${item.type} from ${item.url})`;
+    const groups = groupsOf(item).join(", ");
+    const error = this.errors.get(id);
+    throw new MissingAssetError(
+      id,
+      error
+        ? `Asset ${entry} failed to load: ${error}`
+        : `Asset ${entry} is not loaded yet, load its group (${groups}) first`
+    );
+  }
+
+  ids(): AssetId[] {
+    return Array.from(this.assets.keys()) as AssetId[];
+  }
+
+  failedIds(): AssetId[] {
+    return Array.from(this.errors.keys()) as AssetId[];
+  }
+
+  error(id: AssetId): string | undefined {
+    return this.errors.get(id);
+  }
+}
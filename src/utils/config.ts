@@ -0,0 +1,273 @@
+import type { AppConfig, LogLevel, Vector3Tuple } from "@/types/types";
+import { isRendererType } from "@/engine/renderer-factory";
+
+export const LOG_LEVELS: LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "silent",
+];
+
+export const DEFAULT_CONFIG: AppConfig = {
+  version: "1.0.0",
+  debug: true,
+  logLevel: "debug",
+  renderer: "webgpu",
+  maxPixelRatio: 2,
+  initialDemo: null,
+  camera: {
+    fov: 75,
+    near: 0.1,
+    far: 1000,
+    position: [0, 5, 10],
+    target: [0, 0, 0],
+  },
+  scene: {
+    background: "#222222",
+  },
+};
+
+export class ConfigError extends Error {
+  constructor(public readonly key: string, message: string) {
+    super(`config.${key}: ${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+// Recursively overlays `override` on `base`, arrays are replaced wholesale
+export function mergeConfig(base: unknown, override: unknown): unknown {
+  if (!isObject(base) || !isObject(override)) {
+    return override === undefined ? base : override;
+  }
+  const merged: Raw = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    merged[key] = mergeConfig(base[key], value);
+  });
+  return merged;
+}
+
+/**
+ * Validates raw config JSON against AppConfig. Missing keys take their
+ * default silently, invalid ones take their default and are returned as
+ * ConfigErrors naming the key, so a typo never blocks startup.
+ */
+export function parseConfig(raw: unknown): {
+  config: AppConfig;
+  errors: ConfigError[];
+} {
+  const errors: ConfigError[] = [];
+  const root = isObject(raw) ? raw : {};
+  if (raw !== undefined && !isObject(raw)) {
+    errors.push(new ConfigError("(root)", "expected an object"));
+  }
+
+  const section = (key: string): Raw => {
+    const value = root[key];
+    if (value === undefined) return {};
+    if (isObject(value)) return value;
+    errors.push(
+      new ConfigError(key, `expected an object, got ${describe(value)}`)
+    );
+    return {};
+  };
+
+  function read<T>(
+    source: Raw,
+    path: string,
+    fallback: T,
+    check: (value: unknown) => boolean,
+    expected: string
+  ): T {
+    const key = path.split(".").pop()!;
+    const value = source[key];
+    if (value === undefined) return fallback;
+    if (check(value)) return value as T;
+    errors.push(
+      new ConfigError(path, `expected ${expected}, got ${describe(value)}`)
+    );
+    return fallback;
+  }
+
+  const isPositive = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0;
+  const isVector3 = (v: unknown) =>
+    Array.isArray(v) &&
+    v.length === 3 &&
+    v.every((n) => typeof n === "number" && Number.isFinite(n));
+  const isColor = (v: unknown) =>
+    typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v);
+
+  const defaults = DEFAULT_CONFIG;
+  const camera = section("camera");
+  const scene = section("scene");
+
+  const config: AppConfig = {
+    version: read(
+      root,
+      "version",
+      defaults.version,
+      (v) => typeof v === "string",
+      "a string"
+    ),
+    debug: read(
+      root,
+      "debug",
+      defaults.debug,
+      (v) => typeof v === "boolean",
+      "a boolean"
+    ),
+    logLevel: read(
+      root,
+      "logLevel",
+      defaults.logLevel,
+      (v) => LOG_LEVELS.includes(v as LogLevel),
+      `one of ${LOG_LEVELS.join(", ")}`
+    ),
+    renderer: read(
+      root,
+      "renderer",
+      defaults.renderer,
+      isRendererType,
+      "webgpu, webgl2 or webgl"
+    ),
+    maxPixelRatio: read(
+      root,
+      "maxPixelRatio",
+      defaults.maxPixelRatio,
+      isPositive,
+      "a positive number"
+    ),
+    initialDemo: read(
+      root,
+      "initialDemo",
+      defaults.initialDemo,
+      (v) => v === null || typeof v === "string",
+      "a demo id or null"
+    ),
+    camera: {
+      fov: read(
+        camera,
+        "camera.fov",
+        defaults.camera.fov,
+        (v) => isPositive(v) && (v as number) < 180,
+        "a number between 0 and 180"
+      ),
+      near: read(
+        camera,
+        "camera.near",
+        defaults.camera.near,
+        isPositive,
+        "a positive number"
+      ),
+      far: read(
+        camera,
+        "camera.far",
+        defaults.camera.far,
+        isPositive,
+        "a positive number"
+      ),
+      position: read<Vector3Tuple>(
+        camera,
+        "camera.position",
+        defaults.camera.position,
+        isVector3,
+        "[x, y, z]"
+      ),
+      target: read<Vector3Tuple>(
+        camera,
+        "camera.target",
+        defaults.camera.target,
+        isVector3,
+        "[x, y, z]"
+      ),
+    },
+    scene: {
+      background: read(
+        scene,
+        "scene.background",
+        defaults.scene.background,
+        isColor,
+        'a "#rrggbb" color'
+      ),
+    },
+  };
+
+  if (config.camera.near >= config.camera.far) {
+    errors.push(
+      new ConfigError(
+        "camera.near",
+        `must be smaller than camera.far (${config.camera.far})`
+      )
+    );
+    config.camera.near = defaults.camera.near;
+    config.camera.far = defaults.camera.far;
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Loads the per-environment overlay (`/data/config.<mode>.json`, e.g.
+ * config.production.json) so settings can differ between dev and prod
+ * without editing config.json. A missing overlay is not an error.
+ */
+export async function loadEnvironmentOverlay(
+  mode: string = __APP_MODE__
+): Promise<unknown> {
+  const url = `/data/config.${mode}.json`;
+  try {
+    const response = await fetch(url);
+    const type = response.headers.get("content-type") ?? "";
+    // Dev servers answer unknown paths with index.html
+    if (!response.ok || !type.includes("json")) return undefined;
+    return await response.json();
+  } catch (e) {
+    console.warn(`Config overlay "${url}" unreadable, ignoring it`, e);
+    return undefined;
+  }
+}
+
+export async function resolveConfig(base: unknown): Promise<AppConfig> {
+  const overlay = await loadEnvironmentOverlay();
+  const { config, errors } = parseConfig(mergeConfig(base, overlay));
+  if (errors.length) {
+    console.error(
+      "❌ Invalid config values, using defaults for them:",
+      errors.map((e) => e.message)
+    );
+  }
+  return config;
+}
+
+const originalConsole = {
+  debug: console.debug,
+  log: console.log,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
+/**
+ * The lab logs through console directly, so the level is applied by muting
+ * the console methods below it.
+ */
+export function applyLogLevel(level: LogLevel): void {
+  const rank = LOG_LEVELS.indexOf(level);
+  const noop = () => {};
+  console.debug = rank <= 0 ? originalConsole.debug : noop;
+  console.log = rank <= 0 ? originalConsole.log : noop;
+  console.info = rank <= 1 ? originalConsole.info : noop;
+  console.warn = rank <= 2 ? originalConsole.warn : noop;
+  console.error = rank <= 3 ? originalConsole.error : noop;
+}
@@ -0,0 +1,162 @@
+import type { EngineRenderer } from "@/engine/renderer-factory";
+import type { ItemCache } from "./asset-cache";
+import type {
+  ManifestItem,
+  ManifestItemBase,
+  ManifestItemType,
+  ManifestItemTypes,
+} from "@/types/types";
+
+export type BytesListener = (loaded: number, total: number | null) => void;
+
+export interface LoaderContext {
+  signal: AbortSignal;
+  onBytes: BytesListener;
+  // Set once the engine exists, GPU dependent formats (ktx2) need it
+  renderer?: EngineRenderer;
+  // Persistent cache for this item, absent when caching is off
+  cache?: ItemCache;
+}
+
+export interface AssetLoader<K extends ManifestItemType = ManifestItemType> {
+  type: K;
+  // Checks the loader specific fields, id/url are checked by the registry
+  guard?: (item: ManifestItemBase) => item is ManifestItemTypes[K];
+  load: (
+    item: ManifestItemTypes[K],
+    context: LoaderContext
+  ) => Promise<unknown>;
+  // Drops loader side state for an item whose asset was unloaded
+  unload?: (item: ManifestItemTypes[K]) => void;
+}
+
+// Keeps the item type when declaring a loader inline
+export function defineLoader<K extends ManifestItemType>(
+  loader: AssetLoader<K>
+): AssetLoader<K> {
+  return loader;
+}
+
+// Invalid manifest entry, retrying cannot fix it
+export class ManifestError extends Error {
+  constructor(public readonly itemId: string, message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+function describeItem(item: unknown): string {
+  const id = (item as Partial<ManifestItemBase> | null)?.id;
+  return typeof id === "string" ? `"${id}"` : JSON.stringify(item);
+}
+
+export class LoaderRegistry {
+  private loaders = new Map<string, AssetLoader<any>>();
+
+  register<K extends ManifestItemType>(loader: AssetLoader<K>): this {
+    if (this.loaders.has(loader.type)) {
+      throw new Error(`Loader for "${loader.type}" is already registered`);
+    }
+    this.loaders.set(loader.type, loader);
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.loaders.has(type);
+  }
+
+  types(): string[] {
+    return Array.from(this.loaders.keys());
+  }
+
+  /**
+   * Narrows a raw manifest entry to a ManifestItem, throwing a ManifestError
+   * that names the item when its type is unknown or its fields are invalid.
+   */
+  validate(item: unknown): ManifestItem {
+    if (!item || typeof item !== "object") {
+      throw new ManifestError(
+        "",
+        `Manifest item ${describeItem(item)} is not an object`
+      );
+    }
+    const base = item as ManifestItemBase;
+    const { type } = base;
+    const id = typeof base.id === "string" ? base.id : "";
+    if (!id || typeof base.url !== "string") {
+      throw new ManifestError(
+        id,
+        `Manifest item ${describeItem(item)} needs a string "id" and "url"`
+      );
+    }
+
+    const loader = this.loaders.get(type);
+    if (!loader) {
+      throw new ManifestError(
+        id,
+        `Manifest item "${id}" has unknown type "${type}" ` +
+          `(registered: ${this.types().join(", ")})`
+      );
+    }
+    if (loader.guard && !loader.guard(base)) {
+      throw new ManifestError(
+        id,
+        `Manifest item "${id}" is not a valid "${type}" item`
+      );
+    }
+    return base as ManifestItem;
+  }
+
+  load(item: ManifestItem, context: LoaderContext): Promise<unknown> {
+    const loader = this.loaders.get(this.validate(item).type)!;
+    return loader.load(item, context);
+  }
+
+  unload(item: ManifestItem): void {
+    this.loaders.get(item.type)?.unload?.(item);
+  }
+}
+
+/**
+ * Fetches a file, streaming the body so byte progress can be reported while
+ * it downloads. Served from the item cache when present, network responses
+ * are stored in it.
+ */
+export async function fetchWithProgress(
+  url: string,
+  context: LoaderContext,
+  credentials: RequestCredentials = "same-origin"
+): Promise<Blob> {
+  const { signal, onBytes, cache } = context;
+  const cached = await cache?.match(url).catch(() => undefined);
+  const res = cached ?? (await fetch(url, { signal, credentials }));
+  if (!res.ok) {
+    throw new Error(`Fetch failed: ${res.status} ${res.statusText}`);
+  }
+  if (cache && !cached) {
+    cache.put(url, res.clone()).catch((e) => {
+      console.warn(`Could not cache "${url}"`, e);
+    });
+  }
+
+  const length = Number(res.headers.get("content-length"));
+  const total = length > 0 ? length : null;
+  const type = res.headers.get("content-type") ?? "";
+  if (!res.body) {
+    const blob = await res.blob();
+    onBytes(blob.size, blob.size);
+    return blob;
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onBytes(loaded, total);
+  }
+  return new Blob(chunks, { type });
+}
@@ -0,0 +1,261 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { RGBELoader } from "three/examples/jsm/loaders/RGBELoader.js";
+import { KTX2Loader } from "three/examples/jsm/loaders/KTX2Loader.js";
+import {
+  LoaderContext,
+  LoaderRegistry,
+  defineLoader,
+  fetchWithProgress,
+} from "./loader-registry";
+import { parseSdfScene } from "@/engine/sdf/scene";
+import type { FontItem } from "@/types/types";
+
+// Every manifest item type the preloader understands
+export const loaderRegistry = new LoaderRegistry();
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+function loadImage(
+  url: string,
+  crossOrigin: string,
+  context: LoaderContext
+): Promise<HTMLImageElement> {
+  if (imageCache.has(url)) {
+    return imageCache.get(url)!;
+  }
+  const p = fetchWithProgress(
+    url,
+    context,
+    crossOrigin === "use-credentials" ? "include" : "same-origin"
+  ).then((blob) => decodeImage(blob, url));
+  imageCache.set(url, p);
+  // Failed loads must not stay cached, or retries would replay the error
+  p.catch(() => imageCache.delete(url));
+  return p;
+}
+
+function decodeImage(blob: Blob, url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const src = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(src);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(src);
+      reject(new Error(`Failed to decode image: ${url}`));
+    };
+    img.src = src;
+  });
+}
+
+// Three.js loaders resolve relative resources against the file's folder
+function basePath(url: string): string {
+  return url.slice(0, url.lastIndexOf("/") + 1);
+}
+
+// Shared so the transcoder worker is only started once
+let ktx2Loader: KTX2Loader | null = null;
+let ktx2Renderer: LoaderContext["renderer"];
+
+function getKTX2Loader(
+  transcoderPath: string,
+  context: LoaderContext
+): KTX2Loader {
+  if (!context.renderer) {
+    throw new Error("ktx2 items need a renderer, load them after engine init");
+  }
+  if (!ktx2Loader) {
+    ktx2Loader = new KTX2Loader().setTranscoderPath(transcoderPath);
+  }
+  // Supported compressed formats differ per renderer
+  if (ktx2Renderer !== context.renderer) {
+    ktx2Renderer = context.renderer;
+    ktx2Loader.detectSupport(context.renderer as THREE.WebGLRenderer);
+  }
+  return ktx2Loader;
+}
+
+loaderRegistry
+  .register(
+    defineLoader({
+      type: "image",
+      load: (item, context) =>
+        loadImage(item.url, item.crossOrigin ?? "anonymous", context),
+      unload: (item) => imageCache.delete(item.url),
+    })
+  )
+  .register(
+    defineLoader({
+      type: "json",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        try {
+          return JSON.parse(await blob.text());
+        } catch (e) {
+          throw new Error(`Invalid JSON in ${item.url}: ${e}`);
+        }
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "texture",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        const texture = new THREE.Texture(await decodeImage(blob, item.url));
+        texture.colorSpace =
+          item.colorSpace === "linear"
+            ? THREE.LinearSRGBColorSpace
+            : THREE.SRGBColorSpace;
+        texture.flipY = item.flipY ?? true;
+        if (item.repeat) {
+          texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+        }
+        texture.name = item.id;
+        texture.needsUpdate = true;
+        return texture;
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "gltf",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        return new GLTFLoader().parseAsync(
+          await blob.arrayBuffer(),
+          basePath(item.url)
+        );
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "hdr",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        const src = URL.createObjectURL(blob);
+        try {
+          const texture = await new RGBELoader().loadAsync(src);
+          if (item.equirectangular ?? true) {
+            texture.mapping = THREE.EquirectangularReflectionMapping;
+          }
+          texture.name = item.id;
+          return texture;
+        } finally {
+          URL.revokeObjectURL(src);
+        }
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "ktx2",
+      load: async (item, context) => {
+        const loader = getKTX2Loader(item.transcoderPath ?? "/basis/", context);
+        const blob = await fetchWithProgress(item.url, context);
+        const buffer = await blob.arrayBuffer();
+        return new Promise<THREE.CompressedTexture>((resolve, reject) =>
+          loader.parse(buffer, resolve, reject)
+        );
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "audio",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        // Offline context decodes without needing a user gesture
+        const audio = new OfflineAudioContext(1, 1, 44100);
+        return audio.decodeAudioData(await blob.arrayBuffer());
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "video",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        const video = document.createElement("video");
+        video.loop = item.loop ?? true;
+        video.muted = item.muted ?? true;
+        video.playsInline = true;
+        const src = URL.createObjectURL(blob);
+        try {
+          await new Promise<void>((resolve, reject) => {
+            video.onloadeddata = () => resolve();
+            video.onerror = () =>
+              reject(new Error(`Failed to decode video: ${item.url}`));
+            // Timeouts abort the signal after the fetch is done too
+            context.signal.addEventListener(
+              "abort",
+              () => reject(context.signal.reason),
+              { once: true }
+            );
+            video.src = src;
+          });
+        } catch (e) {
+          URL.revokeObjectURL(src);
+          video.removeAttribute("src");
+          video.load();
+          throw e;
+        }
+        return video;
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "font",
+      guard: (item): item is FontItem =>
+        typeof (item as { family?: unknown }).family === "string",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        const font = new FontFace(
+          item.family,
+          await blob.arrayBuffer(),
+          item.descriptors
+        );
+        await font.load();
+        document.fonts.add(font);
+        return font;
+      },
+    })
+  )
+  .register(
+    defineLoader({
+      type: "text",
+      load: async (item, context) =>
+        (await fetchWithProgress(item.url, context)).text(),
+    })
+  )
+  .register(
+    defineLoader({
+      type: "binary",
+      load: async (item, context) =>
+        (await fetchWithProgress(item.url, context)).arrayBuffer(),
+    })
+  )
+  .register(
+    defineLoader({
+      type: "sdf-scene",
+      load: async (item, context) => {
+        const blob = await fetchWithProgress(item.url, context);
+        let data: unknown;
+        try {
+          data = JSON.parse(await blob.text());
+        } catch (e) {
+          throw new Error(`Invalid JSON in ${item.url}: ${e}`);
+        }
+        try {
+          return parseSdfScene(data);
+        } catch (e) {
+          throw new Error(`Invalid SDF scene in ${item.url}: ${e}`);
+        }
+      },
+    })
+  );
@@ -0,0 +1,46 @@
+import { crc32 } from "./zip";
+
+// Bytes before the first chunk
+const SIGNATURE_LENGTH = 8;
+
+// One iTXt chunk (UTF-8 text, uncompressed)
+function textChunk(keyword: string, text: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword.slice(0, 79)); // PNG keyword limit
+  const value = encoder.encode(text);
+  // keyword \0, compression flag, method, language \0, translated keyword \0
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key, 0);
+  data.set(value, key.length + 5);
+
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode("iTXt"), 4);
+  chunk.set(data, 8);
+  // CRC covers the type and the data
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Adds text entries to a PNG, right after the IHDR chunk so they are found
+ * without reading the image data. Shows up in exiftool, Photoshop, etc.
+ */
+export async function addPngText(
+  png: Blob,
+  entries: Record<string, string>
+): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const ihdrLength = view.getUint32(SIGNATURE_LENGTH);
+  const insertAt = SIGNATURE_LENGTH + 12 + ihdrLength;
+
+  const chunks = Object.entries(entries).map(([keyword, text]) =>
+    textChunk(keyword, text)
+  );
+  return new Blob(
+    [bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)],
+    { type: "image/png" }
+  );
+}
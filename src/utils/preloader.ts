@@ -1,104 +1,231 @@
-import AsyncPreloader from "async-preloader";
-import type { Assets, Manifest, ManifestItem } from "@/types/types";
+import type {
+  ItemProgress,
+  LoadProgress,
+  LoadResult,
+  Manifest,
+  ManifestItem,
+} from "@/types/types";
+import type { EngineRenderer } from "@/engine/renderer-factory";
+import { BytesListener, ManifestError } from "./loader-registry";
+import { loaderRegistry } from "./loaders";
+import { AssetStore, BOOT_GROUP } from "./asset-store";
+import { AssetCache } from "./asset-cache";
 
-type LoadResult = {
-  id: string;
-  asset: unknown;
-  failed: boolean;
-};
+export type ProgressListener = (progress: LoadProgress) => void;
+
+export interface PreloadResult {
+  assets: AssetStore;
+  // Items still missing, pass them back to Preloader.load() to retry
+  failed: ManifestItem[];
+  errors: Record<string, string>;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function isCritical(item: ManifestItem): boolean {
+  return item.critical === true;
+}
+
+// Aggregates per-item state: bytes once every size is known, counts otherwise
+function summarize(items: ItemProgress[]): LoadProgress {
+  const done = items.filter(
+    (item) => item.status === "loaded" || item.status === "failed"
+  );
+  const sized = items.every((item) => item.bytesTotal !== null);
+  const bytesLoaded = items.reduce((sum, item) => sum + item.bytesLoaded, 0);
+  const bytesTotal = sized
+    ? items.reduce((sum, item) => sum + (item.bytesTotal ?? 0), 0)
+    : null;
+
+  let ratio: number;
+  if (items.length === 0) {
+    ratio = 1;
+  } else if (bytesTotal) {
+    ratio = bytesLoaded / bytesTotal;
+  } else {
+    const partial = items.reduce((sum, item) => {
+      if (item.status === "loaded" || item.status === "failed") return sum + 1;
+      if (!item.bytesTotal) return sum;
+      return sum + item.bytesLoaded / item.bytesTotal;
+    }, 0);
+    ratio = partial / items.length;
+  }
+
+  return {
+    items: items.map((item) => ({ ...item })),
+    loaded: done.length,
+    total: items.length,
+    bytesLoaded,
+    bytesTotal,
+    ratio: Math.min(1, ratio),
+  };
+}
 
 export class Preloader {
-  private static imageCache = new Map<string, Promise<HTMLImageElement>>();
+  static DEFAULT_TIMEOUT = 15000;
+  static DEFAULT_RETRIES = 2;
+  static RETRY_DELAY = 500; // doubled after every failed attempt
+
+  // Handed to loaders that need the GPU, set by the engine once it exists
+  private static renderer: EngineRenderer | null = null;
+
+  static setRenderer(renderer: EngineRenderer | null): void {
+    this.renderer = renderer;
+  }
+
+  // Persistent cache for the current manifest version, null when disabled
+  private static cache: AssetCache | null = null;
 
-  static async init(): Promise<Assets> {
+  // Loads the boot group, other groups are declared and loaded on demand
+  static async init(onProgress?: ProgressListener): Promise<PreloadResult> {
     const manifest = await this.loadManifest();
-    return this.preload(manifest);
+    // Caching in dev would hide edits to files under public/
+    if (manifest.cache ?? __APP_MODE__ === "production") {
+      this.cache = await AssetCache.open(manifest.version ?? "0");
+    }
+    const assets = new AssetStore();
+    manifest.items.forEach((item) => assets.declare(item));
+    return this.load(assets.items(BOOT_GROUP), onProgress, assets);
+  }
+
+  /**
+   * Loads the items into `assets` (a fresh store by default). Failed items
+   * are logged and returned rather than thrown, the caller decides whether
+   * they block startup.
+   */
+  static async load(
+    items: ManifestItem[] = [],
+    onProgress?: ProgressListener,
+    assets: AssetStore = new AssetStore()
+  ): Promise<PreloadResult> {
+    const progress: ItemProgress[] = items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      status: "pending",
+      attempt: 0,
+      bytesLoaded: 0,
+      bytesTotal: null,
+    }));
+    const emit = () => onProgress?.(summarize(progress));
+    emit();
+
+    const results: LoadResult[] = await Promise.all(
+      items.map((item, index) =>
+        this.loadWithRetry(item, progress[index], emit)
+      )
+    );
+
+    const failed: ManifestItem[] = [];
+    const errors: Record<string, string> = {};
+    results.forEach((result, index) => {
+      if (result.failed) {
+        failed.push(items[index]);
+        errors[result.id] = result.error ?? "Unknown error";
+        assets.fail(items[index], errors[result.id]);
+      } else {
+        assets.set(items[index], result.asset);
+      }
+    });
+
+    if (failed.length) {
+      console.warn("Some assets failed to load:", errors);
+    }
+
+    return { assets, failed, errors };
   }
 
   private static async loadManifest(): Promise<Manifest> {
     try {
-      const response = await fetch("/data/manifest.json");
-      if (!response.ok) {
-        throw new Error(`Manifest fetch failed: ${response.status}`);
-      }
-      return (await response.json()) as Manifest;
+      return await AssetCache.fetchManifest("/data/manifest.json");
     } catch (e) {
       console.warn("Manifest not found or invalid, using empty manifest", e);
       return { items: [] };
     }
   }
 
-  private static loadImage(
-    url: string,
-    crossOrigin = "anonymous"
-  ): Promise<HTMLImageElement> {
-    if (this.imageCache.has(url)) {
-      return this.imageCache.get(url)!;
-    }
-    const p = new Promise<HTMLImageElement>((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = crossOrigin;
-      img.onload = () => resolve(img);
-      img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
-      img.src = url;
-    });
-    this.imageCache.set(url, p);
-    return p;
-  }
-
-  private static async loadJSON(url: string): Promise<unknown> {
-    const res = await fetch(url);
-    if (!res.ok) {
-      throw new Error(`JSON fetch failed: ${res.status} ${res.statusText}`);
-    }
-    return res.json();
-  }
+  private static async loadWithRetry(
+    item: ManifestItem,
+    progress: ItemProgress,
+    emit: () => void
+  ): Promise<LoadResult> {
+    const retries = item.retries ?? this.DEFAULT_RETRIES;
+    const timeout = item.timeout ?? this.DEFAULT_TIMEOUT;
 
-  private static async preload(
-    manifest: Manifest = { items: [] }
-  ): Promise<Assets> {
-    const { items } = manifest;
-    if (!items || items.length === 0) return {};
+    for (let attempt = 1; ; attempt++) {
+      progress.status = "loading";
+      progress.attempt = attempt;
+      progress.bytesLoaded = 0;
+      progress.error = undefined;
+      emit();
 
-    const results: LoadResult[] = await Promise.all(
-      items.map(async (item): Promise<LoadResult> => {
-        try {
-          if (item.type === "image") {
-            // item is ImageItem here, so crossOrigin may exist
-            const img = await this.loadImage(
-              item.url,
-              (item as any).crossOrigin ?? "anonymous"
-            );
-            return { id: item.id, asset: img, failed: false };
-          }
-
-          if (item.type === "json") {
-            const data = await this.loadJSON(item.url);
-            return { id: item.id, asset: data, failed: false };
-          }
-
-          // fallback for future/unknown types — not expected given current manifest types
-          const asset = await AsyncPreloader.loadItem((item as any).url);
-          // return { id: item.id, asset, failed: false };
-        } catch (err) {
+      try {
+        const asset = await this.loadItem(item, timeout, (loaded, total) => {
+          progress.bytesLoaded = loaded;
+          progress.bytesTotal = total;
+          emit();
+        });
+        progress.status = "loaded";
+        if (progress.bytesTotal === null) {
+          progress.bytesTotal = progress.bytesLoaded;
+        }
+        emit();
+        return { id: item.id, asset, failed: false };
+      } catch (err) {
+        const error = errorMessage(err);
+        // Manifest errors fail the same way on every attempt
+        if (attempt > retries || err instanceof ManifestError) {
           console.error(`Failed to load "${item.id}" from "${item.url}":`, err);
-          return { id: item.id, asset: null, failed: true };
+          progress.status = "failed";
+          progress.error = error;
+          // A failed item no longer holds back the byte total
+          progress.bytesTotal = progress.bytesLoaded;
+          emit();
+          return { id: item.id, asset: null, failed: true, error };
         }
-      })
-    );
-
-    const assets: Assets = {};
-    const failedIds: string[] = [];
-
-    for (const { id, asset, failed } of results) {
-      assets[id] = asset;
-      if (failed) failedIds.push(id);
+        const delay = this.RETRY_DELAY * 2 ** (attempt - 1);
+        console.warn(
+          `Retrying "${item.id}" in ${delay}ms (attempt ${attempt}): ${error}`
+        );
+        await wait(delay);
+      }
     }
+  }
 
-    if (failedIds.length) {
-      console.warn("Some assets failed to load:", failedIds);
-    }
+  private static async loadItem(
+    item: ManifestItem,
+    timeout: number,
+    onBytes: BytesListener
+  ): Promise<unknown> {
+    // Aborting only stops the fetch, the race also covers decoding and
+    // parsing stages that never look at the signal
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Timed out after ${timeout}ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+    });
 
-    return assets;
+    try {
+      return await Promise.race([
+        loaderRegistry.load(item, {
+          signal: controller.signal,
+          onBytes,
+          renderer: this.renderer ?? undefined,
+          cache: this.cache?.forItem(item),
+        }),
+        timedOut,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 }
@@ -0,0 +1,282 @@
+import * as THREE from "three";
+import gsap from "gsap";
+import type { DemoId } from "@/engine/demo-registry";
+import {
+  UniformSchema,
+  UniformSet,
+  sanitizeUniformValue,
+} from "@/engine/uniform-schema";
+import { downloadBlob } from "./download";
+
+const STORAGE_KEY = "tsl-lab:presets";
+const FILE_VERSION = 1;
+
+// JSON friendly parameter values: vectors as arrays, colors as "#rrggbb"
+export type PresetValues = Record<string, number | boolean | string | number[]>;
+
+export interface Preset {
+  demo: DemoId;
+  name: string;
+  values: PresetValues;
+  builtIn?: boolean; // shipped through the manifest, cannot be deleted
+}
+
+export interface PresetFile {
+  version: number;
+  presets: Preset[];
+}
+
+function isPreset(value: unknown): value is Preset {
+  if (!value || typeof value !== "object") return false;
+  const preset = value as Preset;
+  return (
+    typeof preset.demo === "string" &&
+    typeof preset.name === "string" &&
+    preset.name.trim() !== "" &&
+    !!preset.values &&
+    typeof preset.values === "object"
+  );
+}
+
+// Validates a preset file, reporting entries it had to skip on `issues`
+export function parsePresetFile(data: unknown, issues: string[]): Preset[] {
+  if (!data || typeof data !== "object") {
+    issues.push("Preset file is not an object");
+    return [];
+  }
+  const file = data as Partial<PresetFile>;
+  if (file.version !== FILE_VERSION) {
+    issues.push(`Unsupported preset file version: ${file.version}`);
+    return [];
+  }
+  if (!Array.isArray(file.presets)) {
+    issues.push('Preset file has no "presets" array');
+    return [];
+  }
+
+  return file.presets.filter((preset, index) => {
+    if (isPreset(preset)) return true;
+    issues.push(`Skipping malformed preset at index ${index}`);
+    return false;
+  });
+}
+
+export function serializeUniforms(
+  uniforms: UniformSet<UniformSchema>
+): PresetValues {
+  const values: PresetValues = {};
+  uniforms.names().forEach((name) => {
+    if (uniforms.schema[name].hidden) return;
+    const value: unknown = uniforms.get(name);
+
+    if (value instanceof THREE.Color) {
+      values[name] = `#${value.getHexString()}`;
+    } else if (value instanceof THREE.Vector2) {
+      values[name] = [value.x, value.y];
+    } else if (value instanceof THREE.Vector3) {
+      values[name] = [value.x, value.y, value.z];
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      values[name] = value;
+    }
+  });
+  return values;
+}
+
+// Running preset tweens per uniform set, so a new preset replaces them
+const activeTweens = new WeakMap<
+  UniformSet<UniformSchema>,
+  Map<string, gsap.core.Tween>
+>();
+
+/**
+ * Tweens the demo uniforms towards the preset values. Numbers, vectors and
+ * colors animate, booleans snap. Returns the values that were skipped or
+ * clamped.
+ */
+export function animateToPreset(
+  uniforms: UniformSet<UniformSchema>,
+  values: PresetValues,
+  options: { duration?: number; onUpdate?: () => void } = {}
+): string[] {
+  const { duration = 0.8, onUpdate } = options;
+  const issues: string[] = [];
+
+  const tweens = activeTweens.get(uniforms) ?? new Map();
+  activeTweens.set(uniforms, tweens);
+
+  Object.entries(values).forEach(([name, raw]) => {
+    const spec = uniforms.schema[name];
+    if (!spec) {
+      issues.push(`Unknown parameter "${name}"`);
+      return;
+    }
+    const target = sanitizeUniformValue(name, spec, raw, issues);
+    if (target === undefined) return;
+
+    const current: unknown = uniforms.get(name);
+    tweens.get(name)?.kill();
+    tweens.delete(name);
+
+    const components =
+      target instanceof THREE.Color
+        ? { r: target.r, g: target.g, b: target.b }
+        : target instanceof THREE.Vector3
+        ? { x: target.x, y: target.y, z: target.z }
+        : target instanceof THREE.Vector2
+        ? { x: target.x, y: target.y }
+        : null;
+
+    if (components && current && typeof current === "object") {
+      // Tween the shared instance in place, TSL and GLSL read the same object
+      tweens.set(
+        name,
+        gsap.to(current, {
+          ...components,
+          duration,
+          ease: "power2.inOut",
+          onUpdate,
+        })
+      );
+    } else if (typeof current === "number" && typeof target === "number") {
+      const proxy = { value: current };
+      tweens.set(
+        name,
+        gsap.to(proxy, {
+          value: target,
+          duration,
+          ease: "power2.inOut",
+          onUpdate: () => {
+            uniforms.set(
+              name,
+              spec.type === "int" ? Math.round(proxy.value) : proxy.value
+            );
+            onUpdate?.();
+          },
+        })
+      );
+    } else {
+      uniforms.set(name, target);
+    }
+  });
+
+  onUpdate?.();
+  return issues;
+}
+
+/**
+ * Per-demo named presets. Built-in presets come from the manifest
+ * (`presets` asset), user presets live in localStorage and override
+ * built-ins with the same name.
+ */
+export class PresetStore {
+  private builtIn: Preset[] = [];
+  private user: Preset[] = [];
+
+  constructor(defaults?: unknown) {
+    if (defaults) {
+      const issues: string[] = [];
+      this.builtIn = parsePresetFile(defaults, issues).map((preset) => ({
+        ...preset,
+        builtIn: true,
+      }));
+      if (issues.length) {
+        console.warn("⚠️ Some default presets were invalid:", issues);
+      }
+    }
+    this.user = this.load();
+  }
+
+  list(demo: DemoId): Preset[] {
+    const byName = new Map<string, Preset>();
+    [...this.builtIn, ...this.user]
+      .filter((preset) => preset.demo === demo)
+      .forEach((preset) => byName.set(preset.name, preset));
+    return Array.from(byName.values());
+  }
+
+  get(demo: DemoId, name: string): Preset | undefined {
+    return this.list(demo).find((preset) => preset.name === name);
+  }
+
+  save(demo: DemoId, name: string, values: PresetValues): Preset {
+    const preset: Preset = { demo, name: name.trim(), values };
+    this.user = this.user.filter(
+      (p) => !(p.demo === demo && p.name === preset.name)
+    );
+    this.user.push(preset);
+    this.persist();
+    return preset;
+  }
+
+  // Only user presets can be removed, built-ins reappear on reload
+  remove(demo: DemoId, name: string): boolean {
+    const count = this.user.length;
+    this.user = this.user.filter((p) => !(p.demo === demo && p.name === name));
+    this.persist();
+    return this.user.length !== count;
+  }
+
+  exportFile(demo?: DemoId): void {
+    const presets = demo
+      ? this.list(demo)
+      : [...this.builtIn.filter((p) => !this.isOverridden(p)), ...this.user];
+    const file: PresetFile = {
+      version: FILE_VERSION,
+      presets: presets.map(({ builtIn, ...preset }) => preset),
+    };
+
+    const blob = new Blob([JSON.stringify(file, null, 2)], {
+      type: "application/json",
+    });
+    downloadBlob(blob, `presets-${demo ?? "all"}.json`);
+  }
+
+  // Imported presets are merged into the user presets
+  async importFile(file: File): Promise<string[]> {
+    const issues: string[] = [];
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (e) {
+      issues.push(`"${file.name}" is not valid JSON`);
+      return issues;
+    }
+
+    const presets = parsePresetFile(data, issues);
+    presets.forEach((preset) =>
+      this.save(preset.demo, preset.name, preset.values)
+    );
+    return issues;
+  }
+
+  private isOverridden(preset: Preset): boolean {
+    return this.user.some(
+      (p) => p.demo === preset.demo && p.name === preset.name
+    );
+  }
+
+  private load(): Preset[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+      const issues: string[] = [];
+      const presets = parsePresetFile(JSON.parse(raw), issues);
+      if (issues.length) {
+        console.warn("⚠️ Some stored presets were invalid:", issues);
+      }
+      return presets;
+    } catch (e) {
+      console.warn("Stored presets unreadable, starting empty", e);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    const file: PresetFile = { version: FILE_VERSION, presets: this.user };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+    } catch (e) {
+      console.warn("Could not store presets", e);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import * as THREE from "three";
+import type { DemoId } from "@/engine/demo-registry";
+import { RendererType, isRendererType } from "@/engine/renderer-factory";
+import {
+  RESERVED_UNIFORM_NAMES,
+  UniformSchema,
+  UniformSet,
+} from "@/engine/uniform-schema";
+
+// Hash keys that are not demo parameters
+const RESERVED_KEYS = RESERVED_UNIFORM_NAMES;
+
+export interface UrlState {
+  demo?: DemoId;
+  renderer?: RendererType;
+  camera?: {
+    position: THREE.Vector3;
+    target: THREE.Vector3;
+  };
+  // Raw parameter strings, decoded once the demo schema is known
+  params: Record<string, string>;
+}
+
+function formatNumber(value: number): string {
+  return String(parseFloat(value.toPrecision(6)));
+}
+
+function parseVector3(raw: string | null): THREE.Vector3 | null {
+  if (!raw) return null;
+  const parts = raw.split(",").map(Number);
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return null;
+  return new THREE.Vector3(...parts);
+}
+
+function formatVector3(v: THREE.Vector3): string {
+  return [v.x, v.y, v.z].map(formatNumber).join(",");
+}
+
+/**
+ * Parses the location hash, e.g. `#demo=sdf&radius=0.41&fade=3`.
+ * The renderer can also come from the query string (`?renderer=webgl2`),
+ * the hash wins when both are set. Malformed entries are reported on
+ * `issues` and skipped.
+ */
+export function readUrlState(
+  hash: string = window.location.hash,
+  issues: string[] = [],
+  query: string = window.location.search
+): UrlState {
+  const search = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: UrlState = { params: {} };
+
+  const demo = search.get("demo");
+  if (demo) state.demo = demo;
+
+  const renderer =
+    search.get("renderer") ?? new URLSearchParams(query).get("renderer");
+  if (renderer) {
+    if (isRendererType(renderer)) {
+      state.renderer = renderer;
+    } else {
+      issues.push(`Unknown renderer "${renderer}"`);
+    }
+  }
+
+  if (search.has("cam") || search.has("target")) {
+    const position = parseVector3(search.get("cam"));
+    const target = parseVector3(search.get("target")) ?? new THREE.Vector3();
+    if (position) {
+      state.camera = { position, target };
+    } else {
+      issues.push(`Invalid camera position "${search.get("cam")}"`);
+    }
+  }
+
+  search.forEach((value, key) => {
+    if (!RESERVED_KEYS.includes(key)) state.params[key] = value;
+  });
+
+  return state;
+}
+
+export function formatUrlState(state: UrlState): string {
+  const search = new URLSearchParams();
+  if (state.demo) search.set("demo", state.demo);
+  if (state.renderer) search.set("renderer", state.renderer);
+  if (state.camera) {
+    search.set("cam", formatVector3(state.camera.position));
+    search.set("target", formatVector3(state.camera.target));
+  }
+  Object.entries(state.params).forEach(([key, value]) => {
+    search.set(key, value);
+  });
+  return `#${search.toString()}`;
+}
+
+// Serializes every non-hidden uniform of a demo into hash strings
+export function encodeUniforms(
+  uniforms: UniformSet<UniformSchema>
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  uniforms.names().forEach((name) => {
+    const spec = uniforms.schema[name];
+    if (spec.hidden) return;
+    const value: unknown = uniforms.get(name);
+
+    if (value instanceof THREE.Color) {
+      params[name] = value.getHexString();
+    } else if (value instanceof THREE.Vector2) {
+      params[name] = [value.x, value.y].map(formatNumber).join(",");
+    } else if (value instanceof THREE.Vector3) {
+      params[name] = formatVector3(value);
+    } else if (typeof value === "boolean") {
+      params[name] = value ? "1" : "0";
+    } else if (typeof value === "number") {
+      params[name] = formatNumber(value);
+    }
+  });
+  return params;
+}
+
+/**
+ * Decodes hash strings against the demo schema and applies them. Unknown
+ * names, malformed and out-of-range values end up on `issues`.
+ */
+export function applyUrlParams(
+  uniforms: UniformSet<UniformSchema>,
+  params: Record<string, string>,
+  issues: string[]
+): void {
+  const values: Record<string, unknown> = {};
+
+  Object.entries(params).forEach(([name, raw]) => {
+    const spec = uniforms.schema[name];
+    if (!spec) {
+      values[name] = raw; // reported as unknown by assign()
+      return;
+    }
+    switch (spec.type) {
+      case "float":
+      case "int":
+        values[name] = raw.trim() === "" ? NaN : Number(raw);
+        break;
+      case "bool":
+        values[name] = raw === "1" || raw === "true";
+        break;
+      case "vec2":
+      case "vec3":
+        values[name] = raw.split(",").map(Number);
+        break;
+      case "color":
+        if (/^[0-9a-f]{6}$/i.test(raw)) {
+          values[name] = `#${raw}`;
+        } else {
+          issues.push(`"${name}" has an invalid color value: ${raw}`);
+        }
+        break;
+    }
+  });
+
+  uniforms.assign(values, issues);
+}
+
+/**
+ * Mirrors engine state into the location hash. Writes are debounced and use
+ * history.replaceState so they neither spam the history nor fire hashchange.
+ */
+export class UrlStateSync {
+  private snapshot: () => UrlState;
+  private delay: number;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(snapshot: () => UrlState, delay = 300) {
+    this.snapshot = snapshot;
+    this.delay = delay;
+  }
+
+  request(): void {
+    if (this.timeout !== null) clearTimeout(this.timeout);
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.write();
+    }, this.delay);
+  }
+
+  write(): void {
+    const hash = formatUrlState(this.snapshot());
+    if (hash === window.location.hash) return;
+    history.replaceState(null, "", hash);
+  }
+
+  dispose(): void {
+    if (this.timeout !== null) clearTimeout(this.timeout);
+    this.timeout = null;
+  }
+}
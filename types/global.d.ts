@@ -2,3 +2,6 @@ declare module '*.wgsl' {
     const value: string;
     export default value;
 }
+
+// Vite mode ("development", "production", ...), defined in vite.config.ts
+declare const __APP_MODE__: string;
@@ -1,8 +1,70 @@
-import { defineConfig } from "vite";
+/// <reference types="node" />
+import fs from "node:fs";
+import path from "node:path";
+import { Plugin, defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 import glsl from "vite-plugin-glsl";
 
-export default defineConfig({
+const MANIFEST = "public/data/manifest.json";
+const ASSET_IDS = "src/types/asset-ids.ts";
+
+// Regenerates the AssetId union (src/types/asset-ids.ts) from the manifest
+function manifestAssetIds(): Plugin {
+  let root = process.cwd();
+
+  const generate = () => {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.resolve(root, MANIFEST), "utf8")
+    );
+    const entries = (manifest.items ?? []).map(
+      ({ id, type }: { id: string; type: string }) => {
+        const key = /^[A-Za-z_$][\w$]*$/.test(id) ? id : JSON.stringify(id);
+        return `  ${key}: ${JSON.stringify(type)};`;
+      }
+    );
+    const source = [
+      `// Generated from ${MANIFEST} by vite.config.ts, do not edit.`,
+      "export interface ManifestAssetIds {",
+      ...entries,
+      "}",
+      "",
+    ].join("\n");
+
+    const target = path.resolve(root, ASSET_IDS);
+    if (fs.existsSync(target) && fs.readFileSync(target, "utf8") === source) {
+      return;
+    }
+    fs.writeFileSync(target, source);
+    console.log(`Updated ${ASSET_IDS} from ${MANIFEST}`);
+  };
+
+  return {
+    name: "manifest-asset-ids",
+    configResolved(config) {
+      root = config.root;
+    },
+    buildStart: generate,
+    configureServer(server) {
+      // A manifest saved mid-edit must not take the dev server down, only
+      // buildStart lets the error fail the build
+      server.watcher.on("change", (file) => {
+        if (file !== path.resolve(root, MANIFEST)) return;
+        try {
+          generate();
+        } catch (e) {
+          server.config.logger.error(
+            `Could not update ${ASSET_IDS} from ${MANIFEST}: ${e}`
+          );
+        }
+      });
+    },
+  };
+}
+
+export default defineConfig(({ mode }) => ({
+  define: {
+    __APP_MODE__: JSON.stringify(mode),
+  },
   plugins: [
     glsl({
       include: [
@@ -20,8 +82,9 @@ export default defineConfig({
       watch: true, // Recompile shader on change
     }),
     tsconfigPaths(),
+    manifestAssetIds(),
   ],
   resolve: {
     alias: [{ find: "@", replacement: "/src" }],
   },
-});
+}));